@@ -1,87 +1,288 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   sendChatMessage,
+  streamChatMessage,
+  getAllowedModels,
+  getProvider,
+  isProviderConfigured,
+} from '@/lib/providers';
+import { providerTimeoutError } from '@/lib/providers/http';
+import { getContextWindow } from '@/lib/providers/models';
+import {
+  buildHintRewriteMessages,
+  buildSummaryMessages,
   generateContextualPrompt,
   getFallbackResponse,
-} from '@/lib/openrouter';
-import { Message } from '@/types';
-
-// Rate limiting variables
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute in milliseconds
-const MAX_REQUESTS_PER_WINDOW = 5; // 5 requests per minute
-const ipRequests = new Map<string, { count: number; timestamp: number }>();
-
-// Helper function to enforce rate limiting
-function isRateLimited(ip: string): boolean {
-  const now = Date.now();
-  const clientData = ipRequests.get(ip);
-
-  if (!clientData) {
-    // First request from this IP
-    ipRequests.set(ip, { count: 1, timestamp: now });
-    return false;
+  getVariantPrompt,
+  getWithheldAnswerReply,
+  withConversationSummary,
+  withResponseStyle,
+  withTutoringMode,
+  withVisualFormats,
+} from '@/lib/prompts';
+import {
+  DEFAULT_RESPONSE_LENGTH,
+  DEFAULT_TEMPERATURE,
+  RESPONSE_LENGTHS,
+  validateGenerationSettings,
+} from '@/lib/generation';
+import {
+  buildContext,
+  ConversationContext,
+  getHistoryBudget,
+} from '@/lib/context';
+import { STUDENT_ID_HEADER } from '@/lib/rate-limit';
+import { addUsage } from '@/lib/usage';
+import {
+  chargeUsage,
+  checkRequestLimits,
+  errorResponse,
+  estimateUsage,
+  isMessageList,
+  isRequestBody,
+  toChatError,
+  withLimitHeaders,
+} from '@/lib/api';
+import {
+  getPromptTemplate,
+  PromptTemplate,
+  templateId,
+  toLearnerProfile,
+} from '@/lib/prompt-templates';
+import {
+  DEFAULT_TUTORING_MODE,
+  findFinalAnswer,
+  getHintLevel,
+  isTutoringMode,
+  withholdsAnswers,
+} from '@/lib/tutoring';
+import { isVariantKind } from '@/lib/variants';
+import { encodeSSE } from '@/lib/sse';
+import { generateId } from '@/lib/utils';
+import {
+  ConversationSummary,
+  DifficultyLevel,
+  Message,
+  MessageVariantKind,
+  TokenUsage,
+  TutoringMode,
+} from '@/types';
+
+// Upper bound on conversation history sent per request, whatever the model
+const HISTORY_TOKEN_LIMIT = Number(process.env.LLM_HISTORY_TOKENS) || 6000;
+const MAX_SUMMARY_TOKENS = 400;
+// Time allowed for every model call behind one guided reply; under the
+// client's 30 second timeout, like a single call's retry deadline
+const GUIDED_REPLY_DEADLINE = 25000;
+
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = undefined;
   }
 
-  if (now - clientData.timestamp > RATE_LIMIT_WINDOW) {
-    // Window has passed, reset counter
-    ipRequests.set(ip, { count: 1, timestamp: now });
-    return false;
+  if (!isRequestBody(body)) {
+    return errorResponse({
+      error: 'Request body must be a JSON object',
+      code: 'invalid_request',
+      retryable: false,
+    });
   }
 
-  // Increment counter
-  clientData.count++;
-  ipRequests.set(ip, clientData);
+  const limits = await checkRequestLimits(request.headers, body?.sessionId);
+  if ('response' in limits) return limits.response;
+
+  // Students keep the same prompt template across chats while A/B testing
+  const template = getPromptTemplate(
+    request.headers.get(STUDENT_ID_HEADER) || body?.sessionId
+  );
 
-  // Check if over limit
-  return clientData.count > MAX_REQUESTS_PER_WINDOW;
+  const response = await chat(
+    body,
+    {
+      template,
+      studentKey: limits.studentKey,
+      budgetModel: limits.budgetModel,
+    },
+    request.signal
+  );
+
+  return withLimitHeaders(response, limits.headers);
 }
 
-// Cleanup old rate limit entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [ip, data] of ipRequests.entries()) {
-    if (now - data.timestamp > RATE_LIMIT_WINDOW * 5) {
-      ipRequests.delete(ip);
-    }
-  }
-}, 5 * 60 * 1000);
+/**
+ * What the route has worked out about a request before answering it
+ */
+interface ChatRequestContext {
+  template: PromptTemplate;
+  /** Who the tokens used are charged to */
+  studentKey?: string;
+  /** Set once the daily budget is spent: reply briefly using this model */
+  budgetModel?: string;
+}
 
-export async function POST(request: NextRequest) {
+/**
+ * Answer a chat request that has passed the rate limit
+ */
+async function chat(
+  {
+    messages,
+    subject,
+    difficulty,
+    stream,
+    summary,
+    settings,
+    learnerProfile,
+    tutoringMode,
+    variant,
+  }: {
+    messages?: Message[];
+    subject?: string;
+    difficulty?: DifficultyLevel;
+    stream?: boolean;
+    summary?: unknown;
+    settings?: unknown;
+    learnerProfile?: unknown;
+    tutoringMode?: unknown;
+    /** Explain the last message, a tutor reply, again in another way */
+    variant?: { kind?: unknown };
+  },
+  { template, studentKey, budgetModel }: ChatRequestContext,
+  signal: AbortSignal
+): Promise<Response> {
   try {
-    // Get client IP for rate limiting
-    const ip = request.headers.get('x-forwarded-for') || 'unknown-ip';
-
-    // Check rate limit
-    if (isRateLimited(ip)) {
-      return NextResponse.json(
-        { error: 'Rate limit exceeded. Please try again later.' },
-        { status: 429 }
+    // Validate input
+    if (!isMessageList(messages) || messages.length === 0) {
+      return errorResponse({
+        error: 'Valid messages array is required',
+        code: 'invalid_request',
+        retryable: false,
+      });
+    }
+
+    // Check if the model provider is configured (e.g. has an API key)
+    if (!isProviderConfigured()) {
+      // In production, don't leak information about missing configuration
+      const fallback = getFallbackResponse(
+        messages[messages.length - 1]?.content || ''
       );
+
+      if (stream) {
+        return streamResponse(
+          (async function* () {
+            yield fallback;
+          })()
+        );
+      }
+
+      return NextResponse.json({ message: fallback });
     }
 
-    const { messages, subject, difficulty } = await request.json();
+    // Session settings may only pick from what the server allows
+    const validated = validateGenerationSettings(settings, getAllowedModels());
+    if ('error' in validated) {
+      return errorResponse({
+        error: validated.error,
+        code: 'invalid_request',
+        retryable: false,
+      });
+    }
 
-    // Validate input
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
-      return NextResponse.json(
-        { error: 'Valid messages array is required' },
-        { status: 400 }
-      );
+    if (tutoringMode !== undefined && !isTutoringMode(tutoringMode)) {
+      return errorResponse({
+        error: `Unknown tutoring mode "${String(tutoringMode)}"`,
+        code: 'invalid_request',
+        retryable: false,
+      });
     }
 
-    // Check if API key is configured
-    if (!process.env.OPENROUTER_API_KEY) {
-      // In production, don't leak information about missing API key
-      return NextResponse.json({
-        message: getFallbackResponse(
-          messages[messages.length - 1]?.content || ''
-        ),
+    if (
+      variant !== undefined &&
+      (!isVariantKind(variant?.kind) ||
+        messages[messages.length - 1]?.role !== 'assistant')
+    ) {
+      return errorResponse({
+        error: 'A variant must name a known kind and follow a tutor reply',
+        code: 'invalid_request',
+        retryable: false,
       });
     }
 
-    // Convert our message format to OpenRouter format with proper type handling
-    const chatMessages = messages.map((msg: Message) => {
-      // Ensure role is properly cast to a valid OpenRouter role
+    const { temperature, style } = validated.settings;
+    const model = budgetModel ?? validated.settings.model;
+    const length = budgetModel ? 'short' : validated.settings.length;
+    const provider = getProvider();
+    const maxTokens =
+      RESPONSE_LENGTHS[length ?? DEFAULT_RESPONSE_LENGTH].maxTokens;
+
+    // Generate contextual system prompt
+    const promptVersion = templateId(template);
+    const mode = tutoringMode ?? DEFAULT_TUTORING_MODE;
+    const hintLevel = getHintLevel(messages);
+    const systemPrompt = withTutoringMode(
+      withResponseStyle(
+        withVisualFormats(
+          generateContextualPrompt(template, {
+            subject,
+            difficulty,
+            learner: toLearnerProfile(learnerProfile),
+          })
+        ),
+        style
+      ),
+      mode,
+      hintLevel
+    );
+
+    // Fit the conversation into the model's context window, folding older
+    // turns into the rolling summary when they no longer fit
+    const previousSummary = isConversationSummary(summary)
+      ? summary
+      : undefined;
+    const context = buildContext(
+      variant
+        ? withVariantRequest(messages, variant.kind as MessageVariantKind)
+        : messages,
+      getHistoryBudget({
+        contextWindow:
+          model && model !== provider.model
+            ? getContextWindow(model)
+            : provider.contextWindow,
+        maxTokens,
+        systemPrompt,
+        limit: HISTORY_TOKEN_LIMIT,
+      }),
+      previousSummary
+    );
+
+    // In guided modes a reply can take three model calls - the summary, the
+    // draft and a rewrite that withholds the answer - so they share one
+    // deadline, leaving the student an answer or an error before the
+    // browser gives up
+    const guided = withholdsAnswers(mode);
+    const modelSignal = guided
+      ? AbortSignal.any([signal, AbortSignal.timeout(GUIDED_REPLY_DEADLINE)])
+      : signal;
+    // Aborts caused by the deadline rather than the client are timeouts
+    const toTimeout = (error: unknown) =>
+      modelSignal.aborted && !signal.aborted ? providerTimeoutError() : error;
+
+    let summaryUsage: TokenUsage | undefined;
+    const updatedSummary = await updateSummary(
+      previousSummary,
+      context,
+      modelSignal,
+      (usage) => {
+        summaryUsage = usage;
+      }
+    );
+    const activeSummary = updatedSummary ?? previousSummary;
+
+    // Convert our message format to the provider format with proper type handling
+    const contextMessages = context.messages.map((msg: Message) => {
+      // Ensure role is properly cast to a valid provider role
       let role: 'system' | 'user' | 'assistant';
       if (msg.role === 'user') {
         role = 'user';
@@ -98,61 +299,321 @@ export async function POST(request: NextRequest) {
       };
     });
 
-    // Ensure we're sending the full conversation history for context
-    // If it's very long, we might limit it to the last 15 messages
-    const contextMessages =
-      chatMessages.length > 15
-        ? chatMessages.slice(chatMessages.length - 15)
-        : chatMessages;
+    let replyUsage: TokenUsage | undefined;
+    const requestOptions = {
+      model,
+      temperature: temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens,
+      systemPrompt: withConversationSummary(
+        systemPrompt,
+        activeSummary?.content
+      ),
+      signal: modelSignal,
+      onUsage: (usage: TokenUsage) => {
+        replyUsage = usage;
+      },
+    };
 
-    // Generate contextual system prompt
-    const systemPrompt = generateContextualPrompt(subject, difficulty);
+    // Charge the tokens used to the student's daily budget, estimating
+    // them when the provider doesn't say
+    const charge = (reply: string, extraUsage?: TokenUsage) =>
+      chargeUsage(
+        studentKey,
+        addUsage(
+          addUsage(
+            replyUsage ??
+              estimateUsage(
+                requestOptions.systemPrompt +
+                  contextMessages.map((m) => m.content).join('\n'),
+                reply
+              ),
+            summaryUsage
+          ),
+          extraUsage
+        )
+      );
+    const summaryEvents: [string, unknown][] = updatedSummary
+      ? [['summary', updatedSummary]]
+      : [];
 
     try {
-      // Send request to OpenRouter with proper system prompt and subject/difficulty
-      const response = await sendChatMessage(contextMessages, {
-        temperature: 0.7,
-        maxTokens: 800, // Increased max tokens for more complete responses
-        systemPrompt: systemPrompt,
-      });
+      if (guided) {
+        // Replies are checked for final answers before anything is sent, so
+        // in these modes they arrive all at once instead of streaming
+        const answer = async () => {
+          try {
+            const draft = await sendChatMessage(
+              contextMessages,
+              requestOptions
+            );
+            let rewriteUsage: TokenUsage | undefined;
+            const { reply, answerWithheld } = await withholdAnswer(draft, {
+              mode,
+              hintLevel,
+              question:
+                [...messages].reverse().find((m) => m.role === 'user')
+                  ?.content ?? '',
+              model,
+              maxTokens,
+              signal: modelSignal,
+              onUsage: (usage) => {
+                rewriteUsage = usage;
+              },
+            });
+            return {
+              reply,
+              meta: {
+                promptVersion,
+                ...(answerWithheld && { answerWithheld }),
+              },
+              usage: charge(draft, rewriteUsage),
+            };
+          } catch (error) {
+            throw toTimeout(error);
+          }
+        };
 
-      return NextResponse.json({ message: response });
-    } catch (apiError) {
-      // Check if error is a rate limit error
-      const errorMessage =
-        apiError instanceof Error ? apiError.message : String(apiError);
-
-      if (
-        errorMessage.includes('rate limit') ||
-        errorMessage.includes('too many requests')
-      ) {
-        return NextResponse.json(
-          { error: 'Rate limit exceeded. Please try again in a moment.' },
-          { status: 429 }
+        if (stream) {
+          // `meta` goes out straight away, before the draft is asked for, so
+          // the client knows the reply is on its way
+          let result: Awaited<ReturnType<typeof answer>> | undefined;
+          return streamResponse(
+            (async function* () {
+              result = await answer();
+              yield result.reply;
+            })(),
+            [['meta', { promptVersion }], ...summaryEvents],
+            () =>
+              result
+                ? [
+                    ['meta', result.meta],
+                    ['usage', result.usage],
+                  ]
+                : []
+          );
+        }
+
+        const { reply, meta, usage } = await answer();
+        return NextResponse.json({
+          message: reply,
+          summary: updatedSummary,
+          ...meta,
+          usage,
+        });
+      }
+
+      if (stream) {
+        // Wait for the first chunk so upstream errors (rate limits, auth)
+        // still produce a proper HTTP status instead of a broken stream
+        const chunks = streamChatMessage(contextMessages, requestOptions);
+        const first = await chunks.next();
+        let usage: TokenUsage | undefined;
+
+        return streamResponse(
+          (async function* () {
+            let reply = '';
+            try {
+              if (!first.done) {
+                reply += first.value;
+                yield first.value;
+              }
+              for await (const chunk of chunks) {
+                reply += chunk;
+                yield chunk;
+              }
+            } finally {
+              // Also runs when the stream fails or the client goes away
+              usage = charge(reply);
+            }
+          })(),
+          [['meta', { promptVersion }], ...summaryEvents],
+          () => (usage ? [['usage', usage]] : [])
         );
       }
 
-      // For other errors, return a user-friendly message
-      return NextResponse.json(
-        {
-          error: 'AI service error',
-          message: getFallbackResponse(
-            messages[messages.length - 1]?.content || ''
-          ),
-        },
-        { status: 503 }
-      );
+      // Send request to the provider with proper system prompt and subject/difficulty
+      const response = await sendChatMessage(contextMessages, requestOptions);
+
+      return NextResponse.json({
+        message: response,
+        summary: updatedSummary,
+        promptVersion,
+        usage: charge(response),
+      });
+    } catch (apiError) {
+      return errorResponse(toChatError(apiError));
     }
   } catch (error) {
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        message:
-          "I'm having some technical difficulties right now. Please try again in a moment!",
-      },
-      { status: 500 }
-    );
+    return errorResponse(toChatError(error));
+  }
+}
+
+/**
+ * Ask for the last reply again in another way, as if the student had
+ * asked for it, so it is answered in the same persona and tutoring mode
+ */
+function withVariantRequest(
+  messages: Message[],
+  kind: MessageVariantKind
+): Message[] {
+  return [
+    ...messages,
+    {
+      id: generateId(),
+      role: 'user',
+      content: getVariantPrompt(kind),
+      timestamp: Date.now(),
+    },
+  ];
+}
+
+/**
+ * Check that a client-supplied summary has the expected shape
+ */
+function isConversationSummary(value: unknown): value is ConversationSummary {
+  const summary = value as ConversationSummary;
+  return (
+    !!summary &&
+    typeof summary.content === 'string' &&
+    typeof summary.throughMessageId === 'string'
+  );
+}
+
+/**
+ * Make sure a reply in a guided mode doesn't give away the final answer.
+ * A reply that does is rewritten as a hint; if the rewrite still gives it
+ * away, or fails, a reply asking the student to try the first step is used.
+ */
+async function withholdAnswer(
+  reply: string,
+  {
+    mode,
+    hintLevel,
+    question,
+    model,
+    maxTokens,
+    signal,
+    onUsage,
+  }: {
+    mode: TutoringMode;
+    hintLevel: number;
+    question: string;
+    model?: string;
+    maxTokens: number;
+    signal: AbortSignal;
+    onUsage: (usage: TokenUsage) => void;
+  }
+): Promise<{ reply: string; answerWithheld: boolean }> {
+  const answer = findFinalAnswer(reply, question);
+  if (!answer) return { reply, answerWithheld: false };
+
+  console.warn(`Withholding final answer in ${mode} mode: "${answer}"`);
+
+  try {
+    const rewritten = (
+      await sendChatMessage(
+        buildHintRewriteMessages(question, reply, hintLevel),
+        { model, temperature: 0.3, maxTokens, signal, onUsage }
+      )
+    ).trim();
+
+    if (rewritten && !findFinalAnswer(rewritten, question)) {
+      return { reply: rewritten, answerWithheld: true };
+    }
+  } catch (rewriteError) {
+    if (signal.aborted) throw rewriteError;
+    console.error('Failed to rewrite reply as a hint:', rewriteError);
   }
+
+  return { reply: getWithheldAnswerReply(mode), answerWithheld: true };
+}
+
+/**
+ * Fold the turns that fell out of the context window into the rolling
+ * summary. Returns undefined when nothing changed or summarizing failed;
+ * in the latter case the older turns are just left out of this request.
+ */
+async function updateSummary(
+  previous: ConversationSummary | undefined,
+  context: ConversationContext,
+  signal: AbortSignal,
+  onUsage: (usage: TokenUsage) => void
+): Promise<ConversationSummary | undefined> {
+  if (!context.summarizeThroughId) return undefined;
+
+  let content = previous?.content ?? '';
+
+  if (context.toSummarize.length > 0) {
+    try {
+      content = await sendChatMessage(
+        buildSummaryMessages(previous?.content, context.toSummarize),
+        { temperature: 0.2, maxTokens: MAX_SUMMARY_TOKENS, signal, onUsage }
+      );
+    } catch (summaryError) {
+      console.error('Failed to update conversation summary:', summaryError);
+      return undefined;
+    }
+  }
+
+  return {
+    content: content.trim(),
+    throughMessageId: context.summarizeThroughId,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Wrap a stream of reply chunks as a server-sent event response.
+ * Sends any `initialEvents` first, then `delta` events for content, then
+ * `finalEvents` and `done`, or `error` if the upstream stream fails part way
+ * through.
+ */
+function streamResponse(
+  chunks: AsyncGenerator<string>,
+  initialEvents: [string, unknown][] = [],
+  finalEvents: () => [string, unknown][] = () => []
+): Response {
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const [event, data] of initialEvents) {
+        controller.enqueue(encodeSSE(event, data));
+      }
+
+      try {
+        for await (const content of chunks) {
+          if (cancelled) return;
+          controller.enqueue(encodeSSE('delta', { content }));
+        }
+        if (cancelled) return;
+        for (const [event, data] of finalEvents()) {
+          controller.enqueue(encodeSSE(event, data));
+        }
+        controller.enqueue(encodeSSE('done', {}));
+      } catch (streamError) {
+        if (cancelled) return;
+        controller.enqueue(
+          encodeSSE('error', toChatError(streamError, 'stream_interrupted'))
+        );
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // The client went away - stop pulling from the model
+      cancelled = true;
+      chunks.return(undefined).catch(() => {});
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
 }
 
 // Handle OPTIONS request for CORS
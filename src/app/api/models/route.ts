@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getAllowedModels, isProviderConfigured } from '@/lib/providers';
+
+/**
+ * Models a chat session may switch to, the default first
+ */
+export async function GET() {
+  if (!isProviderConfigured()) {
+    return NextResponse.json({ models: [] });
+  }
+
+  return NextResponse.json({ models: getAllowedModels() });
+}
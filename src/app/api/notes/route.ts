@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isProviderConfigured, sendChatMessage } from '@/lib/providers';
+import { buildStudyNotesMessages } from '@/lib/prompts';
+import { parseStudyNotes } from '@/lib/study-notes';
+import {
+  chargeUsage,
+  checkRequestLimits,
+  errorResponse,
+  estimateUsage,
+  isMessageList,
+  isRequestBody,
+  toChatError,
+  withLimitHeaders,
+} from '@/lib/api';
+import { addUsage } from '@/lib/usage';
+import { Message, TokenUsage } from '@/types';
+
+/**
+ * Most recent messages the notes are written from. Earlier turns come in
+ * through the session's rolling summary.
+ */
+const NOTES_HISTORY_MESSAGES = 40;
+const MAX_NOTES_TOKENS = 1200;
+const MAX_SUMMARY_LENGTH = 4000;
+
+/**
+ * Write study notes on a chat session. Replies with `{ notes, usage }`, the
+ * notes checked against the expected shape.
+ */
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = undefined;
+  }
+
+  if (!isRequestBody(body)) {
+    return errorResponse({
+      error: 'Request body must be a JSON object',
+      code: 'invalid_request',
+      retryable: false,
+    });
+  }
+
+  const limits = await checkRequestLimits(request.headers, body?.sessionId);
+  if ('response' in limits) return limits.response;
+
+  const response = await studyNotes(body, limits);
+
+  return withLimitHeaders(response, limits.headers);
+}
+
+async function studyNotes(
+  {
+    messages,
+    subject,
+    difficulty,
+    summary,
+  }: {
+    messages?: Message[];
+    subject?: string;
+    difficulty?: string;
+    summary?: unknown;
+  },
+  { studentKey, budgetModel }: { studentKey?: string; budgetModel?: string }
+): Promise<Response> {
+  if (!isMessageList(messages)) {
+    return errorResponse({
+      error: 'Valid messages array is required',
+      code: 'invalid_request',
+      retryable: false,
+    });
+  }
+
+  const history = messages
+    .filter((m) => !m.isError)
+    .slice(-NOTES_HISTORY_MESSAGES);
+
+  if (!history.some((m) => m.role === 'assistant')) {
+    return errorResponse({
+      error: 'There is nothing to summarize yet',
+      code: 'invalid_request',
+      retryable: false,
+    });
+  }
+
+  if (!isProviderConfigured()) {
+    return errorResponse({
+      error: 'Study notes need an AI provider',
+      code: 'provider_unavailable',
+      retryable: false,
+    });
+  }
+
+  const notesMessages = buildStudyNotesMessages(history, {
+    subject,
+    difficulty,
+    summary:
+      typeof summary === 'string'
+        ? summary.slice(0, MAX_SUMMARY_LENGTH)
+        : undefined,
+  });
+
+  // One more attempt if the model's JSON can't be used
+  let usage: TokenUsage | undefined;
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let reported: TokenUsage | undefined;
+    let reply: string;
+
+    try {
+      reply = await sendChatMessage(notesMessages, {
+        model: budgetModel,
+        temperature: 0.3,
+        maxTokens: MAX_NOTES_TOKENS,
+        onUsage: (attemptUsage) => {
+          reported = attemptUsage;
+        },
+      });
+    } catch (error) {
+      return errorResponse(toChatError(error));
+    }
+
+    const attemptUsage =
+      reported ??
+      estimateUsage(notesMessages.map((m) => m.content).join('\n'), reply);
+    usage = usage ? addUsage(usage, attemptUsage) : attemptUsage;
+
+    const parsed = parseStudyNotes(reply);
+    if ('notes' in parsed) {
+      return NextResponse.json({
+        notes: parsed.notes,
+        usage: chargeUsage(studentKey, usage),
+      });
+    }
+
+    console.error(`Unusable study notes (attempt ${attempt}):`, parsed.error);
+  }
+
+  if (usage) chargeUsage(studentKey, usage);
+
+  return errorResponse({
+    error: "The study notes couldn't be read",
+    code: 'invalid_response',
+    retryable: true,
+  });
+}
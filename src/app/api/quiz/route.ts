@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isProviderConfigured, sendChatMessage } from '@/lib/providers';
+import { buildQuizMessages } from '@/lib/prompts';
+import { DEFAULT_QUIZ_LENGTH, MAX_QUIZ_LENGTH, parseQuiz } from '@/lib/quiz';
+import {
+  chargeUsage,
+  checkRequestLimits,
+  errorResponse,
+  estimateUsage,
+  isMessageList,
+  isRequestBody,
+  toChatError,
+  withLimitHeaders,
+} from '@/lib/api';
+import { addUsage } from '@/lib/usage';
+import { Message, TokenUsage } from '@/types';
+
+/**
+ * Most recent messages the quiz is written from, so a quiz covers what was
+ * just discussed rather than the whole session
+ */
+const QUIZ_HISTORY_MESSAGES = 12;
+const MAX_QUIZ_TOKENS = 1500;
+
+/**
+ * Write a quiz about the latest part of a chat session. Replies with
+ * `{ questions, usage }`, the questions checked against the expected shape.
+ */
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = undefined;
+  }
+
+  if (!isRequestBody(body)) {
+    return errorResponse({
+      error: 'Request body must be a JSON object',
+      code: 'invalid_request',
+      retryable: false,
+    });
+  }
+
+  const limits = await checkRequestLimits(request.headers, body?.sessionId);
+  if ('response' in limits) return limits.response;
+
+  const response = await quiz(body, limits, request.signal);
+
+  return withLimitHeaders(response, limits.headers);
+}
+
+async function quiz(
+  {
+    messages,
+    subject,
+    difficulty,
+    count,
+  }: {
+    messages?: Message[];
+    subject?: string;
+    difficulty?: string;
+    count?: unknown;
+  },
+  { studentKey, budgetModel }: { studentKey?: string; budgetModel?: string },
+  signal: AbortSignal
+): Promise<Response> {
+  if (!isMessageList(messages)) {
+    return errorResponse({
+      error: 'Valid messages array is required',
+      code: 'invalid_request',
+      retryable: false,
+    });
+  }
+
+  const history = messages
+    .filter((m) => !m.isError)
+    .slice(-QUIZ_HISTORY_MESSAGES);
+
+  if (!history.some((m) => m.role === 'assistant')) {
+    return errorResponse({
+      error: 'There is nothing to quiz on yet',
+      code: 'invalid_request',
+      retryable: false,
+    });
+  }
+
+  if (!isProviderConfigured()) {
+    return errorResponse({
+      error: 'Quizzes need an AI provider',
+      code: 'provider_unavailable',
+      retryable: false,
+    });
+  }
+
+  const questionCount =
+    typeof count === 'number' && Number.isInteger(count)
+      ? Math.min(Math.max(count, 1), MAX_QUIZ_LENGTH)
+      : DEFAULT_QUIZ_LENGTH;
+  const quizMessages = buildQuizMessages(history, {
+    count: questionCount,
+    subject,
+    difficulty,
+  });
+
+  // One more attempt if the model's JSON can't be used
+  let usage: TokenUsage | undefined;
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let reported: TokenUsage | undefined;
+    let reply: string;
+
+    try {
+      reply = await sendChatMessage(quizMessages, {
+        model: budgetModel,
+        temperature: 0.3,
+        maxTokens: MAX_QUIZ_TOKENS,
+        signal,
+        onUsage: (attemptUsage) => {
+          reported = attemptUsage;
+        },
+      });
+    } catch (error) {
+      return errorResponse(toChatError(error));
+    }
+
+    const attemptUsage =
+      reported ??
+      estimateUsage(quizMessages.map((m) => m.content).join('\n'), reply);
+    usage = usage ? addUsage(usage, attemptUsage) : attemptUsage;
+
+    const parsed = parseQuiz(reply, questionCount);
+    if ('questions' in parsed) {
+      return NextResponse.json({
+        questions: parsed.questions,
+        usage: chargeUsage(studentKey, usage),
+      });
+    }
+
+    console.error(`Unusable quiz (attempt ${attempt}):`, parsed.error);
+  }
+
+  if (usage) chargeUsage(studentKey, usage);
+
+  return errorResponse({
+    error: "The quiz couldn't be read",
+    code: 'invalid_response',
+    retryable: true,
+  });
+}
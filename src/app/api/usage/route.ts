@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageBudget } from '@/lib/rate-limit';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Token usage for a day (`?day=YYYY-MM-DD`, default today in UTC), overall
+ * and by anonymous student id. Only available when `USAGE_REPORT_TOKEN` is
+ * set, and only to requests that send it as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  const token = process.env.USAGE_REPORT_TOKEN;
+
+  if (!token) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const day = request.nextUrl.searchParams.get('day') ?? undefined;
+  if (day !== undefined && !DAY_PATTERN.test(day)) {
+    return NextResponse.json(
+      { error: 'day must be written YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(await getUsageBudget().report(day));
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Upload } from 'lucide-react';
+import { cn, formatTimestamp } from '@/lib/utils';
+import {
+  describeBackup,
+  describeImportSummaryItem,
+  IMPORT_MODES,
+  ImportMode,
+  ImportSummaryItem,
+  parseBackup,
+  ParsedBackup,
+} from '@/lib/backup';
+
+interface BackupImportProps {
+  onImport: (backup: ParsedBackup, mode: ImportMode) => ImportSummaryItem[];
+}
+
+/**
+ * Reads a backup file, asks whether to add it to what is here or replace
+ * it, then reports what was imported
+ */
+export function BackupImport({ onImport }: BackupImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [summary, setSummary] = useState<ImportSummaryItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const headingId = useId();
+
+  const skippedCount = backup
+    ? Object.values(backup.skipped).reduce((sum, n) => sum + n, 0)
+    : 0;
+
+  const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again after cancelling
+    event.target.value = '';
+    if (!file) return;
+
+    setBackup(null);
+    setSummary(null);
+    setError(null);
+    setFileName(file.name);
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(e.target?.result as string);
+      } catch {
+        setError('This file could not be read. Please select a backup file.');
+        return;
+      }
+
+      const result = parseBackup(data);
+      if ('error' in result) {
+        setError(result.error);
+      } else {
+        setBackup(result.backup);
+        setMode('merge');
+      }
+    };
+    reader.onerror = () =>
+      setError('This file could not be read. Please select a backup file.');
+    reader.readAsText(file);
+  };
+
+  const handleImport = () => {
+    if (!backup) return;
+    setSummary(onImport(backup, mode));
+    setBackup(null);
+  };
+
+  return (
+    <div className='space-y-3'>
+      <label
+        className={cn(
+          'w-full flex items-center gap-3 p-3 rounded-lg border cursor-pointer',
+          'border-gray-200 dark:border-gray-700',
+          'hover:bg-gray-50 dark:hover:bg-gray-800',
+          'focus-within:ring-2 focus-within:ring-blue-500',
+          'transition-colors'
+        )}
+      >
+        <Upload size={16} className='text-green-500' />
+        <div className='text-left'>
+          <div className='font-medium'>Import Data</div>
+          <div className='text-sm text-gray-600 dark:text-gray-400'>
+            Restore from a backup file
+          </div>
+        </div>
+        <input
+          type='file'
+          accept='.json,application/json'
+          onChange={handleFileImport}
+          className='sr-only'
+        />
+      </label>
+
+      {backup && (
+        <div
+          role='group'
+          aria-labelledby={headingId}
+          className='p-3 space-y-3 rounded-lg border border-gray-200 dark:border-gray-700'
+        >
+          <div>
+            <h4 id={headingId} className='text-sm font-medium'>
+              Import {fileName}
+            </h4>
+            <p className='text-sm text-gray-600 dark:text-gray-400'>
+              {backup.exportedAt &&
+                !Number.isNaN(Date.parse(backup.exportedAt)) &&
+                `Made ${formatTimestamp(Date.parse(backup.exportedAt))}. `}
+              Contains {describeBackup(backup)}.
+            </p>
+            {skippedCount > 0 && (
+              <p className='text-sm text-amber-700 dark:text-amber-300'>
+                {skippedCount} {skippedCount === 1 ? 'item is' : 'items are'}{' '}
+                not valid and will be skipped.
+              </p>
+            )}
+          </div>
+
+          <fieldset className='space-y-2'>
+            <legend className='text-sm font-medium mb-1'>How to import</legend>
+            {(Object.keys(IMPORT_MODES) as ImportMode[]).map((value) => (
+              <label
+                key={value}
+                className={cn(
+                  'flex items-start gap-2 p-2 rounded-lg border cursor-pointer',
+                  mode === value
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                    : 'border-gray-200 dark:border-gray-700'
+                )}
+              >
+                <input
+                  type='radio'
+                  name='import-mode'
+                  value={value}
+                  checked={mode === value}
+                  onChange={() => setMode(value)}
+                  className='mt-1'
+                />
+                <span>
+                  <span className='block text-sm font-medium'>
+                    {IMPORT_MODES[value].label}
+                  </span>
+                  <span className='block text-xs text-gray-600 dark:text-gray-400'>
+                    {IMPORT_MODES[value].description}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          {mode === 'replace' && (
+            <p className='flex items-start gap-2 text-sm text-red-700 dark:text-red-300'>
+              <AlertTriangle size={16} className='mt-0.5 flex-shrink-0' />
+              Anything here that is not in the backup will be deleted. Export
+              your data first to keep a copy.
+            </p>
+          )}
+
+          <div className='flex gap-2'>
+            <button
+              onClick={handleImport}
+              className='flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              Import
+            </button>
+            <button
+              onClick={() => setBackup(null)}
+              className='flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div role='status'>
+        {summary && (
+          <div className='p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-800 dark:text-green-200'>
+            <div className='flex items-center gap-2 font-medium text-sm'>
+              <CheckCircle2 size={16} />
+              Imported {fileName}
+            </div>
+            <ul className='mt-2 space-y-1 text-sm'>
+              {summary.map((item) => (
+                <li key={item.item}>{describeImportSummaryItem(item)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div
+          role='alert'
+          className='p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg'
+        >
+          <div className='flex items-center gap-2 text-red-800 dark:text-red-200'>
+            <AlertTriangle size={16} />
+            <span className='text-sm'>{error}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
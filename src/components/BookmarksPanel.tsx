@@ -0,0 +1,399 @@
+'use client';
+
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { cn, downloadFile, truncateText } from '@/lib/utils';
+import {
+  BookmarkCheck,
+  Bookmark,
+  Download,
+  MessageSquare,
+  X,
+} from 'lucide-react';
+import { useChatContext } from '@/contexts/ChatContext';
+import { useBookmarks } from '@/hooks/useLocal';
+import {
+  BookmarkEntry,
+  bookmarksToMarkdown,
+  collectBookmarks,
+  filterBookmarks,
+  getAllTags,
+  parseTags,
+  setBookmarkNote,
+} from '@/lib/bookmarks';
+import { getSubject } from '@/lib/subjects';
+import { BookmarkNote } from '@/types';
+
+interface BookmarksPanelProps {
+  onClose: () => void;
+}
+
+const MAX_PREVIEW_LENGTH = 400;
+
+const fieldClass =
+  'w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Every bookmarked message across all chats, with notes and tags for
+ * building revision notes
+ */
+export function BookmarksPanel({ onClose }: BookmarksPanelProps) {
+  const { sessions, loadSession, toggleMessageBookmark } = useChatContext();
+  const [notes, setNotes] = useBookmarks();
+  const titleId = useId();
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [subject, setSubject] = useState('');
+  const [tag, setTag] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const entries = useMemo(
+    () => collectBookmarks(sessions, notes),
+    [sessions, notes]
+  );
+  const shown = useMemo(
+    () => filterBookmarks(entries, { query, subject, tag }),
+    [entries, query, subject, tag]
+  );
+  const subjects = useMemo(
+    () =>
+      Array.from(
+        new Set(entries.map((entry) => entry.session.subject).filter(Boolean))
+      ) as string[],
+    [entries]
+  );
+  const tags = useMemo(() => getAllTags(entries), [entries]);
+
+  const selectedShown = shown.filter((entry) =>
+    selectedIds.has(entry.message.id)
+  );
+  const allShownSelected =
+    shown.length > 0 && selectedShown.length === shown.length;
+
+  useEffect(() => {
+    searchRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toggleSelected = (messageId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllShown = () => {
+    setSelectedIds(
+      allShownSelected
+        ? new Set()
+        : new Set(shown.map((entry) => entry.message.id))
+    );
+  };
+
+  const handleExport = () => {
+    const toExport = selectedShown.length > 0 ? selectedShown : shown;
+    downloadFile(
+      bookmarksToMarkdown(toExport),
+      `studypal-revision-notes-${new Date().toISOString().split('T')[0]}.md`,
+      'text/markdown'
+    );
+  };
+
+  const handleOpen = (entry: BookmarkEntry) => {
+    loadSession(entry.session.id);
+    onClose();
+  };
+
+  const handleRemove = (entry: BookmarkEntry) => {
+    toggleMessageBookmark(entry.message.id);
+    setNotes((prev) =>
+      prev.filter((note) => note.messageId !== entry.message.id)
+    );
+  };
+
+  const saveNote = (
+    entry: BookmarkEntry,
+    changes: Partial<Pick<BookmarkNote, 'note' | 'tags'>>
+  ) => {
+    setNotes((prev) =>
+      setBookmarkNote(
+        prev,
+        { messageId: entry.message.id, sessionId: entry.session.id },
+        changes
+      )
+    );
+  };
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-2xl max-h-full flex flex-col rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700'>
+          <div className='flex items-center gap-2'>
+            <BookmarkCheck size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold'>
+              Bookmarks
+            </h2>
+            <span className='text-sm text-gray-600 dark:text-gray-400'>
+              {entries.length} saved
+            </span>
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close bookmarks'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className='p-4 space-y-3 border-b border-gray-200 dark:border-gray-700'>
+          <div>
+            <label htmlFor={`${titleId}-search`} className='sr-only'>
+              Search bookmarks
+            </label>
+            <input
+              ref={searchRef}
+              id={`${titleId}-search`}
+              type='search'
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder='Search messages, notes and tags'
+              className={fieldClass}
+            />
+          </div>
+          <div className='grid grid-cols-2 gap-2'>
+            <div>
+              <label
+                htmlFor={`${titleId}-subject`}
+                className='block text-xs font-medium mb-1'
+              >
+                Subject
+              </label>
+              <select
+                id={`${titleId}-subject`}
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                className={fieldClass}
+              >
+                <option value=''>All subjects</option>
+                {subjects.map((id) => (
+                  <option key={id} value={id}>
+                    {getSubject(id)?.name ?? id}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor={`${titleId}-tag`}
+                className='block text-xs font-medium mb-1'
+              >
+                Tag
+              </label>
+              <select
+                id={`${titleId}-tag`}
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                className={fieldClass}
+              >
+                <option value=''>All tags</option>
+                {tags.map((value) => (
+                  <option key={value} value={value}>
+                    #{value}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Bulk actions */}
+          <div className='flex items-center justify-between gap-2'>
+            <label className='flex items-center gap-2 text-sm'>
+              <input
+                type='checkbox'
+                checked={allShownSelected}
+                onChange={toggleAllShown}
+                disabled={shown.length === 0}
+              />
+              Select all {shown.length} shown
+            </label>
+            <button
+              type='button'
+              onClick={handleExport}
+              disabled={shown.length === 0}
+              className={cn(
+                'flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm',
+                'bg-blue-500 text-white hover:bg-blue-600',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+              )}
+            >
+              <Download size={14} aria-hidden='true' />
+              {selectedShown.length > 0
+                ? `Export ${selectedShown.length} selected`
+                : 'Export all shown'}
+            </button>
+          </div>
+        </div>
+
+        {/* Bookmark list */}
+        <div className='flex-1 overflow-y-auto p-4'>
+          <p className='sr-only' role='status' aria-live='polite'>
+            {shown.length} {shown.length === 1 ? 'bookmark' : 'bookmarks'} shown
+          </p>
+
+          {shown.length === 0 ? (
+            <div className='py-8 text-center text-sm text-gray-600 dark:text-gray-400'>
+              <Bookmark
+                size={32}
+                className='mx-auto mb-2 opacity-50'
+                aria-hidden='true'
+              />
+              {entries.length === 0
+                ? 'No bookmarks yet. Bookmark a tutor reply to keep it here.'
+                : 'No bookmarks match your search.'}
+            </div>
+          ) : (
+            <ul className='space-y-3'>
+              {shown.map((entry) => (
+                <BookmarkItem
+                  key={entry.message.id}
+                  entry={entry}
+                  isSelected={selectedIds.has(entry.message.id)}
+                  onToggleSelected={() => toggleSelected(entry.message.id)}
+                  onOpen={() => handleOpen(entry)}
+                  onRemove={() => handleRemove(entry)}
+                  onSave={(changes) => saveNote(entry, changes)}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BookmarkItem({
+  entry,
+  isSelected,
+  onToggleSelected,
+  onOpen,
+  onRemove,
+  onSave,
+}: {
+  entry: BookmarkEntry;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+  onOpen: () => void;
+  onRemove: () => void;
+  onSave: (changes: Partial<Pick<BookmarkNote, 'note' | 'tags'>>) => void;
+}) {
+  const id = useId();
+  const [note, setNote] = useState(entry.note);
+  const [tagInput, setTagInput] = useState(entry.tags.join(', '));
+  const subject = getSubject(entry.session.subject);
+  const title = entry.session.title || 'Untitled chat';
+
+  return (
+    <li className='p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2'>
+      <div className='flex items-start gap-2'>
+        <input
+          type='checkbox'
+          checked={isSelected}
+          onChange={onToggleSelected}
+          className='mt-1'
+          aria-label={`Select bookmark from ${title}`}
+        />
+        <div className='flex-1 min-w-0'>
+          <div className='flex flex-wrap items-center gap-x-2 text-xs text-gray-600 dark:text-gray-400'>
+            {subject && (
+              <span>
+                <span aria-hidden='true'>{subject.icon}</span> {subject.name}
+              </span>
+            )}
+            <time dateTime={new Date(entry.message.timestamp).toISOString()}>
+              {new Date(entry.message.timestamp).toLocaleDateString()}
+            </time>
+          </div>
+          <button
+            type='button'
+            onClick={onOpen}
+            className='flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded'
+          >
+            <MessageSquare size={14} aria-hidden='true' />
+            <span className='truncate'>{title}</span>
+          </button>
+        </div>
+        <button
+          type='button'
+          onClick={onRemove}
+          className='p-1 rounded text-yellow-500 hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+          aria-label={`Remove bookmark from ${title}`}
+          title='Remove bookmark'
+        >
+          <BookmarkCheck size={16} />
+        </button>
+      </div>
+
+      <p className='text-sm whitespace-pre-wrap'>
+        {truncateText(entry.message.content, MAX_PREVIEW_LENGTH)}
+      </p>
+
+      <div>
+        <label htmlFor={`${id}-note`} className='block text-xs font-medium'>
+          My note
+        </label>
+        <textarea
+          id={`${id}-note`}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={() => note !== entry.note && onSave({ note })}
+          rows={2}
+          placeholder='What do you want to remember about this?'
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <label htmlFor={`${id}-tags`} className='block text-xs font-medium'>
+          Tags (separated by commas)
+        </label>
+        <input
+          id={`${id}-tags`}
+          type='text'
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onBlur={() => {
+            const tags = parseTags(tagInput);
+            setTagInput(tags.join(', '));
+            if (tags.join(',') !== entry.tags.join(',')) onSave({ tags });
+          }}
+          placeholder='e.g. exam, fractions'
+          className={fieldClass}
+        />
+      </div>
+    </li>
+  );
+}
@@ -4,14 +4,20 @@ import { PlusIcon, SettingsIcon } from 'lucide-react';
 import ChatSidebar from './ChatSidebar';
 import ChatBox from './ChatBox';
 import { PreferencesProvider } from '@/contexts/PreferencesContext';
+import { FlashcardsProvider } from '@/contexts/FlashcardsContext';
+import { ChatProvider } from '@/contexts/ChatContext';
 
 export default function Chat() {
   return (
     <PreferencesProvider>
-      <article className='flex h-full overflow-hidden'>
-        <ChatSidebar />
-        <ChatBox />
-      </article>
+      <ChatProvider>
+        <FlashcardsProvider>
+          <article className='flex h-full overflow-hidden'>
+            <ChatSidebar />
+            <ChatBox />
+          </article>
+        </FlashcardsProvider>
+      </ChatProvider>
     </PreferencesProvider>
   );
 }
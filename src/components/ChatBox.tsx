@@ -5,18 +5,36 @@ import {
   MessageSquareIcon,
   MicIcon,
   MicOffIcon,
+  PencilIcon,
+  PlusIcon,
+  RotateCcwIcon,
   SendIcon,
+  SquareIcon,
 } from 'lucide-react';
 import { MessageBubble } from './MessageBubble';
+import { SessionHeader } from './SessionHeader';
+import { QuizPanel } from './QuizPanel';
+import { StudyNotesPanel } from './StudyNotesPanel';
+import { FlashcardEditor, FlashcardDraft } from './FlashcardEditor';
 import { useCallback, useEffect, useRef, useState, memo } from 'react';
 import { cn } from '@/lib/utils';
 import { Button } from './ui/button';
 import { useProgressStats } from '@/hooks/useLocal';
-import { useChat } from '@/hooks/useChat';
+import { useChatContext } from '@/contexts/ChatContext';
+import { useQuiz } from '@/hooks/useQuiz';
+import { useStudyNotes } from '@/hooks/useStudyNotes';
 import { useSpeechToText, useTextToSpeech } from '@/hooks/useSpeech';
 import { usePreferences } from '@/contexts/PreferencesContext';
-import { Message } from '@/types';
+import {
+  ChatErrorCode,
+  DifficultyLevel,
+  Message,
+  MessageVariantKind,
+} from '@/types';
+import { CHAT_ERROR_INFO } from '@/lib/errors';
+import { draftFromMessage } from '@/lib/flashcards';
 import { showToast } from './ToastInitializer';
+import { onStorageError } from '@/lib/storage';
 
 const subjects = [
   { id: 'math', name: 'Mathematics', icon: '🔢' },
@@ -104,29 +122,89 @@ const WelcomeScreen = memo(
 );
 WelcomeScreen.displayName = 'WelcomeScreen';
 
-// Error display component - memoized to prevent rerendering
-const ErrorDisplay = memo(({ error }: { error: string }) => (
-  <div className='p-4 my-4 bg-red-50 dark:bg-red-900/20 border-l-4 border-red-500 dark:border-red-700 rounded-r-lg text-red-700 dark:text-red-400 flex items-start'>
-    <div className='mr-3 flex-shrink-0 mt-0.5'>
-      <svg
-        xmlns='http://www.w3.org/2000/svg'
-        className='h-5 w-5'
-        viewBox='0 0 20 20'
-        fill='currentColor'
-      >
-        <path
-          fillRule='evenodd'
-          d='M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z'
-          clipRule='evenodd'
-        />
-      </svg>
-    </div>
-    <div className='flex-1'>
-      <p className='font-medium'>Error</p>
-      <p className='text-sm mt-1'>{error}</p>
-    </div>
-  </div>
-));
+// Error display component - memoized to prevent rerendering.
+// Only the explanation is a live region, so the retry countdown on the
+// button isn't read out every second.
+const ErrorDisplay = memo(
+  ({
+    error,
+    code,
+    retryIn,
+    onRetry,
+    onRephrase,
+    onNewChat,
+  }: {
+    error: string;
+    code: ChatErrorCode | null;
+    /** Seconds until sending is allowed again */
+    retryIn: number;
+    onRetry: () => void;
+    onRephrase: () => void;
+    onNewChat: () => void;
+  }) => {
+    const info = code ? CHAT_ERROR_INFO[code] : null;
+    const actionClassName =
+      'mt-3 inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-600 dark:disabled:bg-gray-700 dark:disabled:text-gray-400 disabled:cursor-not-allowed';
+
+    return (
+      <div className='p-4 my-4 bg-red-50 dark:bg-red-900/20 border-l-4 border-red-500 dark:border-red-700 rounded-r-lg text-red-700 dark:text-red-400 flex items-start'>
+        <div className='mr-3 flex-shrink-0 mt-0.5'>
+          <svg
+            xmlns='http://www.w3.org/2000/svg'
+            className='h-5 w-5'
+            viewBox='0 0 20 20'
+            fill='currentColor'
+            aria-hidden='true'
+          >
+            <path
+              fillRule='evenodd'
+              d='M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z'
+              clipRule='evenodd'
+            />
+          </svg>
+        </div>
+        <div className='flex-1'>
+          <div role='alert'>
+            <p className='font-medium'>{info?.title ?? 'Error'}</p>
+            <p className='text-sm mt-1'>{error}</p>
+          </div>
+
+          {info?.action === 'retry' && (
+            <button
+              type='button'
+              onClick={onRetry}
+              disabled={retryIn > 0}
+              className={actionClassName}
+            >
+              <RotateCcwIcon size={14} aria-hidden='true' />
+              {retryIn > 0 ? `Try again in ${retryIn}s` : 'Try again'}
+            </button>
+          )}
+          {info?.action === 'rephrase' && (
+            <button
+              type='button'
+              onClick={onRephrase}
+              className={actionClassName}
+            >
+              <PencilIcon size={14} aria-hidden='true' />
+              Edit my question
+            </button>
+          )}
+          {info?.action === 'new_chat' && (
+            <button
+              type='button'
+              onClick={onNewChat}
+              className={actionClassName}
+            >
+              <PlusIcon size={14} aria-hidden='true' />
+              Start a new chat
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
 ErrorDisplay.displayName = 'ErrorDisplay';
 
 // Message List component - memoized to prevent full rerendering
@@ -135,12 +213,29 @@ const MessageList = memo(
     messages,
     onBookmark,
     onSpeak,
+    onMakeFlashcard,
+    onRequestVariant,
+    onSelectVariant,
+    variantRequest,
+    difficulty,
     isSpeaking,
+    focusedMessageId,
   }: {
     messages: Message[];
     onBookmark: (messageId: string) => void;
     onSpeak: (text: string) => void;
+    onMakeFlashcard: (message: Message, selection?: string) => void;
+    onRequestVariant: (messageId: string, kind: MessageVariantKind) => void;
+    onSelectVariant: (messageId: string, variantId?: string) => void;
+    variantRequest: {
+      messageId: string;
+      kind: MessageVariantKind;
+      automatic?: boolean;
+      error?: string;
+    } | null;
+    difficulty?: DifficultyLevel;
     isSpeaking: boolean;
+    focusedMessageId: string | null;
   }) => (
     <>
       {messages.map((message) => (
@@ -149,7 +244,17 @@ const MessageList = memo(
           message={message}
           onBookmark={onBookmark}
           onSpeak={onSpeak}
+          onMakeFlashcard={onMakeFlashcard}
+          onRequestVariant={onRequestVariant}
+          onSelectVariant={onSelectVariant}
+          variantRequest={
+            variantRequest?.messageId === message.id
+              ? variantRequest
+              : undefined
+          }
+          difficulty={difficulty}
           isSpeaking={isSpeaking}
+          isFocused={message.id === focusedMessageId}
         />
       ))}
     </>
@@ -166,17 +271,104 @@ export default function ChatBox() {
   const [errorToast, setErrorToast] = useState<string | null>(null);
 
   // Hooks
-  const { preferences } = usePreferences();
+  const { preferences, isLoaded: preferencesLoaded } = usePreferences();
   const [progressStats] = useProgressStats();
 
   const {
+    hasLoadedSessions,
     currentSession,
     isLoading,
+    isStreaming,
     error,
+    errorCode,
     createNewSession,
     sendMessage,
+    retryLastMessage,
+    stopGenerating,
     toggleMessageBookmark,
-  } = useChat();
+    updateSessionSettings,
+    updateSessionTutoringMode,
+    saveStudyNotes,
+    rateLimitSeconds,
+    recordUsage,
+    recordQuizResult,
+    variantRequest,
+    requestVariant,
+    selectVariant,
+    focusedMessageId,
+  } = useChatContext();
+
+  const {
+    quiz,
+    isGenerating: isQuizGenerating,
+    errorCode: quizErrorCode,
+    startQuiz,
+    closeQuiz,
+  } = useQuiz({ onUsage: recordUsage });
+  const [isQuizOpen, setIsQuizOpen] = useState(false);
+
+  const handleStartQuiz = useCallback(() => {
+    if (!currentSession) return;
+    setIsQuizOpen(true);
+    startQuiz(currentSession);
+  }, [currentSession, startQuiz]);
+
+  const handleCloseQuiz = useCallback(() => {
+    setIsQuizOpen(false);
+    closeQuiz();
+    inputRef.current?.focus();
+  }, [closeQuiz]);
+
+  const {
+    isGenerating: isNotesGenerating,
+    errorCode: notesErrorCode,
+    summarize,
+    cancel: cancelNotes,
+  } = useStudyNotes({ onNotes: saveStudyNotes, onUsage: recordUsage });
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+
+  // Open the session's notes, writing them first if there are none yet
+  const handleOpenNotes = useCallback(() => {
+    if (!currentSession) return;
+    setIsNotesOpen(true);
+    if (!currentSession.studyNotes) summarize(currentSession);
+  }, [currentSession, summarize]);
+
+  const handleSummarize = useCallback(() => {
+    if (currentSession) summarize(currentSession);
+  }, [currentSession, summarize]);
+
+  const handleCloseNotes = useCallback(() => {
+    setIsNotesOpen(false);
+    cancelNotes();
+    inputRef.current?.focus();
+  }, [cancelNotes]);
+
+  const [flashcardDraft, setFlashcardDraft] = useState<FlashcardDraft | null>(
+    null
+  );
+
+  // Read from a ref so the handler stays the same while replies stream in,
+  // like useChat's requestVariant
+  const currentSessionRef = useRef(currentSession);
+  useEffect(() => {
+    currentSessionRef.current = currentSession;
+  }, [currentSession]);
+
+  const handleMakeFlashcard = useCallback(
+    (message: Message, selection?: string) => {
+      const session = currentSessionRef.current;
+      if (!session) return;
+      setFlashcardDraft({
+        ...draftFromMessage(message, session.messages, selection),
+        source: { sessionId: session.id, messageId: message.id },
+        subject: session.subject,
+      });
+    },
+    []
+  );
+
+  const isRateLimited = rateLimitSeconds > 0;
 
   const { speak, stop: stopSpeaking, isSpeaking } = useTextToSpeech();
 
@@ -232,7 +424,7 @@ export default function ChatBox() {
         | React.KeyboardEvent<HTMLTextAreaElement>
     ) => {
       e.preventDefault();
-      if (!input.trim() || isLoading) return;
+      if (!input.trim() || isLoading || isRateLimited) return;
 
       try {
         sendMessage(
@@ -250,23 +442,73 @@ export default function ChatBox() {
     [
       input,
       isLoading,
+      isRateLimited,
       sendMessage,
       preferences.defaultSubject,
       preferences.defaultDifficulty,
     ]
   );
 
+  // Put the last question back in the input so it can be reworded
+  const handleRephrase = useCallback(() => {
+    const lastQuestion = [...(currentSession?.messages ?? [])]
+      .reverse()
+      .find((m) => m.role === 'user');
+
+    if (lastQuestion) {
+      setInput(lastQuestion.content);
+    }
+    inputRef.current?.focus();
+  }, [currentSession]);
+
+  const handleNewChat = useCallback(() => {
+    createNewSession(preferences.defaultSubject, preferences.defaultDifficulty);
+    inputRef.current?.focus();
+  }, [
+    createNewSession,
+    preferences.defaultSubject,
+    preferences.defaultDifficulty,
+  ]);
+
   // Optimized effects with dependencies
 
   // Scroll to bottom when messages change - using requestAnimationFrame for better performance
   useEffect(() => {
+    // A message picked in search is shown instead
+    if (focusedMessageId) return;
     if (messagesEndRef.current && currentSession?.messages?.length) {
       // Use requestAnimationFrame to ensure smooth scrolling after DOM updates
       requestAnimationFrame(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
       });
     }
-  }, [currentSession?.messages?.length]); // Only depend on the length for better performance
+  }, [currentSession?.messages?.length, focusedMessageId]); // Only depend on the length for better performance
+
+  // Bring a message picked in search into view and move focus to it, so
+  // screen readers read it next
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    requestAnimationFrame(() => {
+      const element = document.getElementById(`message-${focusedMessageId}`);
+      element?.scrollIntoView({
+        block: 'center',
+        behavior: preferences.reducedMotion ? 'auto' : 'smooth',
+      });
+      element?.focus({ preventScroll: true });
+    });
+  }, [focusedMessageId, currentSession?.id, preferences.reducedMotion]);
+
+  // Keep the growing reply in view while it streams in
+  const lastMessageContent =
+    currentSession?.messages?.[currentSession.messages.length - 1]?.content;
+
+  useEffect(() => {
+    if (isStreaming && messagesEndRef.current) {
+      requestAnimationFrame(() => {
+        messagesEndRef.current?.scrollIntoView({ block: 'end' });
+      });
+    }
+  }, [isStreaming, lastMessageContent]);
 
   // Apply font size from preferences - only when needed
   useEffect(() => {
@@ -316,15 +558,32 @@ export default function ChatBox() {
     }
   }, [speechError]);
 
-  // Create a new session if none exists - run only once
+  // Say so when changes can't be saved, instead of losing them quietly
+  useEffect(
+    () =>
+      onStorageError(({ kind }) => {
+        showToast(
+          kind === 'quota'
+            ? 'Your browser is out of storage space, so recent changes were not saved. Nothing has been deleted. Export your data from Settings to keep a copy.'
+            : 'Recent changes could not be saved. They will be saved again with your next change.',
+          { type: 'error', duration: 10000 }
+        );
+      }),
+    []
+  );
+
+  // Create a new session if none exists, once saved sessions and
+  // preferences have loaded
   useEffect(() => {
-    if (!currentSession) {
+    if (hasLoadedSessions && preferencesLoaded && !currentSession) {
       createNewSession(
         preferences.defaultSubject,
         preferences.defaultDifficulty
       );
     }
   }, [
+    hasLoadedSessions,
+    preferencesLoaded,
     currentSession,
     createNewSession,
     preferences.defaultSubject,
@@ -341,6 +600,54 @@ export default function ChatBox() {
         </div>
       )}
 
+      {/* Session title and answer settings */}
+      {currentSession && (
+        <SessionHeader
+          session={currentSession}
+          onSettingsChange={(settings) =>
+            updateSessionSettings(currentSession.id, settings)
+          }
+          onTutoringModeChange={(mode) =>
+            updateSessionTutoringMode(currentSession.id, mode)
+          }
+          onQuiz={isLoading ? undefined : handleStartQuiz}
+          onSummarize={isLoading ? undefined : handleOpenNotes}
+        />
+      )}
+
+      {isNotesOpen && currentSession && (
+        <StudyNotesPanel
+          session={currentSession}
+          isGenerating={isNotesGenerating}
+          errorCode={notesErrorCode}
+          onRegenerate={handleSummarize}
+          onClose={handleCloseNotes}
+        />
+      )}
+
+      {isQuizOpen && (
+        <QuizPanel
+          quiz={quiz}
+          isGenerating={isQuizGenerating}
+          errorCode={quizErrorCode}
+          subject={currentSession?.subject}
+          onRetry={handleStartQuiz}
+          onClose={handleCloseQuiz}
+          onComplete={recordQuizResult}
+        />
+      )}
+
+      {flashcardDraft && (
+        <FlashcardEditor
+          draft={flashcardDraft}
+          onSave={() => {
+            setFlashcardDraft(null);
+            showToast('Flashcard saved', { type: 'success' });
+          }}
+          onClose={() => setFlashcardDraft(null)}
+        />
+      )}
+
       {/* Chat Messages Area */}
       <div className='flex-1 overflow-y-auto px-4 py-2'>
         <div className='max-w-3xl mx-auto h-full flex flex-col'>
@@ -351,12 +658,27 @@ export default function ChatBox() {
                 messages={currentSession.messages}
                 onBookmark={toggleMessageBookmark}
                 onSpeak={handleMessageSpeak}
+                onMakeFlashcard={handleMakeFlashcard}
+                onRequestVariant={requestVariant}
+                onSelectVariant={selectVariant}
+                variantRequest={variantRequest}
+                difficulty={currentSession.difficulty}
                 isSpeaking={isSpeaking}
+                focusedMessageId={focusedMessageId}
               />
 
-              {isLoading && <LoadingIndicator />}
-
-              {error && <ErrorDisplay error={error} />}
+              {isLoading && !isStreaming && <LoadingIndicator />}
+
+              {error && !isLoading && (
+                <ErrorDisplay
+                  error={error}
+                  code={errorCode}
+                  retryIn={rateLimitSeconds}
+                  onRetry={retryLastMessage}
+                  onRephrase={handleRephrase}
+                  onNewChat={handleNewChat}
+                />
+              )}
             </>
           ) : (
             // Welcome content - use memoized component
@@ -440,22 +762,52 @@ export default function ChatBox() {
                 </button>
               )}
             </div>
-            <button
-              type='submit'
-              disabled={!input.trim() || isLoading}
-              className={cn(
-                'px-4 py-3 rounded-lg transition-colors bg-blue-500 text-white hover:bg-blue-600',
-                'focus:outline-none focus:ring-2 focus:ring-blue-500',
-                (!input.trim() || isLoading) &&
-                  'bg-gray-200 dark:bg-gray-700 text-gray-400 cursor-not-allowed hover:bg-gray-200 dark:hover:bg-gray-700'
-              )}
-              aria-label='Send message'
-            >
-              <SendIcon size={16} />
-            </button>
+            {isLoading ? (
+              <button
+                type='button'
+                onClick={stopGenerating}
+                className={cn(
+                  'px-4 py-3 rounded-lg transition-colors bg-red-500 text-white hover:bg-red-600',
+                  'focus:outline-none focus:ring-2 focus:ring-red-500'
+                )}
+                aria-label='Stop generating response'
+                title='Stop generating'
+              >
+                <SquareIcon size={16} />
+              </button>
+            ) : (
+              <button
+                type='submit'
+                disabled={!input.trim() || isRateLimited}
+                className={cn(
+                  'px-4 py-3 rounded-lg transition-colors bg-blue-500 text-white hover:bg-blue-600',
+                  'focus:outline-none focus:ring-2 focus:ring-blue-500',
+                  (!input.trim() || isRateLimited) &&
+                    'bg-gray-200 dark:bg-gray-700 text-gray-400 cursor-not-allowed hover:bg-gray-200 dark:hover:bg-gray-700'
+                )}
+                aria-label='Send message'
+              >
+                <SendIcon size={16} />
+              </button>
+            )}
           </form>
         </div>
 
+        {/* Rate limit countdown - the number is hidden from screen readers
+            so they announce the wait once rather than every second */}
+        {isRateLimited && (
+          <div className='mt-2 text-sm text-amber-600 dark:text-amber-400'>
+            <span aria-hidden='true'>
+              ⏳ You&apos;re sending messages quickly. You can send another in{' '}
+              {rateLimitSeconds}s.
+            </span>
+            <span role='status' className='sr-only'>
+              You&apos;re sending messages quickly. The send button will work
+              again in a moment.
+            </span>
+          </div>
+        )}
+
         {/* Speech Recognition Status - only show when active */}
         {isListening && (
           <div className='mt-2 text-sm text-blue-600 dark:text-blue-400'>
@@ -1,35 +1,72 @@
 'use client';
-import { cn, formatTimestamp, truncateText } from '@/lib/utils';
+import { cn, downloadFile } from '@/lib/utils';
 import {
   PlusIcon,
   SettingsIcon,
-  MessageSquareIcon,
-  TrashIcon,
   Menu,
   X,
-  Pencil,
+  Layers,
+  BookmarkCheck,
+  BookA,
+  FileDown,
+  Search,
 } from 'lucide-react';
-import { useProgressStats } from '@/hooks/useLocal';
-import { useChat } from '@/hooks/useChat';
+import {
+  DEFAULT_PREFERENCES,
+  useBookmarks,
+  useFlashcardCollection,
+  useProgressStats,
+} from '@/hooks/useLocal';
+import {
+  BackupData,
+  createBackup,
+  ImportMode,
+  importBackup,
+  ParsedBackup,
+} from '@/lib/backup';
+import { useChatContext } from '@/contexts/ChatContext';
 import { useState, useEffect, useRef } from 'react';
 import { AccessibilityControls } from './AccessibilityControls';
 import { DifficultyLevel } from '@/types';
 import { ProgressTracker } from './ProgressTracker';
 import { SettingsPanel } from './SettingsPanel';
+import { FlashcardReview } from './FlashcardReview';
+import { BookmarksPanel } from './BookmarksPanel';
+import { StudyNotesPanel } from './StudyNotesPanel';
+import { GlossaryPanel } from './GlossaryPanel';
+import { SessionExportPanel } from './SessionExportPanel';
+import { SearchPanel } from './SearchPanel';
+import { SessionList } from './SessionList';
+import { OrganizeSessionsDialog } from './OrganizeSessionsDialog';
 import { usePreferences } from '@/contexts/PreferencesContext';
+import { useFlashcards } from '@/contexts/FlashcardsContext';
 
 export default function ChatSidebar() {
   const { preferences, setPreferences } = usePreferences();
   const [showSettings, setShowSettings] = useState(false);
+  const [showFlashcards, setShowFlashcards] = useState(false);
+  const [showBookmarks, setShowBookmarks] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [notesSessionId, setNotesSessionId] = useState<string | null>(null);
+  // Chats ticked in the export panel, which is open while this is set
+  const [exportSessionIds, setExportSessionIds] = useState<string[] | null>(
+    null
+  );
+  // Chats being filed in the organize dialog, which is open while this is set
+  const [organizeSessionIds, setOrganizeSessionIds] = useState<string[] | null>(
+    null
+  );
+  const { dueCards } = useFlashcards();
   const [showChatHistory, setShowChatHistory] = useState(false);
-  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
-  const [sessionTitle, setSessionTitle] = useState('');
   const chatHistoryRef = useRef<HTMLDivElement>(null);
   const [input, setInput] = useState('');
   const [selectedSubject, setSelectedSubject] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] =
     useState<DifficultyLevel>('beginner');
   const [progressStats, setProgressStats] = useProgressStats();
+  const [bookmarks, setBookmarks] = useBookmarks();
+  const [flashcards, setFlashcards] = useFlashcardCollection();
 
   const subjects = [
     { id: 'math', name: 'Mathematics', icon: '🔢' },
@@ -48,58 +85,65 @@ export default function ChatSidebar() {
     createNewSession,
     loadSession,
     clearAllSessions,
+    restoreSessions,
     setError,
-    deleteSession,
+    deleteSessions,
     updateSessionTitle,
-  } = useChat();
+    updateSessionOrganization,
+  } = useChatContext();
+  const notesSession = sessions?.find(
+    (session) => session.id === notesSessionId
+  );
+
+  const currentData = (): BackupData => ({
+    sessions,
+    bookmarks,
+    preferences,
+    progress: progressStats,
+    flashcards,
+  });
 
   const handleExportData = () => {
-    const data = {
-      sessions,
-      preferences,
-      progressStats,
-      exportDate: new Date().toISOString(),
-    };
+    downloadFile(
+      createBackup(currentData()),
+      `studypal-backup-${new Date().toISOString().split('T')[0]}.json`,
+      'application/json'
+    );
+  };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], {
-      type: 'application/json',
-    });
+  const handleImportData = (backup: ParsedBackup, mode: ImportMode) => {
+    const { data, summary } = importBackup(currentData(), backup, mode);
 
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `studypal-backup-${
-      new Date().toISOString().split('T')[0]
-    }.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
+    restoreSessions(data.sessions);
+    setBookmarks(data.bookmarks);
+    setFlashcards(data.flashcards);
+    // Settings the backup doesn't have go back to their defaults
+    setPreferences({ ...DEFAULT_PREFERENCES, ...data.preferences });
+    setProgressStats(data.progress);
 
-  const handleImportData = (data: {
-    sessions?: unknown[];
-    preferences?: unknown;
-    progressStats?: unknown;
-    exportDate?: string;
-  }) => {
-    try {
-      if (data.preferences)
-        setPreferences(data.preferences as typeof preferences);
-      if (data.progressStats)
-        setProgressStats(data.progressStats as typeof progressStats);
-      // Note: Sessions would need to be handled by the chat hook
-    } catch (error) {
-      console.error('Import error:', error);
-    }
+    return summary;
   };
 
+  // Ctrl+K (Cmd+K on a Mac) opens search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setShowSearch(true);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // Handle click outside to close chat history drawer
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
       if (
         chatHistoryRef.current &&
         !chatHistoryRef.current.contains(event.target as Node) &&
+        // Dialogs opened from the drawer keep it open behind them
+        !(event.target as Element).closest?.('[role="dialog"]') &&
         showChatHistory
       ) {
         setShowChatHistory(false);
@@ -112,23 +156,6 @@ export default function ChatSidebar() {
     };
   }, [showChatHistory]);
 
-  // Handle session title edit
-  const startEditingSession = (
-    id: string,
-    title: string,
-    e: React.MouseEvent
-  ) => {
-    e.stopPropagation();
-    setEditingSessionId(id);
-    setSessionTitle(title);
-  };
-
-  const saveSessionTitle = (id: string, e: React.FormEvent) => {
-    e.preventDefault();
-    updateSessionTitle(id, sessionTitle);
-    setEditingSessionId(null);
-  };
-
   return (
     <section
       className={cn(
@@ -147,97 +174,45 @@ export default function ChatSidebar() {
       >
         <div className='flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700'>
           <h2 className='font-bold text-lg'>Chat History</h2>
-          <button
-            onClick={() => setShowChatHistory(false)}
-            className='p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700'
-            aria-label='Close chat history'
-          >
-            <X size={20} />
-          </button>
+          <div className='flex items-center'>
+            {sessions && sessions.length > 0 && (
+              <button
+                onClick={() =>
+                  setExportSessionIds(sessions.map((session) => session.id))
+                }
+                className='p-2 mr-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700'
+                aria-label='Export chats'
+                title='Export chats'
+              >
+                <FileDown size={20} />
+              </button>
+            )}
+            <button
+              onClick={() => setShowChatHistory(false)}
+              className='p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700'
+              aria-label='Close chat history'
+            >
+              <X size={20} />
+            </button>
+          </div>
         </div>
 
         <div className='overflow-y-auto p-3 h-full pb-20'>
           {sessions && sessions.length > 0 ? (
-            <div className='space-y-1'>
-              {sessions.map((session) => (
-                <div
-                  key={session.id}
-                  onClick={() => {
-                    loadSession(session.id);
-                    setShowChatHistory(false);
-                  }}
-                  className={cn(
-                    'w-full flex items-start gap-3 p-3 rounded-lg text-left transition-colors cursor-pointer group',
-                    session.id === currentSessionId
-                      ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
-                      : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                  )}
-                >
-                  <MessageSquareIcon
-                    size={18}
-                    className={
-                      session.id === currentSessionId
-                        ? 'text-blue-600 dark:text-blue-400'
-                        : 'text-gray-500 dark:text-gray-400'
-                    }
-                  />
-
-                  {editingSessionId === session.id ? (
-                    <form
-                      onSubmit={(e) => saveSessionTitle(session.id, e)}
-                      className='flex-1 min-w-0'
-                      onClick={(e) => e.stopPropagation()}
-                    >
-                      <input
-                        type='text'
-                        value={sessionTitle}
-                        onChange={(e) => setSessionTitle(e.target.value)}
-                        className='w-full p-1 text-sm border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700'
-                        autoFocus
-                        onBlur={() => setEditingSessionId(null)}
-                      />
-                    </form>
-                  ) : (
-                    <div className='flex-1 min-w-0'>
-                      <h3 className='font-medium truncate'>
-                        {truncateText(session.title, 30)}
-                      </h3>
-                      <p className='text-xs text-gray-500 dark:text-gray-400'>
-                        {formatTimestamp(session.updatedAt)}
-                      </p>
-                    </div>
-                  )}
-
-                  <div className='flex items-center'>
-                    <button
-                      onClick={(e) =>
-                        startEditingSession(session.id, session.title, e)
-                      }
-                      className='p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-opacity mr-1'
-                      aria-label='Edit chat name'
-                    >
-                      <Pencil
-                        size={14}
-                        className='text-gray-500 dark:text-gray-400'
-                      />
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteSession(session.id);
-                      }}
-                      className='p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-opacity'
-                      aria-label='Delete chat'
-                    >
-                      <TrashIcon
-                        size={14}
-                        className='text-gray-500 dark:text-gray-400'
-                      />
-                    </button>
-                  </div>
-                </div>
-              ))}
-            </div>
+            <SessionList
+              sessions={sessions}
+              currentSessionId={currentSessionId}
+              onOpen={(sessionId) => {
+                loadSession(sessionId);
+                setShowChatHistory(false);
+              }}
+              onRename={updateSessionTitle}
+              onDelete={deleteSessions}
+              onUpdate={updateSessionOrganization}
+              onOrganize={setOrganizeSessionIds}
+              onExport={setExportSessionIds}
+              onOpenNotes={setNotesSessionId}
+            />
           ) : (
             <div className='p-4 text-center text-gray-500 dark:text-gray-400'>
               No chat history yet
@@ -280,13 +255,56 @@ export default function ChatSidebar() {
                 <PlusIcon size={20} />
               </button>
             </div>
-            <button
-              onClick={() => setShowSettings(true)}
-              className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
-              aria-label='Open settings'
-            >
-              <SettingsIcon size={20} />
-            </button>
+            <div className='flex items-center'>
+              <button
+                onClick={() => setShowSearch(true)}
+                className='p-2 mr-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                aria-label='Search chats'
+                aria-keyshortcuts='Control+K Meta+K'
+                title='Search chats (Ctrl+K)'
+              >
+                <Search size={20} />
+              </button>
+              <button
+                onClick={() => setShowBookmarks(true)}
+                className='p-2 mr-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                aria-label='Open bookmarks'
+                title='Bookmarks'
+              >
+                <BookmarkCheck size={20} />
+              </button>
+              <button
+                onClick={() => setShowGlossary(true)}
+                className='p-2 mr-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                aria-label='Open glossary'
+                title='Glossary'
+              >
+                <BookA size={20} />
+              </button>
+              <button
+                onClick={() => setShowFlashcards(true)}
+                className='relative p-2 mr-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                aria-label={`Review flashcards, ${dueCards.length} due`}
+                title='Review flashcards'
+              >
+                <Layers size={20} />
+                {dueCards.length > 0 && (
+                  <span
+                    className='absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-blue-500 text-white text-xs leading-5 text-center'
+                    aria-hidden='true'
+                  >
+                    {dueCards.length > 99 ? '99+' : dueCards.length}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setShowSettings(true)}
+                className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                aria-label='Open settings'
+              >
+                <SettingsIcon size={20} />
+              </button>
+            </div>
           </div>
 
           {currentSession && (
@@ -308,6 +326,44 @@ export default function ChatSidebar() {
           <AccessibilityControls />
         </div>
 
+        {notesSession && (
+          <StudyNotesPanel
+            session={notesSession}
+            onClose={() => setNotesSessionId(null)}
+          />
+        )}
+
+        {exportSessionIds && sessions && (
+          <SessionExportPanel
+            sessions={sessions}
+            selectedIds={exportSessionIds}
+            onClose={() => setExportSessionIds(null)}
+          />
+        )}
+
+        {organizeSessionIds && sessions && (
+          <OrganizeSessionsDialog
+            sessions={sessions}
+            sessionIds={organizeSessionIds}
+            onSave={updateSessionOrganization}
+            onClose={() => setOrganizeSessionIds(null)}
+          />
+        )}
+
+        {showSearch && <SearchPanel onClose={() => setShowSearch(false)} />}
+
+        {showBookmarks && (
+          <BookmarksPanel onClose={() => setShowBookmarks(false)} />
+        )}
+
+        {showGlossary && (
+          <GlossaryPanel onClose={() => setShowGlossary(false)} />
+        )}
+
+        {showFlashcards && (
+          <FlashcardReview onClose={() => setShowFlashcards(false)} />
+        )}
+
         {/* Settings Panel */}
         <SettingsPanel
           isOpen={showSettings}
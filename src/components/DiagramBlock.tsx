@@ -0,0 +1,423 @@
+'use client';
+
+import { ReactNode, useEffect, useId, useMemo, useState } from 'react';
+import { useTheme } from 'next-themes';
+import { ChartSpec } from '@/types';
+import {
+  describeChart,
+  describeMermaid,
+  DiagramLanguage,
+  parseChart,
+} from '@/lib/diagrams';
+
+interface DiagramBlockProps {
+  language: DiagramLanguage;
+  source: string;
+}
+
+const COLORS = [
+  '#3b82f6',
+  '#22c55e',
+  '#f59e0b',
+  '#ef4444',
+  '#a855f7',
+  '#14b8a6',
+  '#ec4899',
+  '#64748b',
+];
+
+const WIDTH = 400;
+const HEIGHT = 240;
+const MARGIN = { top: 12, right: 12, bottom: 36, left: 44 };
+
+/**
+ * A diagram or chart from a fenced block in a tutor reply, drawn as SVG with
+ * a text description for screen readers and anyone who prefers words
+ */
+export function DiagramBlock({ language, source }: DiagramBlockProps) {
+  if (language === 'mermaid') return <MermaidDiagram source={source} />;
+
+  return <ChartFigure source={source} />;
+}
+
+function Description({
+  description,
+  children,
+}: {
+  description: string;
+  children?: ReactNode;
+}) {
+  return (
+    <details className='mt-2 text-xs'>
+      <summary className='cursor-pointer text-gray-600 dark:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded'>
+        Text description
+      </summary>
+      <p className='mt-1'>{description}</p>
+      {children}
+    </details>
+  );
+}
+
+function Unreadable({
+  source,
+  message,
+  description,
+}: {
+  source: string;
+  message: string;
+  description?: string;
+}) {
+  return (
+    <figure className='my-3'>
+      <pre className='overflow-auto rounded bg-black/5 p-2 text-xs'>
+        <code>{source}</code>
+      </pre>
+      <figcaption className='mt-1 text-xs text-gray-600 dark:text-gray-400'>
+        {message}
+        {description && ` ${description}`}
+      </figcaption>
+    </figure>
+  );
+}
+
+function MermaidDiagram({ source }: { source: string }) {
+  const { resolvedTheme } = useTheme();
+  // Mermaid needs an id it can use in CSS selectors
+  const renderId = `mermaid-${useId().replace(/[^\w-]/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const description = useMemo(() => describeMermaid(source), [source]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Mermaid is large, so it is only loaded once a reply has a diagram
+    import('mermaid')
+      .then(async ({ default: mermaid }) => {
+        mermaid.initialize({
+          startOnLoad: false,
+          securityLevel: 'strict',
+          theme: resolvedTheme === 'dark' ? 'dark' : 'default',
+        });
+        if (!(await mermaid.parse(source, { suppressErrors: true }))) {
+          throw new Error('Invalid diagram');
+        }
+        const result = await mermaid.render(renderId, source);
+        if (!cancelled) {
+          setSvg(result.svg);
+          setFailed(false);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, renderId, resolvedTheme]);
+
+  if (failed) {
+    return (
+      <Unreadable
+        source={source}
+        message="This diagram couldn't be drawn."
+        description={description}
+      />
+    );
+  }
+
+  return (
+    <figure className='my-3'>
+      {svg ? (
+        <div
+          role='img'
+          aria-label={description}
+          className='overflow-x-auto rounded bg-white p-2 dark:bg-gray-900 [&_svg]:mx-auto [&_svg]:h-auto [&_svg]:max-w-full'
+          // Rendered by Mermaid with `securityLevel: 'strict'`, which strips
+          // scripts and links from the diagram
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : (
+        <div
+          role='img'
+          aria-label={description}
+          className='h-24 animate-pulse rounded bg-black/5'
+        />
+      )}
+      <Description description={description} />
+    </figure>
+  );
+}
+
+function ChartFigure({ source }: { source: string }) {
+  const chart = useMemo(() => parseChart(source), [source]);
+
+  if (!chart) {
+    return (
+      <Unreadable source={source} message="This chart couldn't be drawn." />
+    );
+  }
+
+  const description = describeChart(chart);
+
+  return (
+    <figure className='my-3'>
+      {chart.title && (
+        <figcaption className='mb-1 text-center font-semibold'>
+          {chart.title}
+        </figcaption>
+      )}
+      {chart.type === 'pie' ? (
+        <PieChart chart={chart} description={description} />
+      ) : (
+        <AxisChart chart={chart} description={description} />
+      )}
+      <Description description={description}>
+        <table className='mt-2 border-collapse'>
+          <thead>
+            <tr>
+              <th className='border px-2 py-1 text-left' scope='col'>
+                {chart.xLabel || 'Label'}
+              </th>
+              <th className='border px-2 py-1 text-right' scope='col'>
+                {chart.yLabel || 'Value'}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {chart.data.map((point, index) => (
+              <tr key={index}>
+                <th className='border px-2 py-1 text-left' scope='row'>
+                  {point.label}
+                </th>
+                <td className='border px-2 py-1 text-right'>{point.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Description>
+    </figure>
+  );
+}
+
+/**
+ * Bar and line charts
+ */
+function AxisChart({
+  chart,
+  description,
+}: {
+  chart: ChartSpec;
+  description: string;
+}) {
+  const values = chart.data.map((point) => point.value);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values) || 1;
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const band = plotWidth / chart.data.length;
+  const y = (value: number) =>
+    MARGIN.top + ((max - value) / (max - min)) * plotHeight;
+  const x = (index: number) => MARGIN.left + band * index + band / 2;
+  const ticks = [0, 1, 2, 3, 4].map((i) =>
+    Number((min + ((max - min) * i) / 4).toFixed(2))
+  );
+  // Leave out some axis labels when there are too many to fit
+  const labelEvery = Math.ceil(chart.data.length / 10);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className='h-auto w-full max-w-md mx-auto text-gray-700 dark:text-gray-300'
+      role='img'
+      aria-label={description}
+    >
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            stroke='currentColor'
+            strokeOpacity={0.15}
+          />
+          <text
+            x={MARGIN.left - 6}
+            y={y(tick)}
+            fontSize={10}
+            textAnchor='end'
+            dominantBaseline='middle'
+            fill='currentColor'
+          >
+            {tick}
+          </text>
+        </g>
+      ))}
+
+      {/* Zero line */}
+      <line
+        x1={MARGIN.left}
+        x2={WIDTH - MARGIN.right}
+        y1={y(0)}
+        y2={y(0)}
+        stroke='currentColor'
+        strokeOpacity={0.6}
+      />
+
+      {chart.type === 'bar' ? (
+        chart.data.map((point, index) => (
+          <rect
+            key={index}
+            x={x(index) - band * 0.35}
+            y={y(Math.max(point.value, 0))}
+            width={band * 0.7}
+            height={Math.abs(y(point.value) - y(0))}
+            fill={COLORS[0]}
+            rx={2}
+          >
+            <title>{`${point.label}: ${point.value}`}</title>
+          </rect>
+        ))
+      ) : (
+        <>
+          <polyline
+            points={chart.data
+              .map((point, index) => `${x(index)},${y(point.value)}`)
+              .join(' ')}
+            fill='none'
+            stroke={COLORS[0]}
+            strokeWidth={2}
+          />
+          {chart.data.map((point, index) => (
+            <circle
+              key={index}
+              cx={x(index)}
+              cy={y(point.value)}
+              r={3.5}
+              fill={COLORS[0]}
+            >
+              <title>{`${point.label}: ${point.value}`}</title>
+            </circle>
+          ))}
+        </>
+      )}
+
+      {chart.data.map(
+        (point, index) =>
+          index % labelEvery === 0 && (
+            <text
+              key={index}
+              x={x(index)}
+              y={HEIGHT - MARGIN.bottom + 14}
+              fontSize={10}
+              textAnchor='middle'
+              fill='currentColor'
+            >
+              {point.label.length > 12
+                ? `${point.label.slice(0, 11)}…`
+                : point.label}
+            </text>
+          )
+      )}
+
+      {chart.xLabel && (
+        <text
+          x={MARGIN.left + plotWidth / 2}
+          y={HEIGHT - 4}
+          fontSize={11}
+          textAnchor='middle'
+          fill='currentColor'
+        >
+          {chart.xLabel}
+        </text>
+      )}
+      {chart.yLabel && (
+        <text
+          transform={`translate(10 ${MARGIN.top + plotHeight / 2}) rotate(-90)`}
+          fontSize={11}
+          textAnchor='middle'
+          fill='currentColor'
+        >
+          {chart.yLabel}
+        </text>
+      )}
+    </svg>
+  );
+}
+
+function PieChart({
+  chart,
+  description,
+}: {
+  chart: ChartSpec;
+  description: string;
+}) {
+  const total = chart.data.reduce((sum, point) => sum + point.value, 0) || 1;
+  const radius = 90;
+  const [cx, cy] = [WIDTH / 2, HEIGHT / 2];
+  let angle = -Math.PI / 2;
+
+  const slices = chart.data.map((point, index) => {
+    const start = angle;
+    const sweep = (point.value / total) * Math.PI * 2;
+    angle += sweep;
+    const point1 = [
+      cx + radius * Math.cos(start),
+      cy + radius * Math.sin(start),
+    ];
+    const point2 = [
+      cx + radius * Math.cos(angle),
+      cy + radius * Math.sin(angle),
+    ];
+    // A slice that is the whole pie can't be drawn as an arc
+    const path =
+      sweep >= Math.PI * 2 - 1e-6
+        ? `M ${cx - radius} ${cy} a ${radius} ${radius} 0 1 0 ${
+            radius * 2
+          } 0 a ${radius} ${radius} 0 1 0 ${-radius * 2} 0`
+        : `M ${cx} ${cy} L ${point1[0]} ${point1[1]} A ${radius} ${radius} 0 ${
+            sweep > Math.PI ? 1 : 0
+          } 1 ${point2[0]} ${point2[1]} Z`;
+
+    return { point, path, color: COLORS[index % COLORS.length] };
+  });
+
+  return (
+    <div className='flex flex-col items-center gap-2 sm:flex-row sm:justify-center'>
+      <svg
+        viewBox={`${cx - radius - 4} ${cy - radius - 4} ${radius * 2 + 8} ${
+          radius * 2 + 8
+        }`}
+        className='h-auto w-48'
+        role='img'
+        aria-label={description}
+      >
+        {slices.map(({ point, path, color }, index) => (
+          <path
+            key={index}
+            d={path}
+            fill={color}
+            stroke='white'
+            strokeWidth={1}
+          >
+            <title>{`${point.label}: ${point.value}`}</title>
+          </path>
+        ))}
+      </svg>
+      {/* The key is hidden from screen readers, which get the description */}
+      <ul className='space-y-1 text-xs' aria-hidden='true'>
+        {slices.map(({ point, color }, index) => (
+          <li key={index} className='flex items-center gap-2'>
+            <span
+              className='inline-block h-3 w-3 rounded-sm'
+              style={{ backgroundColor: color }}
+            />
+            {point.label} ({Math.round((point.value / total) * 100)}%)
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useId, useRef, useState } from 'react';
+import { Layers, X } from 'lucide-react';
+import { Flashcard } from '@/types';
+import { useFlashcards } from '@/contexts/FlashcardsContext';
+import { DEFAULT_DECK_NAME } from '@/lib/flashcards';
+import { getSubject } from '@/lib/subjects';
+import { cn } from '@/lib/utils';
+
+const NEW_DECK = '__new__';
+
+export interface FlashcardDraft {
+  front: string;
+  back: string;
+  source?: Flashcard['source'];
+  /** Subject of the session the card comes from, used to pick a deck */
+  subject?: string;
+}
+
+interface FlashcardEditorProps {
+  draft: FlashcardDraft;
+  onSave: (card: Flashcard) => void;
+  onClose: () => void;
+}
+
+const fieldClass =
+  'w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Check and edit both sides of a new flashcard before it goes into a deck
+ */
+export function FlashcardEditor({
+  draft,
+  onSave,
+  onClose,
+}: FlashcardEditorProps) {
+  const { decks, createDeck, addCard } = useFlashcards();
+  const titleId = useId();
+  const frontRef = useRef<HTMLTextAreaElement>(null);
+
+  const subjectDeck = decks.find((deck) => deck.subject === draft.subject);
+  const [front, setFront] = useState(draft.front);
+  const [back, setBack] = useState(draft.back);
+  const [deckId, setDeckId] = useState(
+    subjectDeck?.id ?? (draft.subject ? NEW_DECK : decks[0]?.id ?? NEW_DECK)
+  );
+  const [deckName, setDeckName] = useState(
+    getSubject(draft.subject)?.name ?? DEFAULT_DECK_NAME
+  );
+
+  const canSave =
+    front.trim().length > 0 &&
+    back.trim().length > 0 &&
+    (deckId !== NEW_DECK || deckName.trim().length > 0);
+
+  // Start on the question, which is the side most likely to need writing
+  useEffect(() => {
+    frontRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    const targetDeckId =
+      deckId === NEW_DECK ? createDeck(deckName, draft.subject).id : deckId;
+
+    onSave(
+      addCard({ deckId: targetDeckId, front, back, source: draft.source })
+    );
+  };
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-lg max-h-full overflow-y-auto rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700'>
+          <div className='flex items-center gap-2'>
+            <Layers size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold'>
+              New flashcard
+            </h2>
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close without saving'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className='p-4 space-y-4'>
+          <div>
+            <label
+              htmlFor={`${titleId}-front`}
+              className='block text-sm font-medium mb-1'
+            >
+              Front (the question)
+            </label>
+            <textarea
+              ref={frontRef}
+              id={`${titleId}-front`}
+              value={front}
+              onChange={(e) => setFront(e.target.value)}
+              rows={2}
+              className={fieldClass}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor={`${titleId}-back`}
+              className='block text-sm font-medium mb-1'
+            >
+              Back (the answer)
+            </label>
+            <textarea
+              id={`${titleId}-back`}
+              value={back}
+              onChange={(e) => setBack(e.target.value)}
+              rows={6}
+              className={fieldClass}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor={`${titleId}-deck`}
+              className='block text-sm font-medium mb-1'
+            >
+              Deck
+            </label>
+            <select
+              id={`${titleId}-deck`}
+              value={deckId}
+              onChange={(e) => setDeckId(e.target.value)}
+              className={fieldClass}
+            >
+              {decks.map((deck) => (
+                <option key={deck.id} value={deck.id}>
+                  {deck.name}
+                </option>
+              ))}
+              <option value={NEW_DECK}>New deck...</option>
+            </select>
+          </div>
+
+          {deckId === NEW_DECK && (
+            <div>
+              <label
+                htmlFor={`${titleId}-deck-name`}
+                className='block text-sm font-medium mb-1'
+              >
+                New deck name
+              </label>
+              <input
+                id={`${titleId}-deck-name`}
+                type='text'
+                value={deckName}
+                onChange={(e) => setDeckName(e.target.value)}
+                maxLength={60}
+                className={fieldClass}
+              />
+            </div>
+          )}
+
+          <div className='flex justify-end gap-2'>
+            <button
+              type='button'
+              onClick={onClose}
+              className='px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              Cancel
+            </button>
+            <button
+              type='submit'
+              disabled={!canSave}
+              className={cn(
+                'px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+              )}
+            >
+              Save card
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
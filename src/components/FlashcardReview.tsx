@@ -0,0 +1,328 @@
+'use client';
+
+import {
+  useCallback,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { cn } from '@/lib/utils';
+import { Layers, Trash2, Volume2, VolumeX, X } from 'lucide-react';
+import { FlashcardGrade } from '@/types';
+import { useFlashcards } from '@/contexts/FlashcardsContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useTextToSpeech } from '@/hooks/useSpeech';
+import {
+  FLASHCARD_GRADES,
+  formatDueIn,
+  scheduleReview,
+} from '@/lib/flashcards';
+
+interface FlashcardReviewProps {
+  onClose: () => void;
+}
+
+const GRADES = Object.keys(FLASHCARD_GRADES) as FlashcardGrade[];
+
+const ALL_DECKS = '';
+
+/**
+ * Review the flashcards that are due, one at a time: show the front, reveal
+ * the back, then grade how well it was remembered. Number keys 1-4 grade the
+ * card once the answer is showing.
+ */
+export function FlashcardReview({ onClose }: FlashcardReviewProps) {
+  const { decks, cards, dueCards, reviewCard, deleteCard } = useFlashcards();
+  const { preferences } = usePreferences();
+  const {
+    speak,
+    stop: stopSpeaking,
+    isSpeaking,
+    isSupported: ttsSupported,
+  } = useTextToSpeech();
+
+  const titleId = useId();
+  const frontRef = useRef<HTMLDivElement>(null);
+  const backRef = useRef<HTMLDivElement>(null);
+
+  const [deckId, setDeckId] = useState(ALL_DECKS);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [spokenSide, setSpokenSide] = useState<'front' | 'back' | null>(null);
+
+  const queue = useMemo(
+    () => dueCards.filter((card) => !deckId || card.deckId === deckId),
+    [dueCards, deckId]
+  );
+  const card = queue[0];
+  const deckCards = cards.filter((c) => !deckId || c.deckId === deckId);
+  const canSpeak = ttsSupported && preferences.enableTextToSpeech;
+
+  // Each new card starts face down, with the front read out by screen readers
+  useEffect(() => {
+    setIsRevealed(false);
+    stopSpeaking();
+    frontRef.current?.focus();
+  }, [card?.id, stopSpeaking]);
+
+  useEffect(() => {
+    if (isRevealed) backRef.current?.focus();
+  }, [isRevealed]);
+
+  useEffect(() => {
+    if (!isSpeaking) setSpokenSide(null);
+  }, [isSpeaking]);
+
+  // Don't keep reading once the review is closed
+  useEffect(() => () => stopSpeaking(), [stopSpeaking]);
+
+  const grade = useCallback(
+    (value: FlashcardGrade) => {
+      if (!card) return;
+      reviewCard(card.id, value);
+      setReviewedCount((count) => count + 1);
+    },
+    [card, reviewCard]
+  );
+
+  const toggleSpeech = (side: 'front' | 'back') => {
+    if (!card) return;
+    if (isSpeaking && spokenSide === side) {
+      stopSpeaking();
+      return;
+    }
+    speak(side === 'front' ? card.front : card.back);
+    setSpokenSide(side);
+  };
+
+  const handleDelete = () => {
+    if (card && confirm('Delete this flashcard? This cannot be undone.')) {
+      deleteCard(card.id);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+        return;
+      }
+
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, select, textarea')) return;
+
+      const index = Number(event.key) - 1;
+      if (isRevealed && GRADES[index]) {
+        event.preventDefault();
+        grade(GRADES[index]);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isRevealed, grade]);
+
+  const speakButton = (side: 'front' | 'back') =>
+    canSpeak && (
+      <button
+        type='button'
+        onClick={() => toggleSpeech(side)}
+        className={cn(
+          'shrink-0 rounded p-1 transition-colors',
+          'hover:bg-gray-200 dark:hover:bg-gray-700',
+          'focus:outline-none focus:ring-2 focus:ring-blue-500',
+          isSpeaking && spokenSide === side ? 'text-blue-500' : 'text-gray-500'
+        )}
+        aria-label={
+          isSpeaking && spokenSide === side
+            ? 'Stop reading'
+            : `Read the ${side === 'front' ? 'question' : 'answer'} aloud`
+        }
+      >
+        {isSpeaking && spokenSide === side ? (
+          <VolumeX size={16} />
+        ) : (
+          <Volume2 size={16} />
+        )}
+      </button>
+    );
+
+  const renderBody = () => {
+    if (!card) {
+      const nextDue = Math.min(...deckCards.map((c) => c.dueAt));
+
+      return (
+        <div className='py-8 text-center space-y-2' role='status'>
+          <p className='font-semibold'>
+            {deckCards.length === 0
+              ? 'No flashcards yet'
+              : reviewedCount > 0
+              ? `All done! You reviewed ${reviewedCount} ${
+                  reviewedCount === 1 ? 'card' : 'cards'
+                }.`
+              : "You're all caught up!"}
+          </p>
+          <p className='text-sm text-gray-600 dark:text-gray-400'>
+            {deckCards.length === 0
+              ? 'Use the flashcard button under a tutor reply to make one. Select part of the reply first to use just that passage.'
+              : `The next card is due ${formatDueIn(nextDue)}.`}
+          </p>
+        </div>
+      );
+    }
+
+    const now = Date.now();
+
+    return (
+      <div className='space-y-4'>
+        <div className='rounded-lg border border-gray-200 dark:border-gray-700 p-4'>
+          <div className='flex items-start justify-between gap-2'>
+            <div
+              ref={frontRef}
+              tabIndex={-1}
+              className='whitespace-pre-wrap font-medium focus:outline-none'
+            >
+              <span className='sr-only'>Question: </span>
+              {card.front}
+            </div>
+            {speakButton('front')}
+          </div>
+
+          {isRevealed && (
+            <div className='mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 flex items-start justify-between gap-2'>
+              <div
+                ref={backRef}
+                tabIndex={-1}
+                className='whitespace-pre-wrap text-sm focus:outline-none'
+              >
+                <span className='sr-only'>Answer: </span>
+                {card.back}
+              </div>
+              {speakButton('back')}
+            </div>
+          )}
+        </div>
+
+        {isRevealed ? (
+          <fieldset>
+            <legend className='text-sm font-medium mb-2'>
+              How well did you remember it?
+            </legend>
+            <div className='grid grid-cols-2 sm:grid-cols-4 gap-2'>
+              {GRADES.map((value, index) => (
+                <button
+                  key={value}
+                  type='button'
+                  onClick={() => grade(value)}
+                  className={cn(
+                    'flex flex-col items-center p-2 rounded-lg border text-sm',
+                    'border-gray-200 dark:border-gray-700',
+                    'hover:bg-gray-50 dark:hover:bg-gray-800',
+                    'focus:outline-none focus:ring-2 focus:ring-blue-500'
+                  )}
+                  title={`${FLASHCARD_GRADES[value].description} (key ${
+                    index + 1
+                  })`}
+                >
+                  <span className='font-medium'>
+                    {FLASHCARD_GRADES[value].label}
+                  </span>
+                  <span className='text-xs text-gray-600 dark:text-gray-400'>
+                    {formatDueIn(
+                      scheduleReview(card, value, now).dueAt,
+                      now
+                    ).replace(/^in /, '')}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </fieldset>
+        ) : (
+          <button
+            type='button'
+            onClick={() => setIsRevealed(true)}
+            className='w-full px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+          >
+            Show answer
+          </button>
+        )}
+
+        <div className='flex justify-end'>
+          <button
+            type='button'
+            onClick={handleDelete}
+            className='flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-600 dark:text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none focus:ring-2 focus:ring-red-500'
+          >
+            <Trash2 size={14} aria-hidden='true' />
+            Delete card
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-lg max-h-full overflow-y-auto rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='sticky top-0 flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900'>
+          <div className='flex items-center gap-2'>
+            <Layers size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold'>
+              Flashcards
+            </h2>
+            <span className='text-sm text-gray-600 dark:text-gray-400'>
+              {queue.length} due
+            </span>
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close flashcards'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className='p-4 space-y-4'>
+          {decks.length > 1 && (
+            <div>
+              <label
+                htmlFor={`${titleId}-deck`}
+                className='block text-sm font-medium mb-1'
+              >
+                Deck
+              </label>
+              <select
+                id={`${titleId}-deck`}
+                value={deckId}
+                onChange={(e) => setDeckId(e.target.value)}
+                className='w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              >
+                <option value={ALL_DECKS}>All decks</option>
+                {decks.map((deck) => (
+                  <option key={deck.id} value={deck.id}>
+                    {`${deck.name} (${
+                      dueCards.filter((c) => c.deckId === deck.id).length
+                    } due)`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { BookA, MessageSquare, Square, Volume2, X } from 'lucide-react';
+import { useChatContext } from '@/contexts/ChatContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useTextToSpeech } from '@/hooks/useSpeech';
+import {
+  collectGlossary,
+  filterGlossary,
+  GlossaryEntry,
+  glossaryEntryToSpeech,
+} from '@/lib/glossary';
+import { getSubject } from '@/lib/subjects';
+
+interface GlossaryPanelProps {
+  onClose: () => void;
+}
+
+const fieldClass =
+  'w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// What is being read aloud: one term, or every term shown
+const READ_ALL = 'all';
+
+function entryKey(entry: GlossaryEntry): string {
+  return `${entry.session.subject ?? ''}:${entry.term.toLowerCase()}`;
+}
+
+/**
+ * Every term tutor replies have introduced, grouped by subject, to review
+ * and have read aloud
+ */
+export function GlossaryPanel({ onClose }: GlossaryPanelProps) {
+  const { sessions, loadSession } = useChatContext();
+  const { preferences } = usePreferences();
+  const {
+    speak,
+    stop: stopSpeaking,
+    isSpeaking,
+    isSupported: ttsSupported,
+  } = useTextToSpeech();
+  const titleId = useId();
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [subject, setSubject] = useState('');
+  const [spokenKey, setSpokenKey] = useState<string | null>(null);
+  const canSpeak = ttsSupported && preferences.enableTextToSpeech;
+
+  const entries = useMemo(() => collectGlossary(sessions), [sessions]);
+  const shown = useMemo(
+    () => filterGlossary(entries, { query, subject }),
+    [entries, query, subject]
+  );
+  const subjects = useMemo(
+    () =>
+      Array.from(
+        new Set(entries.map((entry) => entry.session.subject ?? ''))
+      ).sort((a, b) =>
+        (getSubject(a)?.name ?? 'General').localeCompare(
+          getSubject(b)?.name ?? 'General'
+        )
+      ),
+    [entries]
+  );
+  const groups = subjects
+    .map((id) => ({
+      id,
+      name: getSubject(id)?.name ?? 'General',
+      entries: shown.filter((entry) => (entry.session.subject ?? '') === id),
+    }))
+    .filter((group) => group.entries.length > 0);
+
+  useEffect(() => {
+    searchRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!isSpeaking) setSpokenKey(null);
+  }, [isSpeaking]);
+
+  // Don't keep reading once the glossary is closed
+  useEffect(() => () => stopSpeaking(), [stopSpeaking]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toggleSpeech = (key: string, text: string) => {
+    if (isSpeaking && spokenKey === key) {
+      stopSpeaking();
+      return;
+    }
+    speak(text);
+    setSpokenKey(key);
+  };
+
+  const handleOpen = (entry: GlossaryEntry) => {
+    loadSession(entry.session.id);
+    onClose();
+  };
+
+  const isReadingAll = isSpeaking && spokenKey === READ_ALL;
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-2xl max-h-full flex flex-col rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700'>
+          <div className='flex items-center gap-2'>
+            <BookA size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold'>
+              Glossary
+            </h2>
+            <span className='text-sm text-gray-600 dark:text-gray-400'>
+              {entries.length} {entries.length === 1 ? 'term' : 'terms'}
+            </span>
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close glossary'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className='p-4 space-y-3 border-b border-gray-200 dark:border-gray-700'>
+          <div className='grid grid-cols-2 gap-2'>
+            <div>
+              <label
+                htmlFor={`${titleId}-search`}
+                className='block text-xs font-medium mb-1'
+              >
+                Search
+              </label>
+              <input
+                ref={searchRef}
+                id={`${titleId}-search`}
+                type='search'
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder='Find a word'
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor={`${titleId}-subject`}
+                className='block text-xs font-medium mb-1'
+              >
+                Subject
+              </label>
+              <select
+                id={`${titleId}-subject`}
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                className={fieldClass}
+              >
+                <option value=''>All subjects</option>
+                {subjects.filter(Boolean).map((id) => (
+                  <option key={id} value={id}>
+                    {getSubject(id)?.name ?? id}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {canSpeak && (
+            <button
+              type='button'
+              onClick={() =>
+                toggleSpeech(
+                  READ_ALL,
+                  shown.map(glossaryEntryToSpeech).join('\n')
+                )
+              }
+              disabled={shown.length === 0}
+              className={cn(
+                'flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm',
+                'bg-blue-500 text-white hover:bg-blue-600',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+              )}
+            >
+              {isReadingAll ? (
+                <Square size={14} aria-hidden='true' />
+              ) : (
+                <Volume2 size={14} aria-hidden='true' />
+              )}
+              {isReadingAll ? 'Stop reading' : `Read all ${shown.length} aloud`}
+            </button>
+          )}
+        </div>
+
+        {/* Terms */}
+        <div className='flex-1 overflow-y-auto p-4'>
+          <p className='sr-only' role='status' aria-live='polite'>
+            {shown.length} {shown.length === 1 ? 'term' : 'terms'} shown
+          </p>
+
+          {groups.length === 0 ? (
+            <div className='py-8 text-center text-sm text-gray-600 dark:text-gray-400'>
+              <BookA
+                size={32}
+                className='mx-auto mb-2 opacity-50'
+                aria-hidden='true'
+              />
+              {entries.length === 0
+                ? 'No words yet. New terms the tutor explains will be collected here.'
+                : 'No words match your search.'}
+            </div>
+          ) : (
+            <div className='space-y-6'>
+              {groups.map((group) => (
+                <section
+                  key={group.id}
+                  aria-labelledby={`${titleId}-${group.id || 'general'}`}
+                >
+                  <h3
+                    id={`${titleId}-${group.id || 'general'}`}
+                    className='mb-2 font-semibold'
+                  >
+                    {group.name}
+                  </h3>
+                  <dl className='space-y-3'>
+                    {group.entries.map((entry) => {
+                      const key = entryKey(entry);
+                      const isReading = isSpeaking && spokenKey === key;
+
+                      return (
+                        <div
+                          key={key}
+                          className='p-3 rounded-lg border border-gray-200 dark:border-gray-700'
+                        >
+                          <div className='flex items-start justify-between gap-2'>
+                            <dt className='font-medium'>{entry.term}</dt>
+                            {canSpeak && (
+                              <button
+                                type='button'
+                                onClick={() =>
+                                  toggleSpeech(
+                                    key,
+                                    glossaryEntryToSpeech(entry)
+                                  )
+                                }
+                                className={cn(
+                                  'p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500',
+                                  isReading ? 'text-blue-500' : 'text-gray-500'
+                                )}
+                                aria-label={
+                                  isReading
+                                    ? 'Stop reading'
+                                    : `Read ${entry.term} aloud`
+                                }
+                              >
+                                {isReading ? (
+                                  <Square size={16} />
+                                ) : (
+                                  <Volume2 size={16} />
+                                )}
+                              </button>
+                            )}
+                          </div>
+                          <dd className='mt-1 text-sm leading-relaxed'>
+                            {entry.definition}
+                          </dd>
+                          <dd className='mt-1'>
+                            <button
+                              type='button'
+                              onClick={() => handleOpen(entry)}
+                              className='flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded'
+                            >
+                              <MessageSquare size={12} aria-hidden='true' />
+                              <span className='truncate'>
+                                From {entry.session.title || 'Untitled chat'}
+                              </span>
+                            </button>
+                          </dd>
+                        </div>
+                      );
+                    })}
+                  </dl>
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { ReactNode, useEffect, useId, useRef, useState } from 'react';
+import { Volume2, X } from 'lucide-react';
+import { glossaryEntryToSpeech } from '@/lib/glossary';
+
+interface GlossaryTermProps {
+  term: string;
+  definition: string;
+  /** Read the term and its meaning aloud; the button is hidden without it */
+  onSpeak?: (text: string) => void;
+  children: ReactNode;
+}
+
+/**
+ * A term in a tutor reply, underlined, that shows its meaning in a popover
+ * when tapped. Escape or tapping elsewhere closes it again.
+ */
+export function GlossaryTerm({
+  term,
+  definition,
+  onSpeak,
+  children,
+}: GlossaryTermProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const popoverId = useId();
+  const wrapperRef = useRef<HTMLElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const popoverRef = useRef<HTMLSpanElement>(null);
+
+  // Move focus into the popover so screen readers read the meaning
+  useEffect(() => {
+    if (isOpen) popoverRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      // Don't also close a dialog the reply is shown in
+      event.stopPropagation();
+      setIsOpen(false);
+      buttonRef.current?.focus();
+    };
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!wrapperRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown, true);
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown, true);
+      document.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <dfn
+      ref={wrapperRef}
+      className='relative not-italic'
+      onBlur={(e) => {
+        // Close once focus moves on past the popover
+        if (!wrapperRef.current?.contains(e.relatedTarget as Node | null)) {
+          setIsOpen(false);
+        }
+      }}
+    >
+      <button
+        ref={buttonRef}
+        type='button'
+        onClick={() => setIsOpen(!isOpen)}
+        className='underline decoration-dotted decoration-2 underline-offset-4 decoration-blue-500 rounded-sm hover:bg-blue-500/10 focus:outline-none focus:ring-2 focus:ring-blue-500'
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? popoverId : undefined}
+        title='Show what this means'
+      >
+        {children}
+      </button>
+      {isOpen && (
+        <span
+          ref={popoverRef}
+          id={popoverId}
+          role='dialog'
+          aria-label={`Meaning of ${term}`}
+          tabIndex={-1}
+          className='absolute left-0 top-full z-20 mt-1 block w-64 max-w-[80vw] rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 p-3 text-left text-sm font-normal text-gray-900 dark:text-gray-100 shadow-lg focus:outline-none'
+        >
+          <span className='flex items-start justify-between gap-2'>
+            <span className='font-semibold'>{term}</span>
+            <button
+              type='button'
+              onClick={() => {
+                setIsOpen(false);
+                buttonRef.current?.focus();
+              }}
+              className='-mr-1 -mt-1 rounded p-1 hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              aria-label='Close'
+            >
+              <X size={14} />
+            </button>
+          </span>
+          <span className='mt-1 block leading-relaxed'>{definition}</span>
+          {onSpeak && (
+            <button
+              type='button'
+              onClick={() =>
+                onSpeak(glossaryEntryToSpeech({ term, definition }))
+              }
+              className='mt-2 flex items-center gap-1 rounded text-xs text-blue-600 dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              <Volume2 size={14} aria-hidden='true' />
+              Read aloud
+            </button>
+          )}
+        </span>
+      )}
+    </dfn>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, memo, useCallback } from 'react';
-import { Message } from '@/types';
+import { useState, memo, useCallback, useId, useRef, TouchEvent } from 'react';
+import { DifficultyLevel, Message, MessageVariantKind } from '@/types';
 import { formatTimestamp } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 import {
@@ -13,30 +13,93 @@ import {
   Check,
   User,
   Bot,
+  Layers,
+  Lightbulb,
+  ChevronLeft,
+  ChevronRight,
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import rehypeHighlight from 'rehype-highlight';
-import remarkGfm from 'remark-gfm';
+import { prepareMath } from '@/lib/math';
+import { getDiagram, REHYPE_PLUGINS, REMARK_PLUGINS } from '@/lib/markdown';
+import { DiagramBlock } from './DiagramBlock';
+import { GlossaryTerm } from './GlossaryTerm';
+import { findGlossaryTerms, rehypeGlossary } from '@/lib/glossary';
+import { getActiveVariant, MESSAGE_VARIANTS } from '@/lib/variants';
+import {
+  analyzeReadability,
+  isAboveReadingLevel,
+  READING_LEVELS,
+} from '@/lib/readability';
 
 interface MessageBubbleProps {
   message: Message;
   onBookmark?: (messageId: string) => void;
   onSpeak?: (text: string) => void;
+  /** Make a flashcard from the message, or from the passage selected in it */
+  onMakeFlashcard?: (message: Message, selection?: string) => void;
+  /** Ask for the reply to be explained another way */
+  onRequestVariant?: (messageId: string, kind: MessageVariantKind) => void;
+  /** Show one of the reply's variants, or the original */
+  onSelectVariant?: (messageId: string, variantId?: string) => void;
+  /** Set while a variant of this message is being written, or if it failed */
+  variantRequest?: {
+    kind: MessageVariantKind;
+    automatic?: boolean;
+    error?: string;
+  };
+  /** The session's level, which the reply's reading level is compared with */
+  difficulty?: DifficultyLevel;
   isSpeaking?: boolean;
+  /** Picked in search: scrolled to, focused and outlined */
+  isFocused?: boolean;
   className?: string;
 }
 
-// Custom comparison function to prevent unnecessary rerenders
+const VARIANT_KINDS = Object.keys(MESSAGE_VARIANTS) as MessageVariantKind[];
+
+// How far a finger has to move sideways to switch between variants
+const SWIPE_DISTANCE = 50;
+
+/**
+ * Text selected inside an element, if the whole selection is within it
+ */
+function getSelectedText(container: HTMLElement | null): string | undefined {
+  const selection = typeof window !== 'undefined' && window.getSelection();
+  if (!container || !selection || selection.isCollapsed) return undefined;
+
+  const { anchorNode, focusNode } = selection;
+  if (!container.contains(anchorNode) || !container.contains(focusNode)) {
+    return undefined;
+  }
+
+  return selection.toString().trim() || undefined;
+}
+
+// Custom comparison function to prevent unnecessary rerenders. Handlers are
+// compared too, so a bubble never keeps one that closes over old state.
 function arePropsEqual(
   prevProps: MessageBubbleProps,
   nextProps: MessageBubbleProps
 ) {
   return (
+    prevProps.onBookmark === nextProps.onBookmark &&
+    prevProps.onSpeak === nextProps.onSpeak &&
+    prevProps.onMakeFlashcard === nextProps.onMakeFlashcard &&
+    prevProps.onRequestVariant === nextProps.onRequestVariant &&
+    prevProps.onSelectVariant === nextProps.onSelectVariant &&
     prevProps.message.id === nextProps.message.id &&
     prevProps.message.content === nextProps.message.content &&
     prevProps.message.isBookmarked === nextProps.message.isBookmarked &&
     prevProps.message.isError === nextProps.message.isError &&
-    prevProps.isSpeaking === nextProps.isSpeaking
+    prevProps.message.isStreaming === nextProps.message.isStreaming &&
+    prevProps.message.answerWithheld === nextProps.message.answerWithheld &&
+    prevProps.message.variants === nextProps.message.variants &&
+    prevProps.message.activeVariantId === nextProps.message.activeVariantId &&
+    prevProps.variantRequest?.kind === nextProps.variantRequest?.kind &&
+    prevProps.variantRequest?.error === nextProps.variantRequest?.error &&
+    prevProps.difficulty === nextProps.difficulty &&
+    prevProps.isSpeaking === nextProps.isSpeaking &&
+    prevProps.isFocused === nextProps.isFocused
   );
 }
 
@@ -45,10 +108,22 @@ export const MessageBubble = memo(function MessageBubbleComponent({
   message,
   onBookmark,
   onSpeak,
+  onMakeFlashcard,
+  onRequestVariant,
+  onSelectVariant,
+  variantRequest,
+  difficulty,
   isSpeaking,
+  isFocused,
   className,
 }: MessageBubbleProps) {
   const [copied, setCopied] = useState(false);
+  const [isVariantMenuOpen, setIsVariantMenuOpen] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // Clicking the button can clear the selection, so it is read on press
+  const selectionRef = useRef<string | undefined>(undefined);
+  const touchStartXRef = useRef<number | null>(null);
+  const variantMenuId = useId();
 
   // Add message validation
   if (!message || typeof message !== 'object') {
@@ -58,23 +133,44 @@ export const MessageBubble = memo(function MessageBubbleComponent({
   const isUser = message.role === 'user';
   const isAssistant = message.role === 'assistant';
   const isError = !!message.isError;
+  const activeVariant = getActiveVariant(message);
+  const content = activeVariant?.content ?? message.content;
+  const isStreaming = !!(message.isStreaming || activeVariant?.isStreaming);
+  const isWritingVariant = !!variantRequest && !variantRequest.error;
+  // Terms the reply introduces, underlined once it has finished arriving
+  const glossary =
+    isAssistant && !isError && !isStreaming ? findGlossaryTerms(content) : [];
+  // How hard the reply shown is to read, once it has finished arriving
+  const readability =
+    isAssistant && !isError && !isStreaming
+      ? analyzeReadability(content)
+      : undefined;
+  const readsAboveLevel =
+    !!readability &&
+    !!difficulty &&
+    isAboveReadingLevel(readability, difficulty);
+
+  // The original reply comes first, then its variants in the order asked for
+  const versions = [undefined, ...(message.variants ?? [])];
+  const versionIndex = activeVariant ? versions.indexOf(activeVariant) : 0;
+  const hasVersions = versions.length > 1;
 
   // Use useCallback to prevent recreation of handler functions on each render
   const handleCopy = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(message.content);
+      await navigator.clipboard.writeText(content);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
       // Silent error - don't log to console in production
     }
-  }, [message.content]);
+  }, [content]);
 
   const handleSpeak = useCallback(() => {
     if (onSpeak) {
-      onSpeak(message.content);
+      onSpeak(content);
     }
-  }, [onSpeak, message.content]);
+  }, [onSpeak, content]);
 
   const handleBookmark = useCallback(() => {
     if (onBookmark) {
@@ -82,15 +178,58 @@ export const MessageBubble = memo(function MessageBubbleComponent({
     }
   }, [onBookmark, message.id]);
 
+  const handleMakeFlashcard = () => {
+    if (onMakeFlashcard) {
+      onMakeFlashcard(
+        { ...message, content },
+        selectionRef.current ?? getSelectedText(contentRef.current)
+      );
+    }
+    selectionRef.current = undefined;
+  };
+
+  const handleRequestVariant = (kind: MessageVariantKind) => {
+    onRequestVariant?.(message.id, kind);
+    setIsVariantMenuOpen(false);
+  };
+
+  const showVersion = (index: number) => {
+    if (!onSelectVariant || index < 0 || index >= versions.length) return;
+    onSelectVariant(message.id, versions[index]?.id);
+  };
+
+  // Swiping the bubble sideways moves between the original and its variants
+  const handleTouchEnd = (event: TouchEvent) => {
+    const startX = touchStartXRef.current;
+    touchStartXRef.current = null;
+    if (startX === null || !hasVersions) return;
+
+    const distance = event.changedTouches[0].clientX - startX;
+    if (Math.abs(distance) >= SWIPE_DISTANCE) {
+      showVersion(versionIndex + (distance < 0 ? 1 : -1));
+    }
+  };
+
+  const versionLabel = activeVariant
+    ? activeVariant.automatic
+      ? 'Made simpler for your level'
+      : MESSAGE_VARIANTS[activeVariant.kind].label
+    : 'Original';
+
   return (
     <div
+      id={`message-${message.id}`}
+      tabIndex={isFocused ? -1 : undefined}
       className={cn(
         'group relative flex w-full gap-3 p-4',
         isUser ? 'flex-row-reverse' : 'flex-row',
+        isFocused &&
+          'rounded-lg ring-2 ring-amber-400 bg-amber-50/50 dark:bg-amber-900/10 focus:outline-none',
         className
       )}
       role='article'
       aria-label={`${isUser ? 'Your' : 'AI assistant'} message`}
+      aria-busy={isStreaming}
     >
       {/* Avatar */}
       <div
@@ -116,6 +255,11 @@ export const MessageBubble = memo(function MessageBubbleComponent({
       >
         {/* Message Bubble */}
         <div
+          ref={contentRef}
+          onTouchStart={(e) => {
+            touchStartXRef.current = hasVersions ? e.touches[0].clientX : null;
+          }}
+          onTouchEnd={handleTouchEnd}
           className={cn(
             'relative max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed',
             'break-words hyphens-auto',
@@ -130,8 +274,14 @@ export const MessageBubble = memo(function MessageBubbleComponent({
           {isAssistant ? (
             <ReactMarkdown
               // className="whitespace-pre-wrap"
-              rehypePlugins={[rehypeHighlight]}
-              remarkPlugins={[remarkGfm]}
+              rehypePlugins={[
+                ...REHYPE_PLUGINS,
+                [
+                  rehypeGlossary,
+                  { terms: glossary.map((entry) => entry.term) },
+                ],
+              ]}
+              remarkPlugins={REMARK_PLUGINS}
               components={{
                 h1: ({ node, ...props }) => (
                   <h1
@@ -202,18 +352,35 @@ export const MessageBubble = memo(function MessageBubbleComponent({
                     {...props}
                   />
                 ),
-                pre: ({ node, ...props }) => (
-                  <pre
-                    style={{
-                      marginBottom: '1rem',
-                      padding: '0.5rem',
-                      backgroundColor: 'rgba(0,0,0,0.05)',
-                      borderRadius: '0.3rem',
-                      overflow: 'auto',
-                    }}
-                    {...props}
-                  />
-                ),
+                pre: ({ node, ...props }) => {
+                  // Diagrams are drawn once the reply has finished arriving
+                  const diagram = !isStreaming && getDiagram(node);
+                  if (diagram) return <DiagramBlock {...diagram} />;
+
+                  return (
+                    <pre
+                      style={{
+                        marginBottom: '1rem',
+                        padding: '0.5rem',
+                        backgroundColor: 'rgba(0,0,0,0.05)',
+                        borderRadius: '0.3rem',
+                        overflow: 'auto',
+                      }}
+                      {...props}
+                    />
+                  );
+                },
+                dfn: ({ node, children }) => {
+                  const term = node?.properties.dataGlossaryTerm;
+                  const entry = glossary.find((item) => item.term === term);
+                  if (!entry) return <dfn>{children}</dfn>;
+
+                  return (
+                    <GlossaryTerm {...entry} onSpeak={onSpeak}>
+                      {children}
+                    </GlossaryTerm>
+                  );
+                },
                 a: ({ node, ...props }) => (
                   <a
                     style={{ color: '#3b82f6', textDecoration: 'underline' }}
@@ -222,13 +389,111 @@ export const MessageBubble = memo(function MessageBubbleComponent({
                 ),
               }}
             >
-              {message.content}
+              {prepareMath(content)}
             </ReactMarkdown>
           ) : (
-            <div className='whitespace-pre-wrap'>{message.content}</div>
+            <div className='whitespace-pre-wrap'>{content}</div>
+          )}
+          {/* Cursor shown while the reply is still streaming in */}
+          {isStreaming && (
+            <span
+              className='inline-block h-4 w-2 animate-pulse bg-gray-400 align-middle'
+              aria-hidden='true'
+            />
           )}
         </div>
 
+        {/* Switch between the original reply and its variants */}
+        {hasVersions && onSelectVariant && (
+          <div
+            className='mt-1 flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400'
+            role='group'
+            aria-label='Versions of this reply'
+          >
+            <button
+              type='button'
+              onClick={() => showVersion(versionIndex - 1)}
+              disabled={versionIndex === 0}
+              className='rounded p-1 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              aria-label='Previous version'
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span aria-live='polite'>
+              {`${versionIndex + 1} of ${versions.length} · ${versionLabel}`}
+            </span>
+            <button
+              type='button'
+              onClick={() => showVersion(versionIndex + 1)}
+              disabled={versionIndex === versions.length - 1}
+              className='rounded p-1 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              aria-label='Next version'
+            >
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        )}
+
+        {/* Progress and errors for "explain it differently" */}
+        {variantRequest && (
+          <p
+            className={cn(
+              'mt-1 text-xs',
+              variantRequest.error
+                ? 'text-red-600 dark:text-red-400'
+                : 'text-gray-600 dark:text-gray-400'
+            )}
+            role={variantRequest.error ? 'alert' : 'status'}
+          >
+            {variantRequest.error ??
+              (variantRequest.automatic
+                ? 'This reply is harder to read than your level. Writing a simpler version...'
+                : `Writing "${
+                    MESSAGE_VARIANTS[variantRequest.kind].label
+                  }"...`)}
+          </p>
+        )}
+
+        {/* Shown when a guided mode held back the final answer */}
+        {(activeVariant ?? message).answerWithheld && (
+          <p className='mt-1 text-xs text-gray-600 dark:text-gray-400'>
+            The tutor held back the final answer so you can work it out.
+          </p>
+        )}
+
+        {/* Reading level of the version shown, against the session's level */}
+        {readability && readability.words > 0 && (
+          <details className='mt-1 text-xs text-gray-600 dark:text-gray-400'>
+            <summary
+              className={cn(
+                'cursor-pointer rounded focus:outline-none focus:ring-2 focus:ring-blue-500',
+                readsAboveLevel && 'text-amber-700 dark:text-amber-400'
+              )}
+            >
+              {`Grade ${Math.round(readability.gradeLevel)} reading level`}
+              {readsAboveLevel &&
+                difficulty &&
+                ` · harder than ${READING_LEVELS[
+                  difficulty
+                ].label.toLowerCase()}`}
+            </summary>
+            <dl className='mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5'>
+              <dt>Flesch-Kincaid grade</dt>
+              <dd>{readability.gradeLevel}</dd>
+              <dt>Words per sentence</dt>
+              <dd>{readability.averageSentenceLength}</dd>
+              <dt>Less common words</dt>
+              <dd>{Math.round(readability.rareWordRatio * 100)}%</dd>
+              {difficulty && (
+                <>
+                  <dt>{READING_LEVELS[difficulty].label} target</dt>
+                  <dd>Grade {READING_LEVELS[difficulty].maxGrade} or below</dd>
+                </>
+              )}
+            </dl>
+          </details>
+        )}
+
         {/* Message Actions and Timestamp */}
         <div
           className={cn(
@@ -312,8 +577,76 @@ export const MessageBubble = memo(function MessageBubbleComponent({
                 )}
               </button>
             )}
+            {/* Flashcard Button (only for finished assistant messages) */}
+            {isAssistant && !isError && !isStreaming && onMakeFlashcard && (
+              <button
+                onPointerDown={() => {
+                  selectionRef.current = getSelectedText(contentRef.current);
+                }}
+                onClick={handleMakeFlashcard}
+                className={cn(
+                  'rounded p-1 transition-colors text-gray-500',
+                  'hover:bg-gray-200 dark:hover:bg-gray-700',
+                  'focus:outline-none focus:ring-2 focus:ring-blue-500'
+                )}
+                title='Make a flashcard (select part of the message first to use just that passage)'
+                aria-label='Make a flashcard from this message or the selected passage'
+              >
+                <Layers size={14} />
+              </button>
+            )}
+            {/* Explain Differently Button (only for finished assistant messages) */}
+            {isAssistant && !isError && !isStreaming && onRequestVariant && (
+              <button
+                type='button'
+                onClick={() => setIsVariantMenuOpen((open) => !open)}
+                disabled={isWritingVariant}
+                className={cn(
+                  'rounded p-1 transition-colors',
+                  'hover:bg-gray-200 dark:hover:bg-gray-700',
+                  'focus:outline-none focus:ring-2 focus:ring-blue-500',
+                  'disabled:opacity-50',
+                  isVariantMenuOpen ? 'text-blue-500' : 'text-gray-500'
+                )}
+                title='Explain it differently'
+                aria-label='Explain it differently'
+                aria-expanded={isVariantMenuOpen}
+                aria-controls={variantMenuId}
+              >
+                <Lightbulb size={14} />
+              </button>
+            )}
           </div>
         </div>
+
+        {/* Ways to explain the reply again */}
+        {isVariantMenuOpen && !isStreaming && onRequestVariant && (
+          <div
+            id={variantMenuId}
+            className='mt-2 flex flex-wrap gap-2'
+            role='group'
+            aria-label='Explain it differently'
+          >
+            {VARIANT_KINDS.map((kind) => (
+              <button
+                key={kind}
+                type='button'
+                onClick={() => handleRequestVariant(kind)}
+                disabled={isWritingVariant}
+                className={cn(
+                  'rounded-full border px-3 py-1 text-xs',
+                  'border-gray-300 dark:border-gray-600',
+                  'hover:bg-gray-100 dark:hover:bg-gray-800',
+                  'disabled:opacity-50 disabled:cursor-not-allowed',
+                  'focus:outline-none focus:ring-2 focus:ring-blue-500'
+                )}
+                title={MESSAGE_VARIANTS[kind].description}
+              >
+                {MESSAGE_VARIANTS[kind].label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,236 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { FolderInput, X } from 'lucide-react';
+import { ChatSession, SessionOrganization } from '@/types';
+import { parseTags } from '@/lib/bookmarks';
+import { getFolders, parseFolderName } from '@/lib/session-folders';
+import { cn } from '@/lib/utils';
+
+interface OrganizeSessionsDialogProps {
+  /** Every session, for the list of folders */
+  sessions: ChatSession[];
+  sessionIds: string[];
+  onSave: (sessionIds: string[], changes: Partial<SessionOrganization>) => void;
+  onClose: () => void;
+}
+
+// Radio values: existing folders (or none, for the empty name) are prefixed
+// so that a folder can't be mistaken for "New folder…"
+const folderOption = (name: string) => `folder:${name}`;
+const NEW_FOLDER = 'new';
+
+const fieldClass =
+  'w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Move chats into a folder, and tag, pin or archive a single chat. This is
+ * also the keyboard alternative to dragging chats in the session list.
+ */
+export function OrganizeSessionsDialog({
+  sessions,
+  sessionIds,
+  onSave,
+  onClose,
+}: OrganizeSessionsDialogProps) {
+  const titleId = useId();
+  const targets = sessions.filter((session) => sessionIds.includes(session.id));
+  const single = targets.length === 1 ? targets[0] : undefined;
+  const folders = getFolders(sessions);
+  // Keep the folder the chats share, if they share one
+  const sharedFolder = targets.every(
+    (session) => session.folder === targets[0]?.folder
+  )
+    ? targets[0]?.folder ?? ''
+    : '';
+
+  const [folder, setFolder] = useState(folderOption(sharedFolder));
+  const [newFolder, setNewFolder] = useState('');
+  const [tags, setTags] = useState(single?.tags?.join(', ') ?? '');
+  const [pinned, setPinned] = useState(!!single?.pinned);
+  const [archived, setArchived] = useState(!!single?.archived);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const chosenFolder =
+    folder === NEW_FOLDER
+      ? parseFolderName(newFolder)
+      : folder.slice(folderOption('').length);
+  const canSave =
+    targets.length > 0 && (folder !== NEW_FOLDER || chosenFolder !== '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    onSave(
+      targets.map((session) => session.id),
+      single
+        ? {
+            folder: chosenFolder,
+            tags: parseTags(tags),
+            pinned: pinned && !archived,
+            archived,
+          }
+        : // Moving several chats files them like dropping them on a folder
+          { folder: chosenFolder, pinned: false, archived: false }
+    );
+    onClose();
+  };
+
+  const options = [
+    { value: folderOption(''), label: 'No folder' },
+    ...folders.map((name) => ({ value: folderOption(name), label: name })),
+    { value: NEW_FOLDER, label: 'New folder…' },
+  ];
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-lg max-h-full overflow-y-auto rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='sticky top-0 flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900'>
+          <div className='flex items-center gap-2 min-w-0'>
+            <FolderInput size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold truncate'>
+              {single
+                ? `Organize “${single.title}”`
+                : `Move ${targets.length} chats`}
+            </h2>
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close organize chats'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className='p-4 space-y-4'>
+          <fieldset>
+            <legend className='text-sm font-medium mb-2'>Folder</legend>
+            <div className='space-y-2'>
+              {options.map((option) => (
+                <label
+                  key={option.value}
+                  className={cn(
+                    'flex items-center gap-2 p-2 rounded border cursor-pointer text-sm',
+                    folder === option.value
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700'
+                  )}
+                >
+                  <input
+                    type='radio'
+                    name={`${titleId}-folder`}
+                    value={option.value}
+                    checked={folder === option.value}
+                    onChange={() => setFolder(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+            {folder === NEW_FOLDER && (
+              <div className='mt-2'>
+                <label
+                  htmlFor={`${titleId}-new-folder`}
+                  className='block text-xs font-medium mb-1'
+                >
+                  Folder name
+                </label>
+                <input
+                  id={`${titleId}-new-folder`}
+                  type='text'
+                  value={newFolder}
+                  onChange={(e) => setNewFolder(e.target.value)}
+                  placeholder='e.g. Biology, spring term'
+                  className={fieldClass}
+                  autoFocus
+                />
+              </div>
+            )}
+          </fieldset>
+
+          {single && (
+            <>
+              <div>
+                <label
+                  htmlFor={`${titleId}-tags`}
+                  className='block text-sm font-medium mb-1'
+                >
+                  Tags
+                </label>
+                <input
+                  id={`${titleId}-tags`}
+                  type='text'
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder='e.g. exam, homework'
+                  aria-describedby={`${titleId}-tags-hint`}
+                  className={fieldClass}
+                />
+                <p
+                  id={`${titleId}-tags-hint`}
+                  className='mt-1 text-xs text-gray-600 dark:text-gray-400'
+                >
+                  Separate tags with commas.
+                </p>
+              </div>
+              <div className='space-y-2 text-sm'>
+                <label className='flex items-center gap-2'>
+                  <input
+                    type='checkbox'
+                    checked={pinned && !archived}
+                    disabled={archived}
+                    onChange={(e) => setPinned(e.target.checked)}
+                  />
+                  Pin to the top of the list
+                </label>
+                <label className='flex items-center gap-2'>
+                  <input
+                    type='checkbox'
+                    checked={archived}
+                    onChange={(e) => setArchived(e.target.checked)}
+                  />
+                  Archive (hidden until you show archived chats)
+                </label>
+              </div>
+            </>
+          )}
+
+          <div className='flex justify-end gap-2'>
+            <button
+              type='button'
+              onClick={onClose}
+              className='px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              Cancel
+            </button>
+            <button
+              type='submit'
+              disabled={!canSave}
+              className='px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { cn, formatDuration } from '@/lib/utils';
+import { formatCost, formatTokens } from '@/lib/usage';
+import { UsageTotals } from '@/types';
 import {
   TrendingUp,
   MessageCircle,
@@ -13,6 +15,8 @@ import {
   ChevronDown,
   ChevronUp,
   Download,
+  Cpu,
+  ListChecks,
 } from 'lucide-react';
 
 interface ProgressTrackerProps {
@@ -253,6 +257,75 @@ export function ProgressTracker({ stats, className }: ProgressTrackerProps) {
             </div>
           </div>
 
+          {/* Quizzes */}
+          {stats.quizzes?.taken > 0 && (
+            <div className='flex items-center justify-between p-3 bg-gradient-to-r from-green-50 to-teal-50 dark:from-green-900/20 dark:to-teal-900/20 rounded-lg'>
+              <div className='flex items-center gap-2'>
+                <ListChecks size={16} className='text-green-600' />
+                <span className='font-medium'>Quizzes</span>
+              </div>
+              <div className='text-right'>
+                <div className='text-2xl font-bold text-green-600'>
+                  {Math.round(
+                    (stats.quizzes.correctAnswers /
+                      Math.max(stats.quizzes.questionsAnswered, 1)) *
+                      100
+                  )}
+                  %
+                </div>
+                <div className='text-xs text-gray-600 dark:text-gray-400'>
+                  correct over {stats.quizzes.taken}{' '}
+                  {stats.quizzes.taken === 1 ? 'quiz' : 'quizzes'}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* AI Usage */}
+          {stats.usage?.total && (
+            <div>
+              <h4 className='font-medium mb-2 flex items-center gap-2'>
+                <Cpu size={16} />
+                AI Usage
+              </h4>
+              <dl className='grid grid-cols-2 gap-2 text-sm'>
+                {[
+                  {
+                    label: 'Today',
+                    totals: stats.usage.byDay?.[
+                      new Date().toISOString().split('T')[0]
+                    ] as UsageTotals | undefined,
+                  },
+                  {
+                    label: 'All time',
+                    totals: stats.usage.total as UsageTotals,
+                  },
+                ].map(({ label, totals }) => (
+                  <div
+                    key={label}
+                    className='p-2 rounded-lg border bg-gray-50 dark:bg-gray-700/50'
+                  >
+                    <dt className='text-xs text-gray-600 dark:text-gray-400'>
+                      {label}
+                    </dt>
+                    <dd className='font-medium'>
+                      {formatTokens(
+                        (totals?.promptTokens ?? 0) +
+                          (totals?.completionTokens ?? 0)
+                      )}{' '}
+                      tokens
+                      {!!totals?.cost && (
+                        <span className='block text-xs text-gray-600 dark:text-gray-400'>
+                          about {formatCost(totals.cost)}
+                        </span>
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+
           {/* Motivational Message */}
           <div className='p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-center'>
             <p className='text-sm text-blue-800 dark:text-blue-200'>
@@ -0,0 +1,415 @@
+'use client';
+
+import { useEffect, useId, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  CheckCircle2,
+  ListChecks,
+  Loader2,
+  RotateCcw,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { ChatErrorCode, Quiz, QuizResult } from '@/types';
+import { CHAT_ERROR_INFO } from '@/lib/errors';
+import {
+  describeAnswer,
+  isCorrectAnswer,
+  QUIZ_QUESTION_TYPES,
+} from '@/lib/quiz';
+
+interface QuizPanelProps {
+  quiz: Quiz | null;
+  isGenerating: boolean;
+  errorCode: ChatErrorCode | null;
+  subject?: string;
+  /** Write a new quiz on the same chat */
+  onRetry: () => void;
+  onClose: () => void;
+  onComplete: (result: QuizResult) => void;
+}
+
+type Answer = number | boolean | string;
+
+const optionClass = (isSelected: boolean, isLocked: boolean) =>
+  cn(
+    'flex items-center gap-3 p-3 rounded-lg border transition-colors',
+    'focus-within:ring-2 focus-within:ring-blue-500',
+    isSelected
+      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+      : 'border-gray-200 dark:border-gray-700',
+    isLocked
+      ? 'cursor-default'
+      : 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800'
+  );
+
+/**
+ * A quiz on the current chat, one question at a time with feedback after
+ * each answer and a score at the end
+ */
+export function QuizPanel({
+  quiz,
+  isGenerating,
+  errorCode,
+  subject,
+  onRetry,
+  onClose,
+  onComplete,
+}: QuizPanelProps) {
+  const titleId = useId();
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const nextButtonRef = useRef<HTMLButtonElement>(null);
+
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState<Answer | null>(null);
+  const [results, setResults] = useState<boolean[]>([]);
+  const isChecked = results.length > index;
+  const isFinished = !!quiz && results.length === quiz.questions.length;
+
+  // Start again whenever a new quiz arrives
+  useEffect(() => {
+    setIndex(0);
+    setAnswer(null);
+    setResults([]);
+  }, [quiz?.id]);
+
+  // Move focus to each new question so screen readers read it out
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, [quiz?.id, index, isGenerating, errorCode]);
+
+  // After checking, focus the button that moves on
+  useEffect(() => {
+    if (isChecked) nextButtonRef.current?.focus();
+  }, [isChecked]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const question = quiz?.questions[index];
+
+  const checkAnswer = () => {
+    if (!question || answer === null || answer === '') return;
+    setResults([...results, isCorrectAnswer(question, answer)]);
+  };
+
+  const nextQuestion = () => {
+    if (!quiz) return;
+
+    if (index + 1 < quiz.questions.length) {
+      setIndex(index + 1);
+      setAnswer(null);
+      return;
+    }
+
+    onComplete({
+      quizId: quiz.id,
+      sessionId: quiz.sessionId,
+      subject,
+      correct: results.filter(Boolean).length,
+      total: quiz.questions.length,
+      completedAt: Date.now(),
+    });
+    setIndex(quiz.questions.length);
+  };
+
+  const renderBody = () => {
+    if (isGenerating) {
+      return (
+        <div className='flex flex-col items-center gap-3 py-10' role='status'>
+          <Loader2
+            size={28}
+            className='animate-spin text-blue-500'
+            aria-hidden='true'
+          />
+          <p ref={headingRef} tabIndex={-1} className='focus:outline-none'>
+            Writing your quiz...
+          </p>
+        </div>
+      );
+    }
+
+    if (errorCode) {
+      const info = CHAT_ERROR_INFO[errorCode];
+      return (
+        <div className='space-y-4 py-4' role='alert'>
+          <h3
+            ref={headingRef}
+            tabIndex={-1}
+            className='font-semibold focus:outline-none'
+          >
+            {info.title}
+          </h3>
+          <p className='text-sm text-gray-600 dark:text-gray-300'>
+            {info.message}
+          </p>
+          {info.action === 'retry' && (
+            <button
+              type='button'
+              onClick={onRetry}
+              className='flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+            >
+              <RotateCcw size={16} aria-hidden='true' />
+              Try again
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    if (!quiz) return null;
+
+    if (isFinished && index >= quiz.questions.length) {
+      const correct = results.filter(Boolean).length;
+      return (
+        <div className='space-y-4'>
+          <h3
+            ref={headingRef}
+            tabIndex={-1}
+            className='text-lg font-semibold focus:outline-none'
+          >
+            You got {correct} out of {quiz.questions.length}
+          </h3>
+          <p className='text-sm text-gray-600 dark:text-gray-300'>
+            {correct === quiz.questions.length
+              ? 'Every answer right - brilliant work!'
+              : correct >= quiz.questions.length / 2
+              ? 'Nice work! Have a look at the ones you missed.'
+              : 'Good effort! Ask the tutor about anything that was tricky.'}
+          </p>
+          <ol className='space-y-2'>
+            {quiz.questions.map((q, i) => (
+              <li
+                key={q.id}
+                className='flex items-start gap-2 p-2 rounded-lg border border-gray-200 dark:border-gray-700 text-sm'
+              >
+                {results[i] ? (
+                  <CheckCircle2
+                    size={18}
+                    className='shrink-0 text-green-600'
+                    aria-label='Correct'
+                  />
+                ) : (
+                  <XCircle
+                    size={18}
+                    className='shrink-0 text-red-600'
+                    aria-label='Incorrect'
+                  />
+                )}
+                <span>
+                  {q.question}
+                  {!results[i] && (
+                    <span className='block text-gray-600 dark:text-gray-400'>
+                      Answer: {describeAnswer(q)}
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <div className='flex flex-wrap gap-2'>
+            <button
+              type='button'
+              onClick={onRetry}
+              className='flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              <RotateCcw size={16} aria-hidden='true' />
+              New quiz
+            </button>
+            <button
+              type='button'
+              onClick={onClose}
+              className='px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+            >
+              Back to chat
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!question) return null;
+
+    const isCorrect = results[index];
+
+    return (
+      <form
+        className='space-y-4'
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (isChecked) {
+            nextQuestion();
+          } else {
+            checkAnswer();
+          }
+        }}
+      >
+        <div>
+          <p className='text-xs text-gray-600 dark:text-gray-400'>
+            {QUIZ_QUESTION_TYPES[question.type]}
+          </p>
+          <h3
+            ref={headingRef}
+            tabIndex={-1}
+            className='font-medium focus:outline-none'
+          >
+            <span className='sr-only'>
+              Question {index + 1} of {quiz.questions.length}:{' '}
+            </span>
+            {question.question}
+          </h3>
+        </div>
+
+        {question.type === 'short_answer' ? (
+          <div>
+            <label
+              htmlFor={`${titleId}-answer`}
+              className='block text-sm font-medium mb-2'
+            >
+              Your answer
+            </label>
+            <input
+              id={`${titleId}-answer`}
+              type='text'
+              autoComplete='off'
+              value={typeof answer === 'string' ? answer : ''}
+              onChange={(e) => setAnswer(e.target.value)}
+              readOnly={isChecked}
+              className='w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            />
+          </div>
+        ) : (
+          <fieldset className='space-y-2'>
+            <legend className='sr-only'>{question.question}</legend>
+            {(question.type === 'multiple_choice'
+              ? question.options.map((option, i) => ({
+                  label: option,
+                  value: i as Answer,
+                }))
+              : [
+                  { label: 'True', value: true as Answer },
+                  { label: 'False', value: false as Answer },
+                ]
+            ).map(({ label, value }) => (
+              <label
+                key={String(value)}
+                className={optionClass(answer === value, isChecked)}
+              >
+                <input
+                  type='radio'
+                  name={`${titleId}-${question.id}`}
+                  checked={answer === value}
+                  onChange={() => setAnswer(value)}
+                  disabled={isChecked}
+                  className='focus:outline-none'
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        <div role='status' aria-live='polite'>
+          {isChecked && (
+            <div
+              className={cn(
+                'p-3 rounded-lg border text-sm',
+                isCorrect
+                  ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                  : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
+              )}
+            >
+              <p className='flex items-center gap-2 font-medium'>
+                {isCorrect ? (
+                  <CheckCircle2
+                    size={16}
+                    className='text-green-600'
+                    aria-hidden='true'
+                  />
+                ) : (
+                  <XCircle
+                    size={16}
+                    className='text-amber-600'
+                    aria-hidden='true'
+                  />
+                )}
+                {isCorrect
+                  ? 'Correct!'
+                  : `Not quite. The answer is: ${describeAnswer(question)}`}
+              </p>
+              {question.explanation && (
+                <p className='mt-1'>{question.explanation}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {isChecked ? (
+          <button
+            ref={nextButtonRef}
+            type='submit'
+            className='px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+          >
+            {index + 1 < quiz.questions.length
+              ? 'Next question'
+              : 'See my score'}
+          </button>
+        ) : (
+          <button
+            type='submit'
+            disabled={answer === null || answer === ''}
+            className='px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+          >
+            Check answer
+          </button>
+        )}
+      </form>
+    );
+  };
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-lg max-h-full overflow-y-auto rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='sticky top-0 flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900'>
+          <div className='flex items-center gap-2'>
+            <ListChecks size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold'>
+              Quiz
+            </h2>
+            {quiz && index < quiz.questions.length && (
+              <span
+                className='text-sm text-gray-600 dark:text-gray-400'
+                aria-hidden='true'
+              >
+                {index + 1} of {quiz.questions.length}
+              </span>
+            )}
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close quiz'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className='p-4'>{renderBody()}</div>
+      </div>
+    </div>
+  );
+}
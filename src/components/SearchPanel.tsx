@@ -0,0 +1,385 @@
+'use client';
+
+import {
+  useDeferredValue,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Search, X } from 'lucide-react';
+import { useChatContext } from '@/contexts/ChatContext';
+import { buildSearchIndex, SearchResult, searchMessages } from '@/lib/search';
+import { getSubject } from '@/lib/subjects';
+import { cn, formatTimestamp } from '@/lib/utils';
+import { DifficultyLevel } from '@/types';
+
+interface SearchPanelProps {
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+// Wait for a pause in typing before announcing the number of results
+const ANNOUNCE_DELAY = 600;
+
+const DIFFICULTIES: { value: DifficultyLevel; label: string }[] = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+];
+
+const fieldClass =
+  'w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Dates from date inputs are local days; `to` includes the whole day
+const startOfDay = (value: string) =>
+  value ? new Date(`${value}T00:00`).getTime() : undefined;
+const endOfDay = (value: string) =>
+  value
+    ? new Date(`${value}T00:00`).getTime() + 24 * 60 * 60 * 1000
+    : undefined;
+
+/**
+ * Search every message in every chat, then jump to the one you meant
+ */
+export function SearchPanel({ onClose }: SearchPanelProps) {
+  const { sessions, loadSession } = useChatContext();
+  const titleId = useId();
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [subject, setSubject] = useState('');
+  const [difficulty, setDifficulty] = useState<DifficultyLevel | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [bookmarked, setBookmarked] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [announcement, setAnnouncement] = useState('');
+
+  const index = useMemo(
+    () => buildSearchIndex(Array.isArray(sessions) ? sessions : []),
+    [sessions]
+  );
+  const deferredQuery = useDeferredValue(query);
+  const results = useMemo(
+    () =>
+      searchMessages(index, deferredQuery, {
+        subject: subject || undefined,
+        difficulty: difficulty || undefined,
+        from: startOfDay(from),
+        to: endOfDay(to),
+        bookmarked,
+      }),
+    [index, deferredQuery, subject, difficulty, from, to, bookmarked]
+  );
+  const shown = results.slice(0, MAX_RESULTS);
+  const subjects = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          (Array.isArray(sessions) ? sessions : [])
+            .map((session) => session.subject)
+            .filter(Boolean)
+        )
+      ) as string[],
+    [sessions]
+  );
+  const hasQuery = deferredQuery.trim() !== '';
+
+  useEffect(() => {
+    searchRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // A new search starts again from the best result
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setAnnouncement(
+        !hasQuery
+          ? ''
+          : results.length === 0
+          ? 'No messages found'
+          : `${results.length} ${
+              results.length === 1 ? 'message' : 'messages'
+            } found`
+      );
+    }, ANNOUNCE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [results, hasQuery]);
+
+  // Keep the highlighted result in view while moving with the arrow keys
+  useEffect(() => {
+    document
+      .getElementById(`${titleId}-result-${activeIndex}`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex, titleId]);
+
+  const openResult = (result: SearchResult) => {
+    loadSession(result.session.id, result.message.id);
+    onClose();
+  };
+
+  const handleSearchKeyDown = (event: React.KeyboardEvent) => {
+    if (shown.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((current) => (current + 1) % shown.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((current) => (current - 1 + shown.length) % shown.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      openResult(shown[activeIndex] ?? shown[0]);
+    }
+  };
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-2xl max-h-full flex flex-col rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700'>
+          <div className='flex items-center gap-2'>
+            <Search size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold'>
+              Search chats
+            </h2>
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close search'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className='p-4 space-y-3 border-b border-gray-200 dark:border-gray-700'>
+          <div>
+            <label htmlFor={`${titleId}-search`} className='sr-only'>
+              Search all messages
+            </label>
+            <input
+              ref={searchRef}
+              id={`${titleId}-search`}
+              type='search'
+              role='combobox'
+              aria-expanded={shown.length > 0}
+              aria-controls={`${titleId}-results`}
+              aria-activedescendant={
+                shown.length > 0
+                  ? `${titleId}-result-${activeIndex}`
+                  : undefined
+              }
+              aria-describedby={`${titleId}-hint`}
+              autoComplete='off'
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              placeholder='Search every message, e.g. mitochondria'
+              className={fieldClass}
+            />
+            <p
+              id={`${titleId}-hint`}
+              className='mt-1 text-xs text-gray-600 dark:text-gray-400'
+            >
+              Use the up and down arrow keys to choose a result and Enter to
+              open it.
+            </p>
+          </div>
+          <div className='grid grid-cols-2 sm:grid-cols-4 gap-2'>
+            <div>
+              <label
+                htmlFor={`${titleId}-subject`}
+                className='block text-xs font-medium mb-1'
+              >
+                Subject
+              </label>
+              <select
+                id={`${titleId}-subject`}
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                className={fieldClass}
+              >
+                <option value=''>All subjects</option>
+                {subjects.map((id) => (
+                  <option key={id} value={id}>
+                    {getSubject(id)?.name ?? id}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor={`${titleId}-difficulty`}
+                className='block text-xs font-medium mb-1'
+              >
+                Level
+              </label>
+              <select
+                id={`${titleId}-difficulty`}
+                value={difficulty}
+                onChange={(e) =>
+                  setDifficulty(e.target.value as DifficultyLevel | '')
+                }
+                className={fieldClass}
+              >
+                <option value=''>All levels</option>
+                {DIFFICULTIES.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor={`${titleId}-from`}
+                className='block text-xs font-medium mb-1'
+              >
+                From
+              </label>
+              <input
+                id={`${titleId}-from`}
+                type='date'
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor={`${titleId}-to`}
+                className='block text-xs font-medium mb-1'
+              >
+                To
+              </label>
+              <input
+                id={`${titleId}-to`}
+                type='date'
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                className={fieldClass}
+              />
+            </div>
+          </div>
+          <label className='flex items-center gap-2 text-sm'>
+            <input
+              type='checkbox'
+              checked={bookmarked}
+              onChange={(e) => setBookmarked(e.target.checked)}
+            />
+            Only bookmarked messages
+          </label>
+        </div>
+
+        <p role='status' className='sr-only'>
+          {announcement}
+        </p>
+
+        {/* Results */}
+        <div className='flex-1 overflow-y-auto p-4'>
+          {!hasQuery ? (
+            <p className='text-center text-sm text-gray-600 dark:text-gray-400 py-8'>
+              Type a word you remember from the chat.
+            </p>
+          ) : shown.length === 0 ? (
+            <p className='text-center text-sm text-gray-600 dark:text-gray-400 py-8'>
+              No messages match. Try another word or fewer filters.
+            </p>
+          ) : (
+            <>
+              <p
+                className='mb-2 text-xs text-gray-600 dark:text-gray-400'
+                aria-hidden='true'
+              >
+                {results.length > shown.length
+                  ? `Showing the best ${shown.length} of ${results.length} messages`
+                  : `${results.length} ${
+                      results.length === 1 ? 'message' : 'messages'
+                    }`}
+              </p>
+              <ul
+                id={`${titleId}-results`}
+                role='listbox'
+                aria-label='Search results'
+                className='space-y-2'
+              >
+                {shown.map((result, resultIndex) => (
+                  <li
+                    key={`${result.session.id}-${result.message.id}`}
+                    id={`${titleId}-result-${resultIndex}`}
+                    role='option'
+                    aria-selected={resultIndex === activeIndex}
+                    onClick={() => openResult(result)}
+                    onMouseMove={() => setActiveIndex(resultIndex)}
+                    className={cn(
+                      'p-3 rounded-lg border cursor-pointer',
+                      resultIndex === activeIndex
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                        : 'border-gray-200 dark:border-gray-700'
+                    )}
+                  >
+                    <div className='flex flex-wrap items-center gap-x-2 text-xs text-gray-600 dark:text-gray-400'>
+                      <span className='font-medium text-gray-900 dark:text-gray-100'>
+                        {result.session.title || 'Untitled chat'}
+                      </span>
+                      {result.session.subject && (
+                        <span>
+                          {getSubject(result.session.subject)?.name ??
+                            result.session.subject}
+                        </span>
+                      )}
+                      <span>{formatTimestamp(result.message.timestamp)}</span>
+                      {result.message.isBookmarked && <span>Bookmarked</span>}
+                    </div>
+                    <p className='mt-1 text-sm'>
+                      <span className='font-medium'>
+                        {result.message.role === 'user' ? 'You' : 'Tutor'}:{' '}
+                      </span>
+                      {result.snippet.map((part, partIndex) =>
+                        part.match ? (
+                          <mark
+                            key={partIndex}
+                            className='bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded-sm'
+                          >
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={partIndex}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
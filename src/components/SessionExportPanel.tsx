@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { FileDown, X } from 'lucide-react';
+import { ChatSession } from '@/types';
+import { useBookmarks } from '@/hooks/useLocal';
+import { describeDiagram } from '@/lib/diagrams';
+import {
+  EXPORT_REHYPE_PLUGINS,
+  getDiagram,
+  REMARK_PLUGINS,
+} from '@/lib/markdown';
+import { prepareMath } from '@/lib/math';
+import {
+  SESSION_EXPORT_FORMATS,
+  SessionExportFormat,
+  sessionExportFilename,
+  sessionsToHtml,
+  sessionsToMarkdown,
+} from '@/lib/session-export';
+import { getSubject } from '@/lib/subjects';
+import { cn, downloadFile, formatTimestamp, printDocument } from '@/lib/utils';
+
+interface SessionExportPanelProps {
+  sessions: ChatSession[];
+  /** Chats ticked when the panel opens; all of them if not given */
+  selectedIds?: string[];
+  onClose: () => void;
+}
+
+/**
+ * A tutor reply as static HTML, through the same Markdown, math and code
+ * highlighting as the chat, with math as MathML. Diagrams can't be drawn
+ * without the app, so they are kept as their source with a description in
+ * words.
+ */
+function renderReply(markdown: string): string {
+  return renderToStaticMarkup(
+    <ReactMarkdown
+      remarkPlugins={REMARK_PLUGINS}
+      rehypePlugins={EXPORT_REHYPE_PLUGINS}
+      components={{
+        pre: ({ node, ...props }) => {
+          const diagram = getDiagram(node);
+          if (!diagram) return <pre {...props} />;
+
+          return (
+            <figure>
+              <pre>
+                <code>{diagram.source}</code>
+              </pre>
+              <figcaption>
+                {describeDiagram(diagram.language, diagram.source)}
+              </figcaption>
+            </figure>
+          );
+        },
+      }}
+    >
+      {prepareMath(markdown)}
+    </ReactMarkdown>
+  );
+}
+
+/**
+ * Choose chats and save them as Markdown or a web page, or print them
+ */
+export function SessionExportPanel({
+  sessions,
+  selectedIds,
+  onClose,
+}: SessionExportPanelProps) {
+  const titleId = useId();
+  const [notes] = useBookmarks();
+  const [selected, setSelected] = useState(
+    () => new Set(selectedIds ?? sessions.map((session) => session.id))
+  );
+  const [format, setFormat] = useState<SessionExportFormat>('html');
+
+  const chosen = sessions.filter((session) => selected.has(session.id));
+  const allSelected = sessions.length > 0 && chosen.length === sessions.length;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toggleSession = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    if (chosen.length === 0) return;
+
+    if (format === 'markdown') {
+      downloadFile(
+        sessionsToMarkdown(chosen, notes),
+        sessionExportFilename(chosen, 'markdown'),
+        'text/markdown'
+      );
+    } else if (format === 'html') {
+      downloadFile(
+        sessionsToHtml(chosen, notes, { layout: 'screen', renderReply }),
+        sessionExportFilename(chosen, 'html'),
+        'text/html'
+      );
+    } else {
+      printDocument(
+        sessionsToHtml(chosen, notes, { layout: 'print', renderReply })
+      );
+    }
+  };
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-lg max-h-full overflow-y-auto rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='sticky top-0 flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900'>
+          <div className='flex items-center gap-2'>
+            <FileDown size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold'>
+              Export chats
+            </h2>
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close export'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className='p-4 space-y-5'>
+          <fieldset>
+            <legend className='font-medium mb-2'>Chats</legend>
+            <label className='flex items-center gap-2 p-2 text-sm font-medium'>
+              <input
+                type='checkbox'
+                checked={allSelected}
+                onChange={() =>
+                  setSelected(
+                    new Set(
+                      allSelected ? [] : sessions.map((session) => session.id)
+                    )
+                  )
+                }
+              />
+              Select all ({sessions.length})
+            </label>
+            <ul className='max-h-60 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700'>
+              {sessions.map((session) => (
+                <li key={session.id}>
+                  <label className='flex items-start gap-2 p-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800'>
+                    <input
+                      type='checkbox'
+                      checked={selected.has(session.id)}
+                      onChange={() => toggleSession(session.id)}
+                      className='mt-1'
+                    />
+                    <span className='min-w-0'>
+                      <span className='block text-sm truncate'>
+                        {session.title || 'Untitled chat'}
+                      </span>
+                      <span className='block text-xs text-gray-600 dark:text-gray-400'>
+                        {[
+                          getSubject(session.subject)?.name,
+                          formatTimestamp(session.updatedAt),
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </span>
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </fieldset>
+
+          <fieldset className='space-y-2'>
+            <legend className='font-medium mb-2'>Format</legend>
+            {(Object.keys(SESSION_EXPORT_FORMATS) as SessionExportFormat[]).map(
+              (value) => (
+                <label
+                  key={value}
+                  className={cn(
+                    'flex items-start gap-2 p-2 rounded-lg border cursor-pointer',
+                    format === value
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700'
+                  )}
+                >
+                  <input
+                    type='radio'
+                    name='export-format'
+                    value={value}
+                    checked={format === value}
+                    onChange={() => setFormat(value)}
+                    className='mt-1'
+                  />
+                  <span>
+                    <span className='block text-sm font-medium'>
+                      {SESSION_EXPORT_FORMATS[value].label}
+                    </span>
+                    <span className='block text-xs text-gray-600 dark:text-gray-400'>
+                      {SESSION_EXPORT_FORMATS[value].description}
+                    </span>
+                  </span>
+                </label>
+              )
+            )}
+          </fieldset>
+        </div>
+
+        <div className='sticky bottom-0 p-4 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900'>
+          <button
+            type='button'
+            onClick={handleExport}
+            disabled={chosen.length === 0}
+            className='w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+          >
+            <FileDown size={16} aria-hidden='true' />
+            {format === 'print' ? 'Print' : 'Export'}{' '}
+            {chosen.length === 1 ? '1 chat' : `${chosen.length} chats`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
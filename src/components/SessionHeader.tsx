@@ -0,0 +1,398 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  ListChecks,
+  NotebookText,
+  SlidersHorizontal,
+  X,
+  RotateCcw,
+} from 'lucide-react';
+import {
+  ChatSession,
+  GenerationSettings,
+  ResponseLength,
+  ResponseStyle,
+  TutoringMode,
+} from '@/types';
+import {
+  DEFAULT_RESPONSE_LENGTH,
+  DEFAULT_TEMPERATURE,
+  GENERATION_PRESETS,
+  RESPONSE_LENGTHS,
+  RESPONSE_STYLES,
+  TEMPERATURE_RANGE,
+} from '@/lib/generation';
+import { DEFAULT_TUTORING_MODE, TUTORING_MODES } from '@/lib/tutoring';
+
+interface SessionHeaderProps {
+  session: ChatSession;
+  onSettingsChange: (settings: GenerationSettings) => void;
+  onTutoringModeChange: (mode: TutoringMode) => void;
+  /** Start a quiz on the chat so far; the button is hidden without it */
+  onQuiz?: () => void;
+  /** Write or open study notes on the chat; the button is hidden without it */
+  onSummarize?: () => void;
+  className?: string;
+}
+
+/**
+ * Whether two settings objects describe the same choices
+ */
+function sameSettings(a: GenerationSettings, b: GenerationSettings): boolean {
+  return (
+    a.model === b.model &&
+    a.temperature === b.temperature &&
+    a.length === b.length &&
+    a.style === b.style
+  );
+}
+
+/**
+ * Describe the temperature in words, for the slider and screen readers
+ */
+function describeTemperature(temperature: number): string {
+  if (temperature <= 0.3) return 'Focused';
+  if (temperature <= 0.8) return 'Balanced';
+  return 'Creative';
+}
+
+/**
+ * Title bar for the open chat, with its tutoring mode and a panel for the
+ * session's generation settings (model, temperature, reply length and style)
+ */
+export function SessionHeader({
+  session,
+  onSettingsChange,
+  onTutoringModeChange,
+  onQuiz,
+  onSummarize,
+  className,
+}: SessionHeaderProps) {
+  const tutoringMode = session.tutoringMode ?? DEFAULT_TUTORING_MODE;
+  const canQuiz = session.messages.some(
+    (message) => message.role === 'assistant' && !message.isError
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [models, setModels] = useState<string[]>([]);
+  const panelId = useId();
+
+  const settings = session.settings ?? {};
+  const temperature = settings.temperature ?? DEFAULT_TEMPERATURE;
+  const length = settings.length ?? DEFAULT_RESPONSE_LENGTH;
+  const style = settings.style ?? 'balanced';
+  const activePreset = GENERATION_PRESETS.find((preset) =>
+    sameSettings({ model: settings.model, ...preset.settings }, settings)
+  );
+
+  // Only offer a model choice when the server allows more than one
+  useEffect(() => {
+    if (!isExpanded || models.length > 0) return;
+
+    fetch('/api/models')
+      .then((response) => response.json())
+      .then((data) => {
+        if (Array.isArray(data?.models)) setModels(data.models);
+      })
+      .catch(() => {
+        // Keep the default model
+      });
+  }, [isExpanded, models.length]);
+
+  const updateSetting = <K extends keyof GenerationSettings>(
+    key: K,
+    value: GenerationSettings[K]
+  ) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  const summary = [
+    activePreset?.label,
+    RESPONSE_LENGTHS[length].label,
+    RESPONSE_STYLES[style].label,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <div
+      className={cn(
+        'border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-4 py-2',
+        className
+      )}
+    >
+      <div className='max-w-3xl mx-auto flex items-center justify-between gap-3'>
+        <h2 className='font-medium truncate' title={session.title}>
+          {session.title}
+        </h2>
+
+        <div className='flex shrink-0 items-center gap-2'>
+          <label htmlFor={`${panelId}-mode`} className='sr-only'>
+            Tutoring mode
+          </label>
+          <select
+            id={`${panelId}-mode`}
+            value={tutoringMode}
+            onChange={(e) =>
+              onTutoringModeChange(e.target.value as TutoringMode)
+            }
+            className={cn(
+              'rounded-lg border px-2 py-1.5 text-sm',
+              'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800',
+              'focus:outline-none focus:ring-2 focus:ring-blue-500'
+            )}
+            title={TUTORING_MODES[tutoringMode].description}
+          >
+            {Object.entries(TUTORING_MODES).map(([value, option]) => (
+              <option key={value} value={value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          {onQuiz && (
+            <button
+              type='button'
+              onClick={onQuiz}
+              disabled={!canQuiz}
+              className={cn(
+                'flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm',
+                'border-gray-200 dark:border-gray-700',
+                'hover:bg-gray-50 dark:hover:bg-gray-700',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                'focus:outline-none focus:ring-2 focus:ring-blue-500',
+                'transition-colors'
+              )}
+              title={
+                canQuiz
+                  ? 'Test yourself on what you just covered'
+                  : 'Ask the tutor something first, then take a quiz on it'
+              }
+            >
+              <ListChecks size={16} aria-hidden='true' />
+              Quiz me
+            </button>
+          )}
+
+          {onSummarize && (
+            <button
+              type='button'
+              onClick={onSummarize}
+              disabled={!canQuiz}
+              className={cn(
+                'flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm',
+                'border-gray-200 dark:border-gray-700',
+                'hover:bg-gray-50 dark:hover:bg-gray-700',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                'focus:outline-none focus:ring-2 focus:ring-blue-500',
+                'transition-colors'
+              )}
+              title={
+                canQuiz
+                  ? 'Key ideas, words to know and next steps from this chat'
+                  : 'Ask the tutor something first, then summarize it'
+              }
+            >
+              <NotebookText size={16} aria-hidden='true' />
+              <span className='sr-only sm:not-sr-only'>
+                {session.studyNotes ? 'Study notes' : 'Summarize this session'}
+              </span>
+            </button>
+          )}
+
+          <button
+            type='button'
+            onClick={() => setIsExpanded(!isExpanded)}
+            className={cn(
+              'flex shrink-0 items-center gap-2 rounded-lg border px-3 py-1.5 text-sm',
+              'border-gray-200 dark:border-gray-700',
+              'hover:bg-gray-50 dark:hover:bg-gray-700',
+              'focus:outline-none focus:ring-2 focus:ring-blue-500',
+              'transition-colors'
+            )}
+            aria-expanded={isExpanded}
+            aria-controls={panelId}
+          >
+            <SlidersHorizontal size={16} aria-hidden='true' />
+            <span className='hidden sm:inline'>{summary}</span>
+            <span className='sr-only'>Answer settings: {summary}</span>
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <section
+          id={panelId}
+          className='max-w-3xl mx-auto mt-3 mb-1 space-y-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4'
+          aria-label='Answer settings for this chat'
+        >
+          <div className='flex items-center justify-between'>
+            <h3 className='font-semibold'>Answer settings for this chat</h3>
+            <button
+              type='button'
+              onClick={() => setIsExpanded(false)}
+              className='p-1.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              aria-label='Close answer settings'
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          {/* Presets */}
+          <fieldset>
+            <legend className='block text-sm font-medium mb-2'>Presets</legend>
+            <div className='flex flex-wrap gap-2'>
+              {GENERATION_PRESETS.map((preset) => (
+                <button
+                  key={preset.id}
+                  type='button'
+                  onClick={() =>
+                    onSettingsChange({
+                      model: settings.model,
+                      ...preset.settings,
+                    })
+                  }
+                  className={cn(
+                    'px-3 py-2 rounded text-sm border text-left transition-colors',
+                    'focus:outline-none focus:ring-2 focus:ring-blue-500',
+                    activePreset?.id === preset.id
+                      ? 'bg-blue-500 text-white border-blue-500'
+                      : 'bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600'
+                  )}
+                  aria-pressed={activePreset?.id === preset.id}
+                >
+                  <span className='block font-medium'>{preset.label}</span>
+                  <span className='block text-xs opacity-80'>
+                    {preset.description}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          {/* Model */}
+          {models.length > 1 && (
+            <div>
+              <label
+                htmlFor={`${panelId}-model`}
+                className='block text-sm font-medium mb-2'
+              >
+                Model
+              </label>
+              <select
+                id={`${panelId}-model`}
+                value={settings.model ?? models[0]}
+                onChange={(e) =>
+                  updateSetting(
+                    'model',
+                    e.target.value === models[0] ? undefined : e.target.value
+                  )
+                }
+                className='w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              >
+                {models.map((model, index) => (
+                  <option key={model} value={model}>
+                    {index === 0 ? `${model} (default)` : model}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Temperature */}
+          <div>
+            <label
+              htmlFor={`${panelId}-temperature`}
+              className='block text-sm font-medium mb-2'
+            >
+              Creativity: {describeTemperature(temperature)} (
+              {temperature.toFixed(1)})
+            </label>
+            <input
+              id={`${panelId}-temperature`}
+              type='range'
+              min={TEMPERATURE_RANGE.min}
+              max={TEMPERATURE_RANGE.max}
+              step={TEMPERATURE_RANGE.step}
+              value={temperature}
+              onChange={(e) =>
+                updateSetting('temperature', Number(e.target.value))
+              }
+              aria-valuetext={`${describeTemperature(
+                temperature
+              )}, ${temperature.toFixed(1)}`}
+              className='w-full'
+            />
+            <div className='flex justify-between text-xs text-gray-500 dark:text-gray-400'>
+              <span>Focused</span>
+              <span>Creative</span>
+            </div>
+          </div>
+
+          {/* Length */}
+          <fieldset>
+            <legend className='block text-sm font-medium mb-2'>
+              Answer length
+            </legend>
+            <div className='flex gap-2'>
+              {Object.entries(RESPONSE_LENGTHS).map(([value, option]) => (
+                <button
+                  key={value}
+                  type='button'
+                  onClick={() =>
+                    updateSetting('length', value as ResponseLength)
+                  }
+                  className={cn(
+                    'flex-1 px-3 py-2 rounded text-sm border transition-colors',
+                    'focus:outline-none focus:ring-2 focus:ring-blue-500',
+                    length === value
+                      ? 'bg-blue-500 text-white border-blue-500'
+                      : 'bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600'
+                  )}
+                  aria-pressed={length === value}
+                  title={option.description}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          {/* Style */}
+          <div>
+            <label
+              htmlFor={`${panelId}-style`}
+              className='block text-sm font-medium mb-2'
+            >
+              Answer style
+            </label>
+            <select
+              id={`${panelId}-style`}
+              value={style}
+              onChange={(e) =>
+                updateSetting('style', e.target.value as ResponseStyle)
+              }
+              className='w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              {Object.entries(RESPONSE_STYLES).map(([value, option]) => (
+                <option key={value} value={value}>
+                  {option.label} - {option.description}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            type='button'
+            onClick={() => onSettingsChange({})}
+            className='flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded'
+          >
+            <RotateCcw size={14} aria-hidden='true' />
+            Reset to defaults
+          </button>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,641 @@
+'use client';
+
+import { ReactNode, useMemo, useState } from 'react';
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronDown,
+  ChevronRight,
+  FileDown,
+  FolderInput,
+  MessageSquareIcon,
+  NotebookText,
+  Pencil,
+  Pin,
+  PinOff,
+  TrashIcon,
+} from 'lucide-react';
+import { ChatSession, SessionOrganization } from '@/types';
+import { getSessionTags, groupSessions } from '@/lib/session-folders';
+import { cn, formatTimestamp, truncateText } from '@/lib/utils';
+
+interface SessionListProps {
+  sessions: ChatSession[];
+  currentSessionId: string | null;
+  onOpen: (sessionId: string) => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionIds: string[]) => void;
+  onUpdate: (
+    sessionIds: string[],
+    changes: Partial<SessionOrganization>
+  ) => void;
+  /** Choose a folder and tags without dragging */
+  onOrganize: (sessionIds: string[]) => void;
+  onExport: (sessionIds: string[]) => void;
+  onOpenNotes: (sessionId: string) => void;
+}
+
+// Dragged sessions, as a JSON array of ids
+const DRAG_TYPE = 'application/x-studypal-sessions';
+
+const rowButtonClass =
+  'p-1 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-opacity focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const bulkButtonClass =
+  'flex items-center gap-1 px-2 py-1 rounded border border-gray-200 dark:border-gray-600 text-xs hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const countChats = (count: number) =>
+  `${count} ${count === 1 ? 'chat' : 'chats'}`;
+
+/**
+ * The chat history: pinned chats, then folders, then everything else, with
+ * archived chats on request. Chats can be dragged between sections, or
+ * filed with the "Move or tag" button from the keyboard, and selected for
+ * moving, exporting or deleting several at once.
+ */
+export function SessionList({
+  sessions,
+  currentSessionId,
+  onOpen,
+  onRename,
+  onDelete,
+  onUpdate,
+  onOrganize,
+  onExport,
+  onOpenNotes,
+}: SessionListProps) {
+  const [tag, setTag] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [sessionTitle, setSessionTitle] = useState('');
+  const [status, setStatus] = useState('');
+
+  const tags = useMemo(() => getSessionTags(sessions), [sessions]);
+  const groups = useMemo(
+    () => groupSessions(sessions, { tag: tag || undefined }),
+    [sessions, tag]
+  );
+  const visible = [
+    ...groups.pinned,
+    ...groups.folders.flatMap((folder) => folder.sessions),
+    ...groups.unfiled,
+    ...(showArchived ? groups.archived : []),
+  ];
+  const selected = visible.filter((session) => selectedIds.has(session.id));
+  const allSelectedArchived =
+    selected.length > 0 && selected.every((session) => session.archived);
+
+  const update = (
+    ids: string[],
+    changes: Partial<SessionOrganization>,
+    message: string
+  ) => {
+    onUpdate(ids, changes);
+    setStatus(message);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+    setConfirmDelete(false);
+  };
+
+  const runBulk = (action: (ids: string[]) => void) => {
+    action(selected.map((session) => session.id));
+    setSelectedIds(new Set());
+    setConfirmDelete(false);
+  };
+
+  const saveSessionTitle = (id: string, e: React.FormEvent) => {
+    e.preventDefault();
+    onRename(id, sessionTitle);
+    setEditingSessionId(null);
+  };
+
+  const toggleCollapsed = (name: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const renderSession = (session: ChatSession) => {
+    const isCurrent = session.id === currentSessionId;
+    const isSelected = selectedIds.has(session.id);
+
+    return (
+      <li
+        key={session.id}
+        draggable={editingSessionId !== session.id}
+        onDragStart={(e) => {
+          // Dragging one of the selected chats moves all of them
+          const ids =
+            isSelecting && isSelected
+              ? selected.map((item) => item.id)
+              : [session.id];
+          e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(ids));
+          e.dataTransfer.effectAllowed = 'move';
+          setIsDragging(true);
+        }}
+        onDragEnd={() => {
+          setIsDragging(false);
+          setDropKey(null);
+        }}
+        onClick={() =>
+          isSelecting ? toggleSelected(session.id) : onOpen(session.id)
+        }
+        className={cn(
+          'w-full flex items-start gap-3 p-3 rounded-lg text-left transition-colors cursor-pointer group',
+          isCurrent
+            ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+            : 'hover:bg-gray-100 dark:hover:bg-gray-700',
+          isSelecting && isSelected && 'ring-2 ring-blue-500'
+        )}
+      >
+        {isSelecting ? (
+          <input
+            type='checkbox'
+            checked={isSelected}
+            onChange={() => toggleSelected(session.id)}
+            onClick={(e) => e.stopPropagation()}
+            className='mt-1'
+            aria-label={`Select ${session.title}`}
+          />
+        ) : session.pinned ? (
+          <Pin
+            size={18}
+            className='text-amber-600 dark:text-amber-400'
+            aria-label='Pinned'
+          />
+        ) : (
+          <MessageSquareIcon
+            size={18}
+            className={
+              isCurrent
+                ? 'text-blue-600 dark:text-blue-400'
+                : 'text-gray-500 dark:text-gray-400'
+            }
+          />
+        )}
+
+        {editingSessionId === session.id ? (
+          <form
+            onSubmit={(e) => saveSessionTitle(session.id, e)}
+            className='flex-1 min-w-0'
+            onClick={(e) => e.stopPropagation()}
+          >
+            <input
+              type='text'
+              value={sessionTitle}
+              onChange={(e) => setSessionTitle(e.target.value)}
+              className='w-full p-1 text-sm border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700'
+              autoFocus
+              onBlur={() => setEditingSessionId(null)}
+            />
+          </form>
+        ) : (
+          <div className='flex-1 min-w-0'>
+            <h4 className='font-medium truncate'>
+              {truncateText(session.title, 30)}
+            </h4>
+            <p className='text-xs text-gray-500 dark:text-gray-400'>
+              {formatTimestamp(session.updatedAt)}
+            </p>
+            {session.tags && session.tags.length > 0 && (
+              <ul className='mt-1 flex flex-wrap gap-1' aria-label='Tags'>
+                {session.tags.map((sessionTag) => (
+                  <li
+                    key={sessionTag}
+                    className='px-1.5 rounded bg-gray-200 dark:bg-gray-700 text-xs text-gray-700 dark:text-gray-300'
+                  >
+                    #{sessionTag}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {session.studyNotes && !isSelecting && (
+              <button
+                type='button'
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onOpenNotes(session.id);
+                }}
+                className='mt-2 w-full rounded border border-gray-200 dark:border-gray-600 bg-white/60 dark:bg-gray-900/40 p-2 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                aria-label={`Open study notes for ${session.title}`}
+              >
+                <span className='flex items-center gap-1 font-medium'>
+                  <NotebookText size={12} aria-hidden='true' />
+                  Study notes
+                </span>
+                <span className='mt-1 block line-clamp-2'>
+                  {session.studyNotes.keyConcepts[0]}
+                </span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {!isSelecting && (
+          <div className='flex items-center'>
+            {!session.archived && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  update(
+                    [session.id],
+                    { pinned: !session.pinned },
+                    session.pinned ? 'Chat unpinned' : 'Chat pinned'
+                  );
+                }}
+                className={cn(rowButtonClass, 'mr-1')}
+                aria-label={session.pinned ? 'Unpin chat' : 'Pin chat'}
+              >
+                {session.pinned ? (
+                  <PinOff
+                    size={14}
+                    className='text-gray-500 dark:text-gray-400'
+                  />
+                ) : (
+                  <Pin size={14} className='text-gray-500 dark:text-gray-400' />
+                )}
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onOrganize([session.id]);
+              }}
+              className={cn(rowButtonClass, 'mr-1')}
+              aria-label='Move or tag chat'
+            >
+              <FolderInput
+                size={14}
+                className='text-gray-500 dark:text-gray-400'
+              />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingSessionId(session.id);
+                setSessionTitle(session.title);
+              }}
+              className={cn(rowButtonClass, 'mr-1')}
+              aria-label='Edit chat name'
+            >
+              <Pencil size={14} className='text-gray-500 dark:text-gray-400' />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onExport([session.id]);
+              }}
+              className={cn(rowButtonClass, 'mr-1')}
+              aria-label='Export chat'
+            >
+              <FileDown
+                size={14}
+                className='text-gray-500 dark:text-gray-400'
+              />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete([session.id]);
+              }}
+              className={rowButtonClass}
+              aria-label='Delete chat'
+            >
+              <TrashIcon
+                size={14}
+                className='text-gray-500 dark:text-gray-400'
+              />
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  /**
+   * A section of the list that chats can be dropped on to file them there
+   */
+  const renderSection = ({
+    key,
+    title,
+    items,
+    changes,
+    describeMove,
+    collapsible = false,
+    icon,
+  }: {
+    key: string;
+    title: string;
+    items: ChatSession[];
+    changes: Partial<SessionOrganization>;
+    describeMove: (count: number) => string;
+    collapsible?: boolean;
+    icon?: ReactNode;
+  }) => {
+    const isCollapsed = collapsible && collapsed.has(key);
+    const headingId = `session-section-${key}`;
+
+    return (
+      <section
+        key={key}
+        aria-labelledby={headingId}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          setDropKey(key);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+            setDropKey((current) => (current === key ? null : current));
+          }
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDropKey(null);
+          setIsDragging(false);
+          let ids: string[];
+          try {
+            ids = JSON.parse(e.dataTransfer.getData(DRAG_TYPE));
+          } catch {
+            return;
+          }
+          if (!Array.isArray(ids) || ids.length === 0) return;
+          update(ids, changes, describeMove(ids.length));
+        }}
+        className={cn(
+          'rounded-lg',
+          dropKey === key &&
+            'ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/20'
+        )}
+      >
+        <h3
+          id={headingId}
+          className='flex items-center gap-1 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400'
+        >
+          {collapsible ? (
+            <button
+              type='button'
+              onClick={() => toggleCollapsed(key)}
+              aria-expanded={!isCollapsed}
+              className='flex items-center gap-1 rounded uppercase focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              {isCollapsed ? (
+                <ChevronRight size={14} aria-hidden='true' />
+              ) : (
+                <ChevronDown size={14} aria-hidden='true' />
+              )}
+              {icon}
+              {title}
+            </button>
+          ) : (
+            <>
+              {icon}
+              {title}
+            </>
+          )}
+          <span className='font-normal normal-case'>({items.length})</span>
+        </h3>
+        {items.length === 0
+          ? isDragging && (
+              <p className='px-3 py-2 text-xs text-gray-500 dark:text-gray-400'>
+                Drop chats here
+              </p>
+            )
+          : !isCollapsed && (
+              <ul className='space-y-1'>{items.map(renderSession)}</ul>
+            )}
+      </section>
+    );
+  };
+
+  return (
+    <div className='space-y-3'>
+      {/* Filters and selection */}
+      <div className='flex flex-wrap items-center gap-2'>
+        {tags.length > 0 && (
+          <>
+            <label htmlFor='session-tag-filter' className='sr-only'>
+              Show chats tagged
+            </label>
+            <select
+              id='session-tag-filter'
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              className='p-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500'
+            >
+              <option value=''>All tags</option>
+              {tags.map((item) => (
+                <option key={item} value={item}>
+                  #{item}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        <button
+          type='button'
+          onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+          aria-pressed={isSelecting}
+          className={bulkButtonClass}
+        >
+          {isSelecting ? 'Done' : 'Select'}
+        </button>
+        {groups.archived.length > 0 && (
+          <label className='flex items-center gap-1 text-xs'>
+            <input
+              type='checkbox'
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+            />
+            Show archived ({groups.archived.length})
+          </label>
+        )}
+      </div>
+
+      {isSelecting && (
+        <div
+          role='group'
+          aria-label='Selected chats'
+          className='p-2 space-y-2 rounded-lg border border-gray-200 dark:border-gray-700'
+        >
+          <label className='flex items-center gap-2 text-xs font-medium'>
+            <input
+              type='checkbox'
+              checked={visible.length > 0 && selected.length === visible.length}
+              onChange={() =>
+                setSelectedIds(
+                  selected.length === visible.length
+                    ? new Set()
+                    : new Set(visible.map((session) => session.id))
+                )
+              }
+            />
+            {selected.length} of {countChats(visible.length)} selected
+          </label>
+          {confirmDelete ? (
+            <div className='flex flex-wrap items-center gap-2 text-xs'>
+              <span>Delete {countChats(selected.length)}?</span>
+              <button
+                type='button'
+                onClick={() =>
+                  runBulk((ids) => {
+                    onDelete(ids);
+                    setStatus(`Deleted ${countChats(ids.length)}`);
+                  })
+                }
+                className='px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500'
+              >
+                Delete
+              </button>
+              <button
+                type='button'
+                onClick={() => setConfirmDelete(false)}
+                className={bulkButtonClass}
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className='flex flex-wrap gap-1'>
+              <button
+                type='button'
+                disabled={selected.length === 0}
+                onClick={() => runBulk(onOrganize)}
+                className={bulkButtonClass}
+              >
+                <FolderInput size={12} aria-hidden='true' />
+                Move
+              </button>
+              <button
+                type='button'
+                disabled={selected.length === 0}
+                onClick={() =>
+                  runBulk((ids) =>
+                    update(
+                      ids,
+                      { pinned: true, archived: false },
+                      `Pinned ${countChats(ids.length)}`
+                    )
+                  )
+                }
+                className={bulkButtonClass}
+              >
+                <Pin size={12} aria-hidden='true' />
+                Pin
+              </button>
+              <button
+                type='button'
+                disabled={selected.length === 0}
+                onClick={() =>
+                  runBulk((ids) =>
+                    update(
+                      ids,
+                      { archived: !allSelectedArchived },
+                      `${
+                        allSelectedArchived ? 'Restored' : 'Archived'
+                      } ${countChats(ids.length)}`
+                    )
+                  )
+                }
+                className={bulkButtonClass}
+              >
+                {allSelectedArchived ? (
+                  <ArchiveRestore size={12} aria-hidden='true' />
+                ) : (
+                  <Archive size={12} aria-hidden='true' />
+                )}
+                {allSelectedArchived ? 'Unarchive' : 'Archive'}
+              </button>
+              <button
+                type='button'
+                disabled={selected.length === 0}
+                onClick={() => runBulk(onExport)}
+                className={bulkButtonClass}
+              >
+                <FileDown size={12} aria-hidden='true' />
+                Export
+              </button>
+              <button
+                type='button'
+                disabled={selected.length === 0}
+                onClick={() => setConfirmDelete(true)}
+                className={bulkButtonClass}
+              >
+                <TrashIcon size={12} aria-hidden='true' />
+                Delete
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <p role='status' className='sr-only'>
+        {status}
+      </p>
+
+      {(groups.pinned.length > 0 || isDragging) &&
+        renderSection({
+          key: 'pinned',
+          title: 'Pinned',
+          items: groups.pinned,
+          changes: { pinned: true, archived: false },
+          describeMove: (count) => `Pinned ${countChats(count)}`,
+        })}
+
+      {groups.folders
+        // A tag filter can empty a folder; it stays a drop target while dragging
+        .filter((folder) => folder.sessions.length > 0 || isDragging)
+        .map((folder) =>
+          renderSection({
+            key: `folder-${folder.name}`,
+            title: folder.name,
+            items: folder.sessions,
+            changes: { folder: folder.name, pinned: false, archived: false },
+            describeMove: (count) =>
+              `Moved ${countChats(count)} to ${folder.name}`,
+            collapsible: true,
+          })
+        )}
+
+      {renderSection({
+        key: 'unfiled',
+        title: groups.folders.length > 0 ? 'Other chats' : 'Chats',
+        items: groups.unfiled,
+        changes: { folder: undefined, pinned: false, archived: false },
+        describeMove: (count) => `Moved ${countChats(count)} out of folders`,
+      })}
+
+      {(showArchived || isDragging) &&
+        renderSection({
+          key: 'archived',
+          title: 'Archived',
+          items: showArchived ? groups.archived : [],
+          changes: { archived: true },
+          describeMove: (count) => `Archived ${countChats(count)}`,
+          icon: <Archive size={12} aria-hidden='true' />,
+        })}
+    </div>
+  );
+}
@@ -9,81 +9,30 @@ import {
   BarChart3,
   Trash2,
   Download,
-  Upload,
   RotateCcw,
   AlertTriangle,
+  Sparkles,
 } from 'lucide-react';
-import { Subject, DifficultyLevel } from '@/types';
+import { DifficultyLevel } from '@/types';
+import { SUBJECTS } from '@/lib/subjects';
+import {
+  DEFAULT_PERSONA,
+  EXPLANATION_STYLES,
+  TUTOR_PERSONAS,
+} from '@/lib/prompt-templates';
 import { usePreferences } from '@/contexts/PreferencesContext';
+import { ImportMode, ImportSummaryItem, ParsedBackup } from '@/lib/backup';
+import { BackupImport } from './BackupImport';
 
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onClearAllData: () => void;
   onExportData: () => void;
-  onImportData: (data: any) => void;
+  onImportData: (backup: ParsedBackup, mode: ImportMode) => ImportSummaryItem[];
   className?: string;
 }
 
-const subjects: Subject[] = [
-  {
-    id: 'math',
-    name: 'Mathematics',
-    icon: '🔢',
-    description: 'Algebra, geometry, calculus, and more',
-    color: 'blue',
-  },
-  {
-    id: 'science',
-    name: 'Science',
-    icon: '🔬',
-    description: 'Biology, chemistry, physics',
-    color: 'green',
-  },
-  {
-    id: 'history',
-    name: 'History',
-    icon: '📚',
-    description: 'World history, events, and timelines',
-    color: 'yellow',
-  },
-  {
-    id: 'language',
-    name: 'Language Arts',
-    icon: '📝',
-    description: 'Grammar, writing, literature',
-    color: 'purple',
-  },
-  {
-    id: 'computer',
-    name: 'Computer Science',
-    icon: '💻',
-    description: 'Programming, algorithms, technology',
-    color: 'indigo',
-  },
-  {
-    id: 'art',
-    name: 'Arts',
-    icon: '🎨',
-    description: 'Visual arts, music, creative subjects',
-    color: 'pink',
-  },
-  {
-    id: 'social',
-    name: 'Social Studies',
-    icon: '🌍',
-    description: 'Geography, civics, culture',
-    color: 'cyan',
-  },
-  {
-    id: 'other',
-    name: 'Other',
-    icon: '📖',
-    description: 'Any other subject',
-    color: 'gray',
-  },
-];
-
 const difficulties = [
   {
     value: 'beginner',
@@ -112,7 +61,6 @@ export function SettingsPanel({
 }: SettingsPanelProps) {
   const { preferences, setPreferences } = usePreferences();
   const [showClearConfirm, setShowClearConfirm] = useState(false);
-  const [importError, setImportError] = useState<string | null>(null);
 
   const updatePreference = (key: string, value: any) => {
     setPreferences({
@@ -121,25 +69,6 @@ export function SettingsPanel({
     });
   };
 
-  const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = JSON.parse(e.target?.result as string);
-        onImportData(data);
-        setImportError(null);
-      } catch (error) {
-        setImportError(
-          'Invalid file format. Please select a valid backup file.'
-        );
-      }
-    };
-    reader.readAsText(file);
-  };
-
   const handleClearData = () => {
     onClearAllData();
     setShowClearConfirm(false);
@@ -188,7 +117,7 @@ export function SettingsPanel({
               Default Subject
             </h3>
             <div className='grid grid-cols-2 gap-2'>
-              {subjects.map((subject) => (
+              {SUBJECTS.map((subject) => (
                 <button
                   key={subject.id}
                   onClick={() => updatePreference('defaultSubject', subject.id)}
@@ -242,6 +171,142 @@ export function SettingsPanel({
             </div>
           </section>
 
+          {/* Learner Profile */}
+          <section>
+            <h3 className='flex items-center gap-2 text-md font-medium mb-3'>
+              <Sparkles size={16} />
+              How I Learn
+            </h3>
+            <div className='space-y-4'>
+              <div>
+                <label
+                  htmlFor='preferred-name'
+                  className='block text-sm font-medium mb-2'
+                >
+                  What should the tutor call you?
+                </label>
+                <input
+                  id='preferred-name'
+                  type='text'
+                  maxLength={40}
+                  value={preferences.preferredName ?? ''}
+                  onChange={(e) =>
+                    updatePreference('preferredName', e.target.value)
+                  }
+                  placeholder='Optional'
+                  className='w-full p-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                />
+              </div>
+
+              <fieldset>
+                <legend className='block text-sm font-medium mb-2'>
+                  Tutor personality
+                </legend>
+                <div className='grid grid-cols-2 gap-2'>
+                  {Object.entries(TUTOR_PERSONAS).map(([value, persona]) => {
+                    const isSelected =
+                      (preferences.tutorPersona ?? DEFAULT_PERSONA) === value;
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => updatePreference('tutorPersona', value)}
+                        className={cn(
+                          'p-3 rounded-lg border text-left transition-colors',
+                          'focus:outline-none focus:ring-2 focus:ring-blue-500',
+                          isSelected
+                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                        )}
+                        aria-pressed={isSelected}
+                      >
+                        <div className='font-medium text-sm mb-1'>
+                          {persona.label}
+                        </div>
+                        <p className='text-xs text-gray-600 dark:text-gray-400'>
+                          {persona.description}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </fieldset>
+
+              <fieldset>
+                <legend className='block text-sm font-medium mb-2'>
+                  I understand things best with
+                </legend>
+                <div className='grid grid-cols-2 gap-2'>
+                  {Object.entries(EXPLANATION_STYLES).map(([value, style]) => {
+                    const isSelected =
+                      (preferences.explanationStyle ?? 'mixed') === value;
+                    return (
+                      <button
+                        key={value}
+                        onClick={() =>
+                          updatePreference('explanationStyle', value)
+                        }
+                        className={cn(
+                          'p-3 rounded-lg border text-left transition-colors',
+                          'focus:outline-none focus:ring-2 focus:ring-blue-500',
+                          isSelected
+                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                        )}
+                        aria-pressed={isSelected}
+                      >
+                        <div className='font-medium text-sm mb-1'>
+                          {style.label}
+                        </div>
+                        <p className='text-xs text-gray-600 dark:text-gray-400'>
+                          {style.description}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </fieldset>
+
+              <label className='flex items-start gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 cursor-pointer'>
+                <input
+                  type='checkbox'
+                  checked={!!preferences.needsMoreTime}
+                  onChange={(e) =>
+                    updatePreference('needsMoreTime', e.target.checked)
+                  }
+                  className='mt-1 focus:ring-2 focus:ring-blue-500'
+                />
+                <span>
+                  <span className='block font-medium text-sm'>
+                    I need more time to take things in
+                  </span>
+                  <span className='block text-xs text-gray-600 dark:text-gray-400'>
+                    The tutor will go one idea at a time and repeat key points
+                  </span>
+                </span>
+              </label>
+
+              <label className='flex items-start gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 cursor-pointer'>
+                <input
+                  type='checkbox'
+                  checked={preferences.matchReadingLevel !== false}
+                  onChange={(e) =>
+                    updatePreference('matchReadingLevel', e.target.checked)
+                  }
+                  className='mt-1 focus:ring-2 focus:ring-blue-500'
+                />
+                <span>
+                  <span className='block font-medium text-sm'>
+                    Keep replies at my reading level
+                  </span>
+                  <span className='block text-xs text-gray-600 dark:text-gray-400'>
+                    Replies that are harder to read than your level are
+                    rewritten more simply
+                  </span>
+                </span>
+              </label>
+            </div>
+          </section>
+
           {/* Data Management */}
           <section>
             <h3 className='text-md font-medium mb-3'>Data Management</h3>
@@ -261,44 +326,14 @@ export function SettingsPanel({
                 <div className='text-left'>
                   <div className='font-medium'>Export Data</div>
                   <div className='text-sm text-gray-600 dark:text-gray-400'>
-                    Download your chat history and preferences
+                    Download your chats, notes, flashcards, settings and
+                    progress
                   </div>
                 </div>
               </button>
 
               {/* Import Data */}
-              <label
-                className={cn(
-                  'w-full flex items-center gap-3 p-3 rounded-lg border cursor-pointer',
-                  'border-gray-200 dark:border-gray-700',
-                  'hover:bg-gray-50 dark:hover:bg-gray-800',
-                  'focus-within:ring-2 focus-within:ring-blue-500',
-                  'transition-colors'
-                )}
-              >
-                <Upload size={16} className='text-green-500' />
-                <div className='text-left'>
-                  <div className='font-medium'>Import Data</div>
-                  <div className='text-sm text-gray-600 dark:text-gray-400'>
-                    Restore from a backup file
-                  </div>
-                </div>
-                <input
-                  type='file'
-                  accept='.json'
-                  onChange={handleFileImport}
-                  className='sr-only'
-                />
-              </label>
-
-              {importError && (
-                <div className='p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg'>
-                  <div className='flex items-center gap-2 text-red-800 dark:text-red-200'>
-                    <AlertTriangle size={16} />
-                    <span className='text-sm'>{importError}</span>
-                  </div>
-                </div>
-              )}
+              <BackupImport onImport={onImportData} />
 
               {/* Reset to Defaults */}
               <button
@@ -317,6 +352,11 @@ export function SettingsPanel({
                     announceMessages: true,
                     keyboardShortcuts: true,
                     focusIndicators: true,
+                    tutorPersona: 'encouraging',
+                    explanationStyle: 'mixed',
+                    needsMoreTime: false,
+                    preferredName: '',
+                    matchReadingLevel: true,
                   };
                   setPreferences(defaultPrefs);
                 }}
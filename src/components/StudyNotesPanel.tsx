@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useId, useRef } from 'react';
+import {
+  Download,
+  Loader2,
+  NotebookText,
+  Printer,
+  RotateCcw,
+  X,
+} from 'lucide-react';
+import { ChatErrorCode, ChatSession } from '@/types';
+import { CHAT_ERROR_INFO } from '@/lib/errors';
+import {
+  areStudyNotesOutdated,
+  STUDY_NOTES_SECTIONS,
+  studyNotesToHtml,
+  studyNotesToMarkdown,
+} from '@/lib/study-notes';
+import { downloadFile, printDocument } from '@/lib/utils';
+
+interface StudyNotesPanelProps {
+  session: ChatSession;
+  isGenerating?: boolean;
+  errorCode?: ChatErrorCode | null;
+  /** Write the notes again from the whole chat; hidden without it */
+  onRegenerate?: () => void;
+  onClose: () => void;
+}
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 text-sm hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * A chat session's study notes - key ideas, words to know, open questions
+ * and next steps - with Markdown export and dyslexia-friendly printing
+ */
+export function StudyNotesPanel({
+  session,
+  isGenerating = false,
+  errorCode = null,
+  onRegenerate,
+  onClose,
+}: StudyNotesPanelProps) {
+  const titleId = useId();
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const notes = session.studyNotes;
+  const isOutdated = areStudyNotesOutdated(session);
+
+  // Move focus to the notes once they are written so screen readers read them
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, [notes?.createdAt, isGenerating, errorCode]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleExport = () => {
+    if (!notes) return;
+    downloadFile(
+      studyNotesToMarkdown(notes, session),
+      `studypal-notes-${
+        new Date(notes.createdAt).toISOString().split('T')[0]
+      }.md`,
+      'text/markdown'
+    );
+  };
+
+  const handlePrint = () => {
+    if (notes) printDocument(studyNotesToHtml(notes, session));
+  };
+
+  const renderBody = () => {
+    if (isGenerating) {
+      return (
+        <div className='flex flex-col items-center gap-3 py-10' role='status'>
+          <Loader2
+            size={28}
+            className='animate-spin text-blue-500'
+            aria-hidden='true'
+          />
+          <p ref={headingRef} tabIndex={-1} className='focus:outline-none'>
+            Writing your study notes...
+          </p>
+        </div>
+      );
+    }
+
+    if (errorCode) {
+      const info = CHAT_ERROR_INFO[errorCode];
+      return (
+        <div className='space-y-4 py-4' role='alert'>
+          <h3
+            ref={headingRef}
+            tabIndex={-1}
+            className='font-semibold focus:outline-none'
+          >
+            {info.title}
+          </h3>
+          <p className='text-sm text-gray-600 dark:text-gray-300'>
+            {info.message}
+          </p>
+          {info.action === 'retry' && onRegenerate && (
+            <button
+              type='button'
+              onClick={onRegenerate}
+              className='flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+            >
+              <RotateCcw size={16} aria-hidden='true' />
+              Try again
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    if (!notes) return null;
+
+    return (
+      <div className='space-y-5'>
+        <h3
+          ref={headingRef}
+          tabIndex={-1}
+          className='font-semibold focus:outline-none'
+        >
+          {session.title}
+          <span className='block text-sm font-normal text-gray-600 dark:text-gray-400'>
+            Written {new Date(notes.createdAt).toLocaleString()}
+          </span>
+        </h3>
+
+        {isOutdated && (
+          <p className='p-3 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-sm'>
+            The chat has carried on since these notes were written.
+            {onRegenerate && ' Summarize again to include the newer messages.'}
+          </p>
+        )}
+
+        {STUDY_NOTES_SECTIONS.map(({ key, title }) =>
+          notes[key].length > 0 ? (
+            <section key={key} aria-labelledby={`${titleId}-${key}`}>
+              <h4 id={`${titleId}-${key}`} className='font-semibold mb-2'>
+                {title}
+              </h4>
+              <ul className='list-disc pl-5 space-y-1.5 leading-relaxed'>
+                {key === 'definitions'
+                  ? notes.definitions.map((definition) => (
+                      <li key={definition.term}>
+                        <strong>{definition.term}</strong>: {definition.meaning}
+                      </li>
+                    ))
+                  : notes[key].map((item, index) => (
+                      <li key={index}>{item}</li>
+                    ))}
+              </ul>
+            </section>
+          ) : null
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      {/* Backdrop */}
+      <div className='fixed inset-0 bg-black/50' onClick={onClose} />
+
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='relative w-full max-w-lg max-h-full overflow-y-auto rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-xl'
+      >
+        <div className='sticky top-0 flex items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900'>
+          <div className='flex items-center gap-2'>
+            <NotebookText size={20} aria-hidden='true' />
+            <h2 id={titleId} className='text-lg font-semibold'>
+              Study notes
+            </h2>
+          </div>
+          <button
+            type='button'
+            onClick={onClose}
+            className='p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500'
+            aria-label='Close study notes'
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className='p-4'>{renderBody()}</div>
+
+        {notes && !isGenerating && (
+          <div className='sticky bottom-0 flex flex-wrap gap-2 p-4 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900'>
+            <button
+              type='button'
+              onClick={handleExport}
+              className={buttonClass}
+            >
+              <Download size={16} aria-hidden='true' />
+              Export Markdown
+            </button>
+            <button type='button' onClick={handlePrint} className={buttonClass}>
+              <Printer size={16} aria-hidden='true' />
+              Print
+            </button>
+            {onRegenerate && (
+              <button
+                type='button'
+                onClick={onRegenerate}
+                className={buttonClass}
+              >
+                <RotateCcw size={16} aria-hidden='true' />
+                Summarize again
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useChat } from '@/hooks/useChat';
+
+type ChatContextType = ReturnType<typeof useChat>;
+
+const ChatContext = createContext<ChatContextType | undefined>(undefined);
+
+// Provider component so the sidebar and chat work on the same sessions
+export function ChatProvider({ children }: { children: ReactNode }) {
+  const chat = useChat();
+
+  return <ChatContext.Provider value={chat}>{children}</ChatContext.Provider>;
+}
+
+// Custom hook to use the chat context
+export function useChatContext() {
+  const context = useContext(ChatContext);
+
+  if (context === undefined) {
+    throw new Error('useChatContext must be used within a ChatProvider');
+  }
+
+  return context;
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from 'react';
+import { useFlashcardCollection } from '@/hooks/useLocal';
+import { createFlashcard, getDueCards, scheduleReview } from '@/lib/flashcards';
+import { generateId } from '@/lib/utils';
+import { Flashcard, FlashcardDeck, FlashcardGrade } from '@/types';
+
+type NewFlashcard = Pick<Flashcard, 'deckId' | 'front' | 'back' | 'source'>;
+
+type FlashcardsContextType = {
+  decks: FlashcardDeck[];
+  cards: Flashcard[];
+  /** Cards due for review now, across all decks */
+  dueCards: Flashcard[];
+  createDeck: (name: string, subject?: string) => FlashcardDeck;
+  addCard: (card: NewFlashcard) => Flashcard;
+  updateCard: (
+    cardId: string,
+    changes: Partial<Pick<Flashcard, 'deckId' | 'front' | 'back'>>
+  ) => void;
+  deleteCard: (cardId: string) => void;
+  reviewCard: (cardId: string, grade: FlashcardGrade) => void;
+};
+
+const FlashcardsContext = createContext<FlashcardsContextType | undefined>(
+  undefined
+);
+
+// How often due cards are re-counted, so relearned cards come back
+const DUE_CHECK_INTERVAL = 60 * 1000;
+
+// Provider component so the sidebar and chat share one set of cards
+export function FlashcardsProvider({ children }: { children: ReactNode }) {
+  const [collection, setCollection] = useFlashcardCollection();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(
+      () => setNow(Date.now()),
+      DUE_CHECK_INTERVAL
+    );
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const createDeck = useCallback(
+    (name: string, subject?: string) => {
+      const deck: FlashcardDeck = {
+        id: generateId(),
+        name: name.trim(),
+        ...(subject && { subject }),
+        createdAt: Date.now(),
+      };
+      setCollection((prev) => ({ ...prev, decks: [...prev.decks, deck] }));
+      return deck;
+    },
+    [setCollection]
+  );
+
+  const addCard = useCallback(
+    (newCard: NewFlashcard) => {
+      const card = createFlashcard(newCard);
+      setCollection((prev) => ({ ...prev, cards: [...prev.cards, card] }));
+      setNow(Date.now());
+      return card;
+    },
+    [setCollection]
+  );
+
+  const updateCard = useCallback(
+    (
+      cardId: string,
+      changes: Partial<Pick<Flashcard, 'deckId' | 'front' | 'back'>>
+    ) => {
+      setCollection((prev) => ({
+        ...prev,
+        cards: prev.cards.map((card) =>
+          card.id === cardId ? { ...card, ...changes } : card
+        ),
+      }));
+    },
+    [setCollection]
+  );
+
+  const deleteCard = useCallback(
+    (cardId: string) => {
+      setCollection((prev) => ({
+        ...prev,
+        cards: prev.cards.filter((card) => card.id !== cardId),
+      }));
+    },
+    [setCollection]
+  );
+
+  const reviewCard = useCallback(
+    (cardId: string, grade: FlashcardGrade) => {
+      const reviewedAt = Date.now();
+      setCollection((prev) => ({
+        ...prev,
+        cards: prev.cards.map((card) =>
+          card.id === cardId ? scheduleReview(card, grade, reviewedAt) : card
+        ),
+      }));
+      setNow(reviewedAt);
+    },
+    [setCollection]
+  );
+
+  const dueCards = useMemo(
+    () => getDueCards(collection.cards, { now }),
+    [collection.cards, now]
+  );
+
+  return (
+    <FlashcardsContext.Provider
+      value={{
+        decks: collection.decks,
+        cards: collection.cards,
+        dueCards,
+        createDeck,
+        addCard,
+        updateCard,
+        deleteCard,
+        reviewCard,
+      }}
+    >
+      {children}
+    </FlashcardsContext.Provider>
+  );
+}
+
+// Custom hook to use the flashcards context
+export function useFlashcards() {
+  const context = useContext(FlashcardsContext);
+
+  if (context === undefined) {
+    throw new Error('useFlashcards must be used within a FlashcardsProvider');
+  }
+
+  return context;
+}
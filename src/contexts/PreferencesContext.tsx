@@ -2,6 +2,7 @@
 
 import React, { createContext, useContext, ReactNode } from 'react';
 import { useUserPreferences } from '@/hooks/useLocal';
+import { ExplanationStyle, TutorPersona } from '@/types';
 
 // Define the type for our preferences
 type UserPreferences = {
@@ -18,12 +19,19 @@ type UserPreferences = {
   announceMessages: boolean;
   keyboardShortcuts: boolean;
   focusIndicators: boolean;
+  tutorPersona: TutorPersona;
+  explanationStyle: ExplanationStyle;
+  needsMoreTime: boolean;
+  preferredName: string;
+  matchReadingLevel: boolean;
 };
 
 // Create the context with initial undefined value
 type PreferencesContextType = {
   preferences: UserPreferences;
   setPreferences: any;
+  /** False until saved preferences have loaded; defaults are shown till then */
+  isLoaded: boolean;
 };
 
 const PreferencesContext = createContext<PreferencesContextType | undefined>(
@@ -33,10 +41,12 @@ const PreferencesContext = createContext<PreferencesContextType | undefined>(
 // Provider component that wraps parts of our app that need access to preferences
 export function PreferencesProvider({ children }: { children: ReactNode }) {
   // Use the same hook that individual components were using
-  const [preferences, setPreferences] = useUserPreferences();
+  const [preferences, setPreferences, , isLoaded] = useUserPreferences();
 
   return (
-    <PreferencesContext.Provider value={{ preferences, setPreferences }}>
+    <PreferencesContext.Provider
+      value={{ preferences, setPreferences, isLoaded }}
+    >
       {children}
     </PreferencesContext.Provider>
   );
@@ -1,35 +1,251 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { Message, ChatSession, DifficultyLevel } from '@/types';
-import { generateId, extractKeywords, debounce } from '@/lib/utils';
+import {
+  Message,
+  ChatSession,
+  ChatErrorCode,
+  ConversationSummary,
+  DifficultyLevel,
+  GenerationSettings,
+  LearnerProfile,
+  MessageVariant,
+  MessageVariantKind,
+  QuizResult,
+  SessionOrganization,
+  StudyNotes,
+  TokenUsage,
+  TutoringMode,
+} from '@/types';
+import {
+  generateId,
+  extractKeywords,
+  debounce,
+  getStudentId,
+} from '@/lib/utils';
+import {
+  CHAT_ERROR_INFO,
+  ChatRequestError,
+  getChatErrorCode,
+  isChatErrorResponse,
+} from '@/lib/errors';
+import { parseSSE } from '@/lib/sse';
+import { addToUsageStats } from '@/lib/usage';
+import { addQuizResult } from '@/lib/quiz';
+import { withActiveVariants } from '@/lib/variants';
+import { analyzeReadability, isAboveReadingLevel } from '@/lib/readability';
+import { organizeSessions } from '@/lib/session-folders';
+import { STUDENT_ID_HEADER } from '@/lib/rate-limit/types';
 import { useChatSessions, useProgressStats } from './useLocal';
+import { usePreferences } from '@/contexts/PreferencesContext';
 
 // Constants for better maintenance
 const API_TIMEOUT = 30000; // 30 seconds
 const MAX_RETRIES = 2;
 const RETRY_DELAY = 2000; // 2 seconds
+const STREAM_FLUSH_INTERVAL = 50; // Min ms between streamed state updates
+const CANCEL_REASON = 'Cancelled by user';
+const TIMEOUT_REASON = 'Request timeout';
+
+/**
+ * Remove a failed exchange - the last question and whatever came after it -
+ * so it can be sent again without appearing twice
+ */
+function withoutFailedExchange(messages: Message[]): Message[] {
+  if (!messages[messages.length - 1]?.isError) return messages;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return messages.slice(0, i);
+  }
+
+  return messages;
+}
+
+/**
+ * A tutor reply read from `/api/chat`
+ */
+interface ChatReply {
+  content: string;
+  promptVersion?: string;
+  answerWithheld?: boolean;
+  usage?: TokenUsage;
+}
+
+/**
+ * Read a successful `/api/chat` response, streamed or not. `onProgress` is
+ * called with the reply so far whenever a streamed event arrives.
+ */
+async function readChatReply(
+  response: Response,
+  {
+    onProgress,
+    onSummary,
+  }: {
+    onProgress?: (reply: ChatReply) => void;
+    onSummary?: (summary: ConversationSummary) => void;
+  }
+): Promise<ChatReply> {
+  const reply: ChatReply = { content: '' };
+  const contentType = response.headers.get('Content-Type') || '';
+
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    let data;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error('Failed to parse server response');
+    }
+
+    if (data.error) {
+      throw new Error(data.error);
+    }
+
+    if (data.summary) {
+      onSummary?.(data.summary);
+    }
+
+    return {
+      content: data.message || '',
+      promptVersion: data.promptVersion,
+      answerWithheld: !!data.answerWithheld,
+      usage: data.usage,
+    };
+  }
+
+  for await (const event of parseSSE(response.body)) {
+    if (event.event === 'error') {
+      let streamError: unknown;
+      try {
+        streamError = JSON.parse(event.data);
+      } catch {
+        // Fall through to the generic error
+      }
+      throw new ChatRequestError(
+        isChatErrorResponse(streamError)
+          ? streamError
+          : {
+              error: 'AI service error',
+              code: 'stream_interrupted',
+              retryable: true,
+            }
+      );
+    }
+
+    if (event.event === 'meta') {
+      try {
+        const meta = JSON.parse(event.data);
+        reply.promptVersion = meta.promptVersion;
+        reply.answerWithheld = !!meta.answerWithheld;
+      } catch {
+        // Only used to label the reply
+      }
+    } else if (event.event === 'usage') {
+      try {
+        reply.usage = JSON.parse(event.data);
+      } catch {
+        // Usage is only for accounting
+      }
+    } else if (event.event === 'summary') {
+      try {
+        onSummary?.(JSON.parse(event.data));
+      } catch {
+        // A missing summary only means older turns get re-summarized
+      }
+    } else if (event.event === 'delta') {
+      try {
+        reply.content += JSON.parse(event.data).content ?? '';
+      } catch {
+        continue;
+      }
+    }
+
+    onProgress?.(reply);
+  }
+
+  return reply;
+}
+
+/**
+ * Turn a failed `/api/chat` response into an error to throw
+ */
+async function toRequestError(response: Response): Promise<ChatRequestError> {
+  let errorData: unknown;
+  try {
+    errorData = await response.json();
+  } catch {
+    // Ignore JSON parsing errors
+  }
+
+  if (isChatErrorResponse(errorData)) {
+    return new ChatRequestError({
+      ...errorData,
+      retryAfter:
+        errorData.retryAfter ??
+        (Number(response.headers.get('Retry-After')) || undefined),
+    });
+  }
+
+  return new ChatRequestError({
+    error: `Server error: ${response.status}`,
+    code: 'unknown',
+    retryable: true,
+  });
+}
 
 /**
  * Custom hook for managing chat functionality with enhanced error prevention
  * and optimized performance.
  */
 export function useChat() {
-  // Get sessions and progress stats from localStorage hooks
-  const [sessions, setSessions] = useChatSessions();
+  // Get sessions and progress stats from the browser's storage
+  const [sessions, setSessions, , hasLoadedSessions] = useChatSessions();
   const [progressStats, setProgressStats] = useProgressStats();
+  const { preferences } = usePreferences();
+
+  // What the tutor is told about how this student learns
+  const learnerProfile = useMemo<LearnerProfile>(
+    () => ({
+      tutorPersona: preferences?.tutorPersona,
+      explanationStyle: preferences?.explanationStyle,
+      needsMoreTime: preferences?.needsMoreTime,
+      preferredName: preferences?.preferredName,
+    }),
+    [
+      preferences?.tutorPersona,
+      preferences?.explanationStyle,
+      preferences?.needsMoreTime,
+      preferences?.preferredName,
+    ]
+  );
 
   // Local state
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // A message picked in search, shown instead of the end of the chat until
+  // the next message is sent
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<ChatErrorCode | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  const [rateLimitSeconds, setRateLimitSeconds] = useState(0);
+  // The "explain it differently" request in progress, or the one that failed
+  const [variantRequest, setVariantRequest] = useState<{
+    messageId: string;
+    kind: MessageVariantKind;
+    automatic?: boolean;
+    error?: string;
+  } | null>(null);
 
   // Refs
   const sessionStartTime = useRef<number>(Date.now());
   const isMounted = useRef(false);
   const abortControllerRef = useRef<AbortController | null>(null);
   const timeoutIdRef = useRef<NodeJS.Timeout | null>(null);
+  const variantAbortControllerRef = useRef<AbortController | null>(null);
+  // The latest reply, until its reading level has been checked
+  const readingLevelCheckRef = useRef<string | null>(null);
 
   // Safe memoization with fallback and proper type checking
   const currentSession = useMemo(() => {
@@ -71,6 +287,7 @@ export function useChat() {
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
+      variantAbortControllerRef.current?.abort();
 
       // Clear any pending timeouts
       if (timeoutIdRef.current) {
@@ -79,11 +296,34 @@ export function useChat() {
     };
   }, []);
 
+  // Count down until the server will accept another message
+  useEffect(() => {
+    if (!rateLimitedUntil) return;
+
+    const tick = () => {
+      const seconds = Math.ceil((rateLimitedUntil - Date.now()) / 1000);
+
+      if (seconds <= 0) {
+        setRateLimitSeconds(0);
+        setRateLimitedUntil(null);
+        return;
+      }
+
+      setRateLimitSeconds(seconds);
+    };
+
+    tick();
+    const intervalId = setInterval(tick, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [rateLimitedUntil]);
+
   // Handle session time tracking with better error prevention
   useEffect(() => {
     // Save current session ID to avoid closure issues
     const sessionId = currentSessionId;
-    const startTime = sessionStartTime.current;
+    const startTime = Date.now();
+    sessionStartTime.current = startTime;
 
     return () => {
       try {
@@ -92,23 +332,22 @@ export function useChat() {
 
           // Only update if there's actual time spent and we're not in an unmounting state
           if (timeSpent > 0 && document.visibilityState !== 'hidden') {
-            // Use a more stable way to update progress stats
-            const currentStats = JSON.parse(
-              localStorage.getItem('progressStats') || '{}'
+            setProgressStats((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    timeSpent: (prev.timeSpent || 0) + timeSpent,
+                    lastActiveDate: new Date().toISOString().split('T')[0],
+                  }
+                : prev
             );
-            const updatedStats = {
-              ...currentStats,
-              timeSpent: (currentStats?.timeSpent || 0) + timeSpent,
-              lastActiveDate: new Date().toISOString().split('T')[0],
-            };
-            localStorage.setItem('progressStats', JSON.stringify(updatedStats));
           }
         }
       } catch (err) {
         // Silently handle errors during cleanup
       }
     };
-  }, [currentSessionId]);
+  }, [currentSessionId, setProgressStats]);
 
   // Create a new chat session with defensive coding
   const createNewSession = useCallback(
@@ -182,7 +421,8 @@ export function useChat() {
   const retryApiCall = useCallback(
     async (
       requestFn: () => Promise<Response>,
-      maxRetries: number = MAX_RETRIES
+      maxRetries: number = MAX_RETRIES,
+      signal?: AbortSignal
     ): Promise<Response> => {
       let lastError: Error | null = null;
       let attempts = 0;
@@ -193,6 +433,12 @@ export function useChat() {
           return response;
         } catch (err) {
           lastError = err instanceof Error ? err : new Error(String(err));
+
+          // Don't retry requests that were deliberately aborted
+          if (signal?.aborted || lastError.name === 'AbortError') {
+            throw lastError;
+          }
+
           attempts++;
 
           if (attempts <= maxRetries) {
@@ -213,7 +459,9 @@ export function useChat() {
     async (
       content: string,
       subject?: string,
-      difficulty?: DifficultyLevel
+      difficulty?: DifficultyLevel,
+      /** Resend the last question, replacing the failed attempt */
+      isRetry: boolean = false
     ): Promise<void> => {
       // Input validation
       if (!content?.trim()) {
@@ -221,12 +469,18 @@ export function useChat() {
         return;
       }
 
+      // The server would only turn the message away
+      if (rateLimitedUntil && Date.now() < rateLimitedUntil) {
+        return;
+      }
+
       // Reset retry count
       setRetryCount(0);
+      setFocusedMessageId(null);
 
       // Clean up any previous pending requests
       if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
+        abortControllerRef.current.abort(CANCEL_REASON);
       }
 
       if (timeoutIdRef.current) {
@@ -239,7 +493,9 @@ export function useChat() {
         let sessionMessages: Message[] = [];
 
         if (currentSession && Array.isArray(currentSession.messages)) {
-          sessionMessages = [...currentSession.messages]; // Create a copy to avoid reference issues
+          sessionMessages = isRetry
+            ? withoutFailedExchange(currentSession.messages)
+            : [...currentSession.messages]; // Create a copy to avoid reference issues
         } else {
           const newSession = createNewSession(subject, difficulty);
           sessionId = newSession.id;
@@ -301,8 +557,13 @@ export function useChat() {
 
           const updatedSessions = prevSessions.map((session) => {
             if (session?.id === sessionId) {
+              const previousMessages = Array.isArray(session.messages)
+                ? session.messages
+                : [];
               const updatedMessages = [
-                ...(Array.isArray(session.messages) ? session.messages : []),
+                ...(isRetry
+                  ? withoutFailedExchange(previousMessages)
+                  : previousMessages),
                 userMessage,
               ];
 
@@ -326,78 +587,50 @@ export function useChat() {
         // Update UI state
         setIsLoading(true);
         setError(null);
+        setErrorCode(null);
 
         // Setup API call with timeout
         const controller = new AbortController();
         abortControllerRef.current = controller;
 
-        const timeoutId = setTimeout(() => {
-          if (controller && !controller.signal.aborted) {
-            controller.abort('Request timeout');
+        // The timeout is restarted whenever a chunk arrives, so it only
+        // fires when the reply stalls rather than when it is long
+        const armTimeout = () => {
+          if (timeoutIdRef.current) {
+            clearTimeout(timeoutIdRef.current);
           }
-        }, API_TIMEOUT);
-
-        timeoutIdRef.current = timeoutId; // Execute API call with retry logic
-        try {
-          const makeRequest = () =>
-            fetch('/api/chat', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                messages: updatedMessages, // Use the local variable with both session messages and user message
-                subject,
-                difficulty,
-              }),
-              signal: controller.signal,
-            });
-
-          const response = await retryApiCall(makeRequest);
-
-          // Clear timeout since request completed
-          clearTimeout(timeoutId);
-          timeoutIdRef.current = null;
-
-          if (!response.ok) {
-            // Get error details if available
-            let errorMessage = `Server error: ${response.status}`;
-            try {
-              const errorData = await response.json();
-              if (errorData.error) {
-                errorMessage = errorData.error;
-              }
-            } catch (parseError) {
-              // Ignore JSON parsing errors
+          timeoutIdRef.current = setTimeout(() => {
+            if (controller && !controller.signal.aborted) {
+              controller.abort(TIMEOUT_REASON);
             }
+          }, API_TIMEOUT);
+        };
 
-            throw new Error(errorMessage);
-          }
-
-          let data;
-          try {
-            data = await response.json();
-          } catch (parseError) {
-            throw new Error('Failed to parse server response');
-          }
+        armTimeout();
 
-          if (data.error) {
-            throw new Error(data.error);
-          }
+        // The assistant message is created on the first chunk and grown in place
+        const assistantMessageId = generateId();
+        const assistantTimestamp = Date.now();
+        let assistantContent = '';
+        let promptVersion: string | undefined;
+        let answerWithheld = false;
+        let usage: TokenUsage | undefined;
 
-          if (!data.message) {
-            throw new Error('Response missing message content');
-          }
-
-          // Create assistant message
+        const upsertAssistantMessage = (
+          messageContent: string,
+          streaming: boolean
+        ) => {
           const assistantMessage: Message = {
-            id: generateId(),
-            content: data.message,
+            id: assistantMessageId,
+            content: messageContent,
             role: 'assistant',
-            timestamp: Date.now(),
+            timestamp: assistantTimestamp,
+            ...(promptVersion ? { promptVersion } : {}),
+            ...(answerWithheld ? { answerWithheld } : {}),
+            ...(usage ? { usage } : {}),
+            ...(streaming ? { isStreaming: true } : {}),
           };
 
-          // Add assistant message to session with defensive update
           setSessions((prevSessions: ChatSession[]) => {
             if (!Array.isArray(prevSessions)) {
               return [];
@@ -416,6 +649,17 @@ export function useChat() {
                   ? session.messages
                   : [];
 
+                // Replace the message in place once it exists
+                if (existingMessages.some((m) => m.id === assistantMessageId)) {
+                  return {
+                    ...session,
+                    messages: existingMessages.map((m) =>
+                      m.id === assistantMessageId ? assistantMessage : m
+                    ),
+                    updatedAt: Date.now(),
+                  };
+                }
+
                 // Check if the user message is already in the session
                 const hasUserMessage = existingMessages.some(
                   (msg) =>
@@ -440,6 +684,105 @@ export function useChat() {
               return session;
             });
           });
+        };
+
+        // Keep the rolling summary of older turns the server sends back
+        const saveSummary = (summary: ConversationSummary) => {
+          setSessions((prevSessions: ChatSession[]) => {
+            if (!Array.isArray(prevSessions)) return [];
+
+            return prevSessions.map((session) =>
+              session?.id === sessionId ? { ...session, summary } : session
+            );
+          });
+        };
+
+        // Execute API call with retry logic
+        try {
+          const makeRequest = () =>
+            fetch('/api/chat', {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                [STUDENT_ID_HEADER]: getStudentId(),
+              },
+              body: JSON.stringify({
+                sessionId,
+                // Earlier error notices are not part of the conversation
+                messages: withActiveVariants(
+                  updatedMessages.filter((m) => !m.isError)
+                ),
+                subject,
+                difficulty,
+                summary: currentSession?.summary,
+                settings: currentSession?.settings,
+                tutoringMode: currentSession?.tutoringMode,
+                learnerProfile,
+                stream: true,
+              }),
+              signal: controller.signal,
+            });
+
+          const response = await retryApiCall(
+            makeRequest,
+            MAX_RETRIES,
+            controller.signal
+          );
+
+          if (!response.ok) {
+            const requestError = await toRequestError(response);
+
+            // Start the countdown shown next to the send button
+            if (
+              requestError.code === 'rate_limited' &&
+              requestError.retryAfter
+            ) {
+              setRateLimitedUntil(Date.now() + requestError.retryAfter * 1000);
+            }
+
+            throw requestError;
+          }
+
+          // Grow the assistant bubble as chunks arrive, flushing to state at
+          // most every STREAM_FLUSH_INTERVAL to keep rendering cheap
+          let lastFlush = 0;
+
+          const reply = await readChatReply(response, {
+            onProgress: (progress) => {
+              armTimeout();
+              ({ promptVersion, usage } = progress);
+              answerWithheld = !!progress.answerWithheld;
+              assistantContent = progress.content;
+
+              if (
+                assistantContent &&
+                Date.now() - lastFlush >= STREAM_FLUSH_INTERVAL
+              ) {
+                upsertAssistantMessage(assistantContent, true);
+                setIsStreaming(true);
+                lastFlush = Date.now();
+              }
+            },
+            onSummary: saveSummary,
+          });
+
+          ({ promptVersion, usage } = reply);
+          answerWithheld = !!reply.answerWithheld;
+          assistantContent = reply.content;
+
+          // Clear timeout since request completed
+          if (timeoutIdRef.current) {
+            clearTimeout(timeoutIdRef.current);
+            timeoutIdRef.current = null;
+          }
+
+          if (!assistantContent) {
+            throw new Error('Response missing message content');
+          }
+
+          // Finalize the assistant message
+          upsertAssistantMessage(assistantContent, false);
+          readingLevelCheckRef.current = assistantMessageId;
 
           // Update progress stats safely
           try {
@@ -456,8 +799,16 @@ export function useChat() {
                 lastActiveDate: new Date().toISOString().split('T')[0],
               };
 
+              const today = new Date().toISOString().split('T')[0];
+
               return {
                 ...safePrev,
+                ...(usage && {
+                  usage: addToUsageStats(safePrev.usage, usage, {
+                    day: today,
+                    sessionId: sessionId as string,
+                  }),
+                }),
                 totalMessages: (safePrev.totalMessages || 0) + 2, // user + assistant
                 topicsExplored: [
                   ...new Set([...(safePrev.topicsExplored || []), ...keywords]),
@@ -483,22 +834,37 @@ export function useChat() {
             timeoutIdRef.current = null;
           }
 
-          // Set error message with defensive string conversion
-          const errorMessage =
-            apiError instanceof Error
-              ? apiError.message
-              : String(apiError) || 'Failed to get response';
+          // Keep whatever had already streamed in
+          if (assistantContent) {
+            upsertAssistantMessage(assistantContent, false);
+          }
+
+          // A cancelled reply is not an error
+          if (controller.signal.reason === CANCEL_REASON) {
+            return;
+          }
+
+          // Explain the failure in plain language
+          const code: ChatErrorCode =
+            controller.signal.reason === TIMEOUT_REASON
+              ? 'timeout'
+              : getChatErrorCode(apiError);
+
+          if (!(apiError instanceof ChatRequestError)) {
+            console.error('Chat request failed:', apiError);
+          }
 
-          setError(errorMessage);
+          setError(CHAT_ERROR_INFO[code].message);
+          setErrorCode(code);
 
           // Add error message to chat for better UX
           const errorAssistantMessage: Message = {
             id: generateId(),
-            content:
-              'I apologize, but I encountered an error. Please try again or rephrase your question.',
+            content: CHAT_ERROR_INFO[code].message,
             role: 'assistant',
             timestamp: Date.now(),
             isError: true,
+            errorCode: code,
           };
 
           setSessions((prevSessions: ChatSession[]) => {
@@ -532,14 +898,6 @@ export function useChat() {
               return session;
             });
           });
-
-          // Check for network errors and notify the user appropriately
-          if (
-            apiError instanceof TypeError &&
-            apiError.message.includes('network')
-          ) {
-            setError('Network error. Please check your internet connection.');
-          }
         }
       } catch (unexpectedError) {
         // Handle unexpected errors to prevent app crashes
@@ -547,6 +905,7 @@ export function useChat() {
       } finally {
         // Clean up resources
         setIsLoading(false);
+        setIsStreaming(false);
         abortControllerRef.current = null;
       }
     },
@@ -557,9 +916,34 @@ export function useChat() {
       setProgressStats,
       createNewSession,
       retryApiCall,
+      rateLimitedUntil,
+      learnerProfile,
     ]
   );
 
+  // Stop the reply that is currently being generated, keeping what has
+  // already arrived
+  const stopGenerating = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort(CANCEL_REASON);
+    }
+  }, []);
+
+  // Send the last question again after an error
+  const retryLastMessage = useCallback(() => {
+    const messages = currentSession?.messages ?? [];
+    const lastQuestion = [...messages].reverse().find((m) => m.role === 'user');
+
+    if (!lastQuestion || isLoading) return;
+
+    sendMessage(
+      lastQuestion.content,
+      currentSession?.subject,
+      currentSession?.difficulty,
+      true
+    );
+  }, [currentSession, isLoading, sendMessage]);
+
   // Debounced version of sendMessage for UI responsiveness
   const debouncedSendMessage = useMemo(
     () => debounce(sendMessage, 300),
@@ -583,9 +967,37 @@ export function useChat() {
     [setSessions, currentSessionId]
   );
 
-  // Load a session with validation
+  // Delete several sessions at once
+  const deleteSessions = useCallback(
+    (sessionIds: string[]) => {
+      const ids = new Set(sessionIds);
+
+      setSessions((prev: ChatSession[]) => {
+        if (!Array.isArray(prev)) return [];
+        return prev.filter((session) => !ids.has(session?.id));
+      });
+
+      if (currentSessionId && ids.has(currentSessionId)) {
+        setCurrentSessionId(null);
+      }
+    },
+    [setSessions, currentSessionId]
+  );
+
+  // Move sessions to a folder, tag, pin or archive them
+  const updateSessionOrganization = useCallback(
+    (sessionIds: string[], changes: Partial<SessionOrganization>) => {
+      setSessions((prev: ChatSession[]) =>
+        organizeSessions(Array.isArray(prev) ? prev : [], sessionIds, changes)
+      );
+    },
+    [setSessions]
+  );
+
+  // Load a session with validation, optionally jumping to one of its
+  // messages
   const loadSession = useCallback(
-    (sessionId: string) => {
+    (sessionId: string, messageId?: string) => {
       if (!sessionId) {
         return;
       }
@@ -597,6 +1009,7 @@ export function useChat() {
 
       if (sessionExists) {
         setCurrentSessionId(sessionId);
+        setFocusedMessageId(messageId ?? null);
         sessionStartTime.current = Date.now();
       } else {
         setError(`Session not found`);
@@ -640,6 +1053,18 @@ export function useChat() {
     sessionStartTime.current = Date.now();
   }, [setSessions]);
 
+  // Put in sessions restored from a backup, leaving the current one open
+  // if it is still there
+  const restoreSessions = useCallback(
+    (restored: ChatSession[]) => {
+      setSessions(restored);
+      setCurrentSessionId((id) =>
+        restored.some((session) => session.id === id) ? id : null
+      );
+    },
+    [setSessions]
+  );
+
   // Update session title
   const updateSessionTitle = useCallback(
     (sessionId: string, newTitle: string): void => {
@@ -666,21 +1091,399 @@ export function useChat() {
     [setSessions]
   );
 
+  // Change how replies are generated for one session
+  const updateSessionSettings = useCallback(
+    (sessionId: string, settings: GenerationSettings): void => {
+      if (!sessionId) return;
+
+      setSessions((prevSessions) => {
+        const safeSessionsList = Array.isArray(prevSessions)
+          ? prevSessions
+          : [];
+
+        return safeSessionsList.map((session) =>
+          session.id === sessionId
+            ? { ...session, settings, updatedAt: Date.now() }
+            : session
+        );
+      });
+    },
+    [setSessions]
+  );
+
+  // Switch a session between explaining, Socratic questions and hints
+  const updateSessionTutoringMode = useCallback(
+    (sessionId: string, tutoringMode: TutoringMode): void => {
+      if (!sessionId) return;
+
+      setSessions((prevSessions) => {
+        const safeSessionsList = Array.isArray(prevSessions)
+          ? prevSessions
+          : [];
+
+        return safeSessionsList.map((session) =>
+          session.id === sessionId
+            ? { ...session, tutoringMode, updatedAt: Date.now() }
+            : session
+        );
+      });
+    },
+    [setSessions]
+  );
+
+  const saveStudyNotes = useCallback(
+    (sessionId: string, studyNotes: StudyNotes): void => {
+      if (!sessionId) return;
+
+      setSessions((prevSessions) => {
+        const safeSessionsList = Array.isArray(prevSessions)
+          ? prevSessions
+          : [];
+
+        return safeSessionsList.map((session) =>
+          session.id === sessionId ? { ...session, studyNotes } : session
+        );
+      });
+    },
+    [setSessions]
+  );
+
+  // Count tokens spent outside of chat replies, e.g. writing a quiz
+  const recordUsage = useCallback(
+    (sessionId: string, usage: TokenUsage): void => {
+      setProgressStats((prev) =>
+        prev
+          ? {
+              ...prev,
+              usage: addToUsageStats(prev.usage, usage, {
+                day: new Date().toISOString().split('T')[0],
+                sessionId,
+              }),
+            }
+          : prev
+      );
+    },
+    [setProgressStats]
+  );
+
+  const recordQuizResult = useCallback(
+    (result: QuizResult): void => {
+      setProgressStats((prev) =>
+        prev
+          ? {
+              ...prev,
+              quizzes: addQuizResult(prev.quizzes, result),
+              lastActiveDate: new Date().toISOString().split('T')[0],
+            }
+          : prev
+      );
+    },
+    [setProgressStats]
+  );
+
+  // What requestVariant checks and sends, read when it is called rather than
+  // when it is made. It stays the same function, so the message bubbles,
+  // which skip re-rendering while other messages stream in, never hold one
+  // with an old session, tutoring mode or loading state.
+  const variantStateRef = useRef({
+    currentSessionId,
+    currentSession,
+    isLoading,
+    rateLimitedUntil,
+    learnerProfile,
+  });
+  useEffect(() => {
+    variantStateRef.current = {
+      currentSessionId,
+      currentSession,
+      isLoading,
+      rateLimitedUntil,
+      learnerProfile,
+    };
+  }, [
+    currentSessionId,
+    currentSession,
+    isLoading,
+    rateLimitedUntil,
+    learnerProfile,
+  ]);
+
+  // Ask for a reply to be explained another way. The new version is added
+  // to the same bubble as a variant the student can swipe between, rather
+  // than as another message in the thread. Automatic requests are the
+  // simpler rewrites asked for when a reply reads above the session's level.
+  const requestVariant = useCallback(
+    async (
+      messageId: string,
+      kind: MessageVariantKind,
+      { automatic = false }: { automatic?: boolean } = {}
+    ): Promise<void> => {
+      const {
+        currentSessionId: sessionId,
+        currentSession,
+        isLoading,
+        rateLimitedUntil,
+        learnerProfile,
+      } = variantStateRef.current;
+      const messages = currentSession?.messages ?? [];
+      const index = messages.findIndex((m) => m.id === messageId);
+      const target = messages[index];
+
+      if (
+        !sessionId ||
+        !currentSession ||
+        target?.role !== 'assistant' ||
+        target.isError ||
+        target.isStreaming ||
+        isLoading ||
+        (rateLimitedUntil && Date.now() < rateLimitedUntil)
+      ) {
+        return;
+      }
+
+      // Only one variant is written at a time
+      variantAbortControllerRef.current?.abort(CANCEL_REASON);
+      const controller = new AbortController();
+      variantAbortControllerRef.current = controller;
+
+      let timeoutId: NodeJS.Timeout | undefined;
+      const armTimeout = () => {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(
+          () => controller.abort(TIMEOUT_REASON),
+          API_TIMEOUT
+        );
+      };
+
+      const variant: MessageVariant = {
+        id: generateId(),
+        kind,
+        content: '',
+        timestamp: Date.now(),
+        ...(automatic && { automatic: true }),
+      };
+
+      // Add or update the variant and show it in place of the reply
+      const saveVariant = (updated: MessageVariant) => {
+        setSessions((prevSessions: ChatSession[]) => {
+          if (!Array.isArray(prevSessions)) return [];
+
+          return prevSessions.map((session) =>
+            session?.id === sessionId && Array.isArray(session.messages)
+              ? {
+                  ...session,
+                  messages: session.messages.map((message) => {
+                    if (message.id !== messageId) return message;
+
+                    const variants = message.variants ?? [];
+                    return {
+                      ...message,
+                      variants: variants.some((v) => v.id === updated.id)
+                        ? variants.map((v) =>
+                            v.id === updated.id ? updated : v
+                          )
+                        : [...variants, updated],
+                      activeVariantId: updated.id,
+                    };
+                  }),
+                  updatedAt: Date.now(),
+                }
+              : session
+          );
+        });
+      };
+
+      // The summary only stands in for the turns sent if it ends within them.
+      // Variants don't save the summary they get back, which covers only the
+      // turns up to the reply rather than the whole chat.
+      const summary = currentSession.summary;
+      const summaryEnd = summary
+        ? messages.findIndex((m) => m.id === summary.throughMessageId)
+        : -1;
+
+      setVariantRequest({ messageId, kind, automatic });
+      armTimeout();
+
+      let content = '';
+      try {
+        const response = await fetch('/api/chat', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            [STUDENT_ID_HEADER]: getStudentId(),
+          },
+          body: JSON.stringify({
+            sessionId,
+            messages: withActiveVariants(
+              messages.slice(0, index + 1).filter((m) => !m.isError)
+            ),
+            subject: currentSession.subject,
+            difficulty: currentSession.difficulty,
+            summary:
+              summaryEnd >= 0 && summaryEnd <= index ? summary : undefined,
+            settings: currentSession.settings,
+            tutoringMode: currentSession.tutoringMode,
+            learnerProfile,
+            variant: { kind },
+            stream: true,
+          }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const requestError = await toRequestError(response);
+          if (requestError.code === 'rate_limited' && requestError.retryAfter) {
+            setRateLimitedUntil(Date.now() + requestError.retryAfter * 1000);
+          }
+          throw requestError;
+        }
+
+        let lastFlush = 0;
+        const reply = await readChatReply(response, {
+          onProgress: (progress) => {
+            armTimeout();
+            content = progress.content;
+
+            if (content && Date.now() - lastFlush >= STREAM_FLUSH_INTERVAL) {
+              saveVariant({ ...variant, content, isStreaming: true });
+              lastFlush = Date.now();
+            }
+          },
+        });
+
+        if (!reply.content) {
+          throw new Error('Response missing message content');
+        }
+
+        saveVariant({
+          ...variant,
+          content: reply.content,
+          ...(reply.promptVersion && { promptVersion: reply.promptVersion }),
+          ...(reply.answerWithheld && { answerWithheld: true }),
+          ...(reply.usage && { usage: reply.usage }),
+        });
+        if (reply.usage) recordUsage(sessionId, reply.usage);
+        setVariantRequest(null);
+      } catch (variantError) {
+        // Keep whatever had already streamed in
+        if (content) saveVariant({ ...variant, content });
+
+        if (controller.signal.reason === CANCEL_REASON) return;
+
+        const code: ChatErrorCode =
+          controller.signal.reason === TIMEOUT_REASON
+            ? 'timeout'
+            : getChatErrorCode(variantError);
+
+        if (!(variantError instanceof ChatRequestError)) {
+          console.error('Variant request failed:', variantError);
+        }
+
+        setVariantRequest(
+          content
+            ? null
+            : {
+                messageId,
+                kind,
+                automatic,
+                error: CHAT_ERROR_INFO[code].message,
+              }
+        );
+      } finally {
+        clearTimeout(timeoutId);
+        if (variantAbortControllerRef.current === controller) {
+          variantAbortControllerRef.current = null;
+        }
+      }
+    },
+    [setSessions, recordUsage]
+  );
+
+  // Once a new reply has finished and nothing else is loading, check how hard
+  // it is to read. One that reads above the session's level is rewritten
+  // more simply; the rewrite itself is not checked again.
+  useEffect(() => {
+    const messageId = readingLevelCheckRef.current;
+    if (!messageId || isLoading || !currentSession) return;
+    readingLevelCheckRef.current = null;
+
+    const message = currentSession.messages.find((m) => m.id === messageId);
+    if (
+      message &&
+      currentSession.difficulty &&
+      preferences?.matchReadingLevel !== false &&
+      !message.isError &&
+      !message.variants?.length &&
+      isAboveReadingLevel(
+        analyzeReadability(message.content),
+        currentSession.difficulty
+      )
+    ) {
+      requestVariant(messageId, 'simpler', { automatic: true });
+    }
+  }, [
+    currentSession,
+    isLoading,
+    preferences?.matchReadingLevel,
+    requestVariant,
+  ]);
+
+  // Show one of a reply's variants, or the original when no id is given
+  const selectVariant = useCallback(
+    (messageId: string, variantId?: string): void => {
+      setSessions((prevSessions: ChatSession[]) => {
+        if (!Array.isArray(prevSessions)) return [];
+
+        return prevSessions.map((session) => {
+          if (!session || !Array.isArray(session.messages)) return session;
+
+          return {
+            ...session,
+            messages: session.messages.map((message) =>
+              message?.id === messageId
+                ? { ...message, activeVariantId: variantId }
+                : message
+            ),
+          };
+        });
+      });
+    },
+    [setSessions]
+  );
+
   return {
     sessions,
+    hasLoadedSessions,
     currentSession,
     currentSessionId,
     isLoading,
+    isStreaming,
     error,
+    errorCode,
     createNewSession,
     sendMessage,
+    retryLastMessage,
+    stopGenerating,
     debouncedSendMessage, // New debounced version
     deleteSession,
+    deleteSessions,
+    updateSessionOrganization,
     loadSession,
+    focusedMessageId,
     toggleMessageBookmark,
     clearAllSessions,
+    restoreSessions,
     setError,
     retryCount,
+    rateLimitSeconds,
     updateSessionTitle, // Expose the update function
+    updateSessionSettings,
+    updateSessionTutoringMode,
+    saveStudyNotes,
+    recordUsage,
+    recordQuizResult,
+    variantRequest,
+    requestVariant,
+    selectVariant,
   };
 }
@@ -1,180 +1,204 @@
 'use client';
 
-import { ChatSession, Message, ProgressStats } from '@/types';
-import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  BookmarkNote,
+  ChatSession,
+  ExplanationStyle,
+  FlashcardCollection,
+  ProgressStats,
+  TutorPersona,
+} from '@/types';
+import { useCallback, useSyncExternalStore } from 'react';
+import { getRepository, StorageKey } from '@/lib/storage';
+import { reportStorageError } from '@/lib/storage/errors';
 
 /**
- * A custom React hook for safely using localStorage with type safety,
- * optimized to avoid SSR-related errors and runtime issues.
- *
- * @param key The key to use in localStorage
- * @param initialValue The initial value to use if no value is found in localStorage
- * @returns A tuple of [value, setValue, removeValue]
+ * A stored value, shared by every component using its key so they all see
+ * the same data
  */
-export function useLocalStorage<T>(
-  key: string,
-  initialValue: T
-): [T, (value: T | ((val: T) => T)) => void, () => void] {
-  // Create a ref to track if the component is mounted
-  const isMounted = useRef(false);
-
-  // Function to safely get the initial value
-  const getInitialValue = (): T => {
-    // Only attempt to get from localStorage in browser environment
-    if (typeof window === 'undefined') {
-      return initialValue;
-    }
-
-    try {
-      // Get from localStorage
-      const item = window.localStorage.getItem(key);
-      // Parse stored json or return initialValue if nothing stored
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
-    }
-  };
+interface StoredEntry<T> {
+  state: { value: T; isLoaded: boolean };
+  /** What is shown before the stored value has loaded */
+  initialState: { value: T; isLoaded: boolean };
+  /** Updates made before the stored value loaded, replayed on top of it */
+  pending: ((value: T) => T)[];
+  /** Off if the stored value couldn't be read, so it isn't overwritten */
+  canSave: boolean;
+  listeners: Set<() => void>;
+}
+
+const entries = new Map<StorageKey, StoredEntry<unknown>>();
+
+function setEntryState<T>(
+  entry: StoredEntry<T>,
+  state: StoredEntry<T>['state']
+): void {
+  entry.state = state;
+  entry.listeners.forEach((listener) => listener());
+}
+
+function saveEntry<T>(key: StorageKey, entry: StoredEntry<T>): void {
+  if (!entry.canSave) return;
+  const { value } = entry.state;
+  getRepository().then((repository) => repository.save(key, value));
+}
 
-  // Initialize state with lazy initializer function to avoid
-  // repeated localStorage access on re-renders
-  const [storedValue, setStoredValue] = useState<T>(getInitialValue);
-
-  // Synchronize with localStorage whenever stored value changes
-  useEffect(() => {
-    // Skip the first render (SSR phase)
-    if (!isMounted.current) {
-      isMounted.current = true;
-      return;
-    }
-
-    // Only update localStorage in browser environment
-    if (typeof window !== 'undefined') {
-      try {
-        // Validation for chat sessions if the key is studypal_sessions
-        if (key === 'studypal_sessions' && Array.isArray(storedValue)) {
-          // Validate that each session has required fields
-          const validSessions = storedValue.filter((session) => {
-            const isValid =
-              session &&
-              typeof session === 'object' &&
-              typeof session.id === 'string' &&
-              Array.isArray(session.messages);
-
-            if (!isValid) {
-              console.warn('Filtered out invalid session:', session);
-            }
-            return isValid;
-          });
-
-          if (validSessions.length !== storedValue.length) {
-            console.warn(
-              `Filtered out ${
-                storedValue.length - validSessions.length
-              } invalid sessions`
-            );
-            // If we filtered out sessions, update the state
-            setStoredValue(validSessions as any);
-            return; // Don't save yet, let the next effect cycle handle it
-          }
-        }
-
-        window.localStorage.setItem(key, JSON.stringify(storedValue));
-      } catch (error) {
-        console.error(`Error setting localStorage key "${key}":`, error);
+function loadEntry<T>(key: StorageKey, entry: StoredEntry<T>): void {
+  getRepository()
+    .then((repository) => repository.load<T>(key))
+    .then(
+      (stored) => {
+        const updates = entry.pending;
+        entry.pending = [];
+        const value = updates.reduce(
+          (current, update) => update(current),
+          stored ?? entry.initialState.value
+        );
+        setEntryState(entry, { value, isLoaded: true });
+        if (updates.length > 0) saveEntry(key, entry);
+      },
+      (error) => {
+        // Keep changes in memory only rather than risk writing over data
+        // that is still there but couldn't be read
+        entry.canSave = false;
+        entry.pending = [];
+        setEntryState(entry, { ...entry.state, isLoaded: true });
+        reportStorageError([key], error);
       }
-    }
-  }, [key, storedValue]);
+    );
+}
+
+function getEntry<T>(key: StorageKey, initialValue: T): StoredEntry<T> {
+  let entry = entries.get(key) as StoredEntry<T> | undefined;
+
+  if (!entry) {
+    const initialState = { value: initialValue, isLoaded: false };
+    entry = {
+      state: initialState,
+      initialState,
+      pending: [],
+      canSave: true,
+      listeners: new Set(),
+    };
+    entries.set(key, entry as StoredEntry<unknown>);
+
+    // Data is only stored in the browser; the server renders the defaults
+    if (typeof window !== 'undefined') loadEntry(key, entry);
+  }
 
-  // Update value in state and localStorage
+  return entry;
+}
+
+/**
+ * State kept in the browser's storage (IndexedDB, or localStorage where
+ * IndexedDB is unavailable) with the same API as useState. Stored data
+ * loads asynchronously: until it has, the initial value is returned and
+ * `isLoaded` is false, and updates made in the meantime are applied on top
+ * of the stored value once it arrives.
+ *
+ * @param key Which stored value to use
+ * @param initialValue The value to use if nothing has been stored yet
+ * @returns A tuple of [value, setValue, removeValue, isLoaded]
+ */
+export function useStoredState<T>(
+  key: StorageKey,
+  initialValue: T
+): [T, (value: T | ((val: T) => T)) => void, () => void, boolean] {
+  const entry = getEntry(key, initialValue);
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      entry.listeners.add(listener);
+      return () => {
+        entry.listeners.delete(listener);
+      };
+    },
+    [entry]
+  );
+  const { value, isLoaded } = useSyncExternalStore(
+    subscribe,
+    () => entry.state,
+    () => entry.initialState
+  );
+
+  // Functional updates build on the latest value, so several issued in
+  // quick succession (e.g. while a reply is streaming in) don't undo each
+  // other
   const setValue = useCallback(
-    (value: T | ((val: T) => T)) => {
-      try {
-        // Allow value to be a function so we have the same API as useState
-        const valueToStore =
-          value instanceof Function ? value(storedValue) : value;
-
-        // Skip unnecessary updates if the value hasn't changed
-        if (JSON.stringify(valueToStore) === JSON.stringify(storedValue)) {
-          return;
-        }
-
-        // Save state - localStorage sync happens in the useEffect
-        setStoredValue(valueToStore);
-
-        // Immediately attempt to save to localStorage if possible
-        if (typeof window !== 'undefined' && isMounted.current) {
-          try {
-            localStorage.setItem(key, JSON.stringify(valueToStore));
-          } catch (storageError) {
-            // Check if it's a quota exceeded error
-            if (
-              storageError instanceof DOMException &&
-              (storageError.code === 22 ||
-                storageError.name === 'QuotaExceededError')
-            ) {
-              handleQuotaExceeded(key, valueToStore);
-            } else {
-              console.error(
-                `Error in immediate localStorage save for "${key}":`,
-                storageError
-              );
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error in setValue for key "${key}":`, error);
-      }
+    (update: T | ((val: T) => T)) => {
+      const apply = update instanceof Function ? update : () => update;
+      const next = apply(entry.state.value);
+      if (next === entry.state.value) return;
+
+      if (!entry.state.isLoaded) entry.pending.push(apply);
+      setEntryState(entry, { ...entry.state, value: next });
+      if (entry.state.isLoaded) saveEntry(key, entry);
     },
-    [key, storedValue]
+    [key, entry]
   );
 
-  // Remove value from state and localStorage
-  const removeValue = () => {
-    try {
-      // Reset to initial value
-      setStoredValue(initialValue);
+  const removeValue = useCallback(() => {
+    setEntryState(entry, { ...entry.state, value: entry.initialState.value });
+    if (!entry.canSave) return;
+    getRepository().then((repository) => repository.remove(key));
+  }, [key, entry]);
 
-      // Remove from localStorage in browser environment
-      if (typeof window !== 'undefined') {
-        window.localStorage.removeItem(key);
-      }
-    } catch (error) {
-      console.error(`Error removing localStorage key "${key}":`, error);
-    }
-  };
+  return [value, setValue, removeValue, isLoaded];
+}
 
-  return [storedValue, setValue, removeValue];
+/**
+ * useStoredState without `isLoaded`, for code written against the
+ * localStorage version of this hook. Keys must now be one of the stored
+ * `StorageKey`s.
+ *
+ * @param key Which stored value to use
+ * @param initialValue The value to use if nothing has been stored yet
+ * @returns A tuple of [value, setValue, removeValue]
+ */
+export function useLocalStorage<T>(
+  key: StorageKey,
+  initialValue: T
+): [T, (value: T | ((val: T) => T)) => void, () => void] {
+  const [value, setValue, removeValue] = useStoredState(key, initialValue);
+  return [value, setValue, removeValue];
 }
 
+/**
+ * Preferences used until the student changes them
+ */
+export const DEFAULT_PREFERENCES = {
+  fontSize: 'medium' as const,
+  highContrast: false,
+  speechRate: 1,
+  voiceIndex: 0,
+  enableSpeechToText: true,
+  enableTextToSpeech: true,
+  defaultSubject: '',
+  defaultDifficulty: 'beginner' as const,
+  theme: 'light' as 'light' | 'dark',
+  reducedMotion: false,
+  announceMessages: true,
+  keyboardShortcuts: true,
+  focusIndicators: true,
+  tutorPersona: 'encouraging' as TutorPersona,
+  explanationStyle: 'mixed' as ExplanationStyle,
+  needsMoreTime: false,
+  preferredName: '',
+  matchReadingLevel: true,
+};
+
 /**
  * Hook for managing user preferences
  */
 export function useUserPreferences() {
-  const defaultPreferences = {
-    fontSize: 'medium' as const,
-    highContrast: false,
-    speechRate: 1,
-    voiceIndex: 0,
-    enableSpeechToText: true,
-    enableTextToSpeech: true,
-    defaultSubject: '',
-    defaultDifficulty: 'beginner' as const,
-    theme: 'light' as 'light' | 'dark',
-    reducedMotion: false,
-    announceMessages: true,
-    keyboardShortcuts: true,
-    focusIndicators: true,
-  };
-
-  return useLocalStorage('studypal_preferences', defaultPreferences);
+  return useStoredState('studypal_preferences', DEFAULT_PREFERENCES);
 }
 
 /**
  * Hook for managing chat sessions
  */
 export function useChatSessions() {
-  const hook = useLocalStorage<ChatSession[]>('studypal_sessions', []);
+  const hook = useStoredState<ChatSession[]>('studypal_sessions', []);
   return hook;
 }
 
@@ -192,58 +216,23 @@ export function useProgressStats() {
     lastActiveDate: new Date().toISOString().split('T')[0],
   };
 
-  return useLocalStorage<ProgressStats>('studypal_progress', defaultStats);
+  return useStoredState<ProgressStats>('studypal_progress', defaultStats);
 }
 
 /**
- * Hook for managing bookmarked messages
+ * Hook for managing notes and tags on bookmarked messages. Which messages are
+ * bookmarked is kept on the messages themselves.
  */
 export function useBookmarks() {
-  return useLocalStorage<Message[]>('studypal_bookmarks', []);
+  return useStoredState<BookmarkNote[]>('studypal_bookmarks', []);
 }
 
 /**
- * Check if localStorage is available and has quota
+ * Hook for managing flashcard decks and cards
  */
-function isLocalStorageAvailable(): boolean {
-  try {
-    const testKey = '__test_storage__';
-    localStorage.setItem(testKey, testKey);
-    const result = localStorage.getItem(testKey) === testKey;
-    localStorage.removeItem(testKey);
-    return result;
-  } catch (e) {
-    return false;
-  }
-}
-
-/**
- * Handle localStorage quota exceeded error
- */
-function handleQuotaExceeded(key: string, value: any): void {
-  try {
-    console.warn('LocalStorage quota exceeded, attempting to clear old data');
-
-    // For chat sessions, keep only the 10 most recent
-    if (
-      key === 'studypal_sessions' &&
-      Array.isArray(value) &&
-      value.length > 10
-    ) {
-      // Sort by updated date and keep only the 10 most recent
-      const sortedSessions = [...value].sort(
-        (a, b) => b.updatedAt - a.updatedAt
-      );
-      const trimmedSessions = sortedSessions.slice(0, 10);
-      localStorage.setItem(key, JSON.stringify(trimmedSessions));
-      console.log(`Reduced sessions from ${value.length} to 10`);
-      return;
-    }
-
-    // If not sessions or other fallbacks failed, clear all non-essential data
-    localStorage.removeItem('studypal_progress');
-    console.log('Cleared progress data to make room');
-  } catch (e) {
-    console.error('Failed to recover from quota exceeded:', e);
-  }
+export function useFlashcardCollection() {
+  return useStoredState<FlashcardCollection>('studypal_flashcards', {
+    decks: [],
+    cards: [],
+  });
 }
@@ -0,0 +1,128 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChatErrorCode, ChatSession, Quiz, TokenUsage } from '@/types';
+import {
+  ChatRequestError,
+  getChatErrorCode,
+  isChatErrorResponse,
+} from '@/lib/errors';
+import { STUDENT_ID_HEADER } from '@/lib/rate-limit/types';
+import { generateId, getStudentId } from '@/lib/utils';
+
+const QUIZ_TIMEOUT = 45000; // Quizzes are longer than most replies
+
+/**
+ * Ask the server for a quiz on the latest part of a chat session
+ */
+export function useQuiz({
+  onUsage,
+}: {
+  /** Called with the tokens spent writing a quiz */
+  onUsage?: (sessionId: string, usage: TokenUsage) => void;
+} = {}) {
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [errorCode, setErrorCode] = useState<ChatErrorCode | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Don't leave a request running after the chat is closed
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const startQuiz = useCallback(
+    async (session: ChatSession) => {
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const timeoutId = setTimeout(() => controller.abort(), QUIZ_TIMEOUT);
+
+      setIsGenerating(true);
+      setErrorCode(null);
+      setQuiz(null);
+
+      try {
+        const response = await fetch('/api/quiz', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            [STUDENT_ID_HEADER]: getStudentId(),
+          },
+          body: JSON.stringify({
+            sessionId: session.id,
+            messages: session.messages,
+            subject: session.subject,
+            difficulty: session.difficulty,
+          }),
+          signal: controller.signal,
+        });
+
+        let data: unknown;
+        try {
+          data = await response.json();
+        } catch {
+          data = undefined;
+        }
+
+        if (!response.ok) {
+          throw new ChatRequestError(
+            isChatErrorResponse(data)
+              ? data
+              : {
+                  error: `HTTP error ${response.status}`,
+                  code: 'unknown',
+                  retryable: true,
+                }
+          );
+        }
+
+        const { questions, usage } = (data ?? {}) as {
+          questions?: Quiz['questions'];
+          usage?: TokenUsage;
+        };
+
+        if (!Array.isArray(questions) || questions.length === 0) {
+          throw new ChatRequestError({
+            error: 'Quiz missing questions',
+            code: 'invalid_response',
+            retryable: true,
+          });
+        }
+
+        if (usage) onUsage?.(session.id, usage);
+
+        setQuiz({
+          id: generateId(),
+          sessionId: session.id,
+          questions,
+          createdAt: Date.now(),
+        });
+      } catch (error) {
+        // Closing the quiz or starting another is not an error
+        if (abortControllerRef.current !== controller) return;
+
+        setErrorCode(
+          controller.signal.aborted ? 'timeout' : getChatErrorCode(error)
+        );
+      } finally {
+        clearTimeout(timeoutId);
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsGenerating(false);
+        }
+      }
+    },
+    [onUsage]
+  );
+
+  const closeQuiz = useCallback(() => {
+    const controller = abortControllerRef.current;
+    abortControllerRef.current = null;
+    controller?.abort();
+
+    setQuiz(null);
+    setErrorCode(null);
+    setIsGenerating(false);
+  }, []);
+
+  return { quiz, isGenerating, errorCode, startQuiz, closeQuiz };
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChatErrorCode, ChatSession, StudyNotes, TokenUsage } from '@/types';
+import {
+  ChatRequestError,
+  getChatErrorCode,
+  isChatErrorResponse,
+} from '@/lib/errors';
+import { STUDENT_ID_HEADER } from '@/lib/rate-limit/types';
+import { getStudentId } from '@/lib/utils';
+
+const NOTES_TIMEOUT = 45000; // Notes cover the whole session
+
+/**
+ * Ask the server for study notes on a chat session
+ */
+export function useStudyNotes({
+  onNotes,
+  onUsage,
+}: {
+  /** Called with the finished notes, to store them on the session */
+  onNotes: (sessionId: string, notes: StudyNotes) => void;
+  /** Called with the tokens spent writing the notes */
+  onUsage?: (sessionId: string, usage: TokenUsage) => void;
+}) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [errorCode, setErrorCode] = useState<ChatErrorCode | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Don't leave a request running after the chat is closed
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const summarize = useCallback(
+    async (session: ChatSession) => {
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const timeoutId = setTimeout(() => controller.abort(), NOTES_TIMEOUT);
+
+      setIsGenerating(true);
+      setErrorCode(null);
+
+      try {
+        const response = await fetch('/api/notes', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            [STUDENT_ID_HEADER]: getStudentId(),
+          },
+          body: JSON.stringify({
+            sessionId: session.id,
+            messages: session.messages,
+            subject: session.subject,
+            difficulty: session.difficulty,
+            summary: session.summary?.content,
+          }),
+          signal: controller.signal,
+        });
+
+        let data: unknown;
+        try {
+          data = await response.json();
+        } catch {
+          data = undefined;
+        }
+
+        if (!response.ok) {
+          throw new ChatRequestError(
+            isChatErrorResponse(data)
+              ? data
+              : {
+                  error: `HTTP error ${response.status}`,
+                  code: 'unknown',
+                  retryable: true,
+                }
+          );
+        }
+
+        const { notes, usage } = (data ?? {}) as {
+          notes?: Omit<StudyNotes, 'createdAt' | 'throughMessageId'>;
+          usage?: TokenUsage;
+        };
+
+        if (!Array.isArray(notes?.keyConcepts)) {
+          throw new ChatRequestError({
+            error: 'Study notes missing',
+            code: 'invalid_response',
+            retryable: true,
+          });
+        }
+
+        if (usage) onUsage?.(session.id, usage);
+
+        onNotes(session.id, {
+          ...notes,
+          createdAt: Date.now(),
+          throughMessageId: session.messages[session.messages.length - 1]?.id,
+        });
+      } catch (error) {
+        // Closing the notes or asking again is not an error
+        if (abortControllerRef.current !== controller) return;
+
+        setErrorCode(
+          controller.signal.aborted ? 'timeout' : getChatErrorCode(error)
+        );
+      } finally {
+        clearTimeout(timeoutId);
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsGenerating(false);
+        }
+      }
+    },
+    [onNotes, onUsage]
+  );
+
+  const cancel = useCallback(() => {
+    const controller = abortControllerRef.current;
+    abortControllerRef.current = null;
+    controller?.abort();
+
+    setErrorCode(null);
+    setIsGenerating(false);
+  }, []);
+
+  return { isGenerating, errorCode, summarize, cancel };
+}
@@ -0,0 +1,221 @@
+/**
+ * Helpers shared by the API routes that call the model: structured errors,
+ * rate limits and the token budget.
+ */
+
+import { NextResponse } from 'next/server';
+import { ProviderError } from '@/lib/providers';
+import {
+  getRateLimiter,
+  getRateLimitRules,
+  getStudentKey,
+  getUsageBudget,
+  rateLimitHeaders,
+} from '@/lib/rate-limit';
+import { estimateTokens } from '@/lib/context';
+import { priceUsage } from '@/lib/usage';
+import { ChatErrorCode, ChatErrorResponse, Message, TokenUsage } from '@/types';
+
+/**
+ * HTTP status for each error code
+ */
+const ERROR_STATUS: Record<ChatErrorCode, number> = {
+  rate_limited: 429,
+  provider_busy: 503,
+  provider_unavailable: 502,
+  auth: 502,
+  timeout: 504,
+  content_filtered: 422,
+  context_too_long: 413,
+  budget_exceeded: 429,
+  offline: 503,
+  invalid_request: 400,
+  stream_interrupted: 502,
+  invalid_response: 502,
+  unknown: 500,
+};
+
+/**
+ * Describe a failure for the client. Provider errors carry their own code;
+ * anything else gets `fallbackCode`.
+ */
+export function toChatError(
+  error: unknown,
+  fallbackCode: ChatErrorCode = 'unknown'
+): ChatErrorResponse {
+  if (error instanceof ProviderError) {
+    return {
+      error: error.message,
+      code: error.code === 'unknown' ? fallbackCode : error.code,
+      retryable: error.retryable,
+      retryAfter:
+        error.retryAfter !== undefined
+          ? Math.ceil(error.retryAfter)
+          : undefined,
+      attempts: error.attempts,
+    };
+  }
+
+  console.error('Chat request failed:', error);
+
+  return {
+    error: 'Internal server error',
+    code: fallbackCode,
+    retryable: true,
+  };
+}
+
+/**
+ * Send a structured error, with `Retry-After` when we know how long to wait
+ */
+export function errorResponse(
+  chatError: ChatErrorResponse,
+  headers: Record<string, string> = {}
+): NextResponse {
+  return NextResponse.json(chatError, {
+    status: ERROR_STATUS[chatError.code],
+    headers: {
+      ...(chatError.retryAfter !== undefined && {
+        'Retry-After': String(chatError.retryAfter),
+      }),
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Whether a request body is a JSON object, the only shape the routes accept
+ */
+export function isRequestBody(body: unknown): boolean {
+  return typeof body === 'object' && body !== null && !Array.isArray(body);
+}
+
+/**
+ * Whether every message in a request is one the model can be sent: a known
+ * role and text content
+ */
+export function isMessageList(messages: unknown): messages is Message[] {
+  return (
+    Array.isArray(messages) &&
+    messages.every(
+      (m) =>
+        isRequestBody(m) &&
+        (m.role === 'user' || m.role === 'assistant') &&
+        typeof m.content === 'string'
+    )
+  );
+}
+
+/**
+ * Check a request against the rate limits and the daily token budget.
+ * Returns the response to send if it is refused; otherwise the limit headers
+ * to add to the response, and who the request is charged to.
+ *
+ * Once the budget is spent, requests carry on with the cheaper fallback
+ * model if there is one (`budgetModel`), and are refused until tomorrow if
+ * not.
+ */
+export async function checkRequestLimits(
+  headers: Headers,
+  sessionId: unknown
+): Promise<
+  | { response: NextResponse }
+  | {
+      headers: Record<string, string>;
+      studentKey?: string;
+      budgetModel?: string;
+    }
+> {
+  // Check rate limit for this student and their network
+  const limit = await getRateLimiter().consume(
+    getRateLimitRules(headers, sessionId)
+  );
+  const limitHeaders = rateLimitHeaders(limit);
+
+  if (!limit.allowed) {
+    return {
+      response: errorResponse(
+        {
+          error: 'Rate limit exceeded. Please try again later.',
+          code: 'rate_limited',
+          retryable: true,
+          retryAfter: limit.retryAfter,
+        },
+        limitHeaders
+      ),
+    };
+  }
+
+  const studentKey = getStudentKey(headers, sessionId);
+  const usageBudget = getUsageBudget();
+  const budget = await usageBudget.check(studentKey);
+
+  if (!budget.allowed && !usageBudget.config.fallbackModel) {
+    return {
+      response: errorResponse(
+        {
+          error:
+            budget.exceeded === 'student'
+              ? 'Daily token budget for this student used up'
+              : 'Daily token budget used up',
+          code: 'budget_exceeded',
+          retryable: false,
+          retryAfter: budget.retryAfter,
+        },
+        limitHeaders
+      ),
+    };
+  }
+
+  return {
+    headers: limitHeaders,
+    studentKey,
+    budgetModel: budget.allowed ? undefined : usageBudget.config.fallbackModel,
+  };
+}
+
+/**
+ * Add the rate limit headers to a response
+ */
+export function withLimitHeaders(
+  response: Response,
+  headers: Record<string, string>
+): Response {
+  for (const [name, value] of Object.entries(headers)) {
+    // Keep a Retry-After sent on by the model provider
+    if (!response.headers.has(name)) {
+      response.headers.set(name, value);
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Rough token counts for a request the provider didn't report usage for
+ */
+export function estimateUsage(prompt: string, reply: string): TokenUsage {
+  return {
+    promptTokens: estimateTokens(prompt),
+    completionTokens: estimateTokens(reply),
+    estimated: true,
+  };
+}
+
+/**
+ * Price a request's tokens and charge them to today's budget. Returns the
+ * priced usage, to send back to the client.
+ */
+export function chargeUsage(
+  studentKey: string | undefined,
+  usage: TokenUsage
+): TokenUsage {
+  const budget = getUsageBudget();
+  const priced = priceUsage(usage, budget.config.prices);
+
+  budget.record(studentKey, priced).catch((recordError) => {
+    console.error('Failed to record token usage:', recordError);
+  });
+
+  return priced;
+}
@@ -0,0 +1,821 @@
+import {
+  AccessibilityFeatures,
+  BookmarkNote,
+  ChatSession,
+  FlashcardCollection,
+  Message,
+  MessageVariant,
+  ProgressStats,
+  UserPreferences,
+} from '@/types';
+
+/**
+ * Backup files: everything a student has saved, in a versioned format
+ * described by the JSON Schema in `public/schemas`. Files from older
+ * versions, including the unversioned exports made before there was a
+ * format, are upgraded when they are read.
+ */
+
+export const BACKUP_FORMAT = 'studypal-backup';
+export const BACKUP_VERSION = 1;
+/** Where the JSON Schema for the current version is served */
+export const BACKUP_SCHEMA_PATH = '/schemas/studypal-backup.v1.json';
+
+/**
+ * Display, speech and learner profile settings. A backup may have only
+ * some of them.
+ */
+export type BackupPreferences = Partial<
+  UserPreferences & AccessibilityFeatures
+>;
+
+/**
+ * Everything a backup can hold, which is also what an import produces
+ */
+export interface BackupData {
+  sessions: ChatSession[];
+  bookmarks: BookmarkNote[];
+  preferences: BackupPreferences;
+  progress: ProgressStats;
+  flashcards: FlashcardCollection;
+}
+
+/**
+ * What was read from a backup file. Sections the file doesn't have are
+ * left out, and are left alone when it is imported.
+ */
+export interface ParsedBackup extends Partial<BackupData> {
+  exportedAt?: string;
+  /** Items that didn't match the schema and will be skipped */
+  skipped: Record<ImportItem, number>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export const IMPORT_MODES: Record<
+  ImportMode,
+  { label: string; description: string }
+> = {
+  merge: {
+    label: 'Add to what is here',
+    description:
+      'Keep everything you have now and add the chats, messages, notes and flashcards that are new. Your settings and progress stay as they are.',
+  },
+  replace: {
+    label: 'Replace what is here',
+    description:
+      'Use the backup instead of what you have now. Chats, notes and flashcards that are not in the backup are removed, unless the backup has none of that kind at all.',
+  },
+};
+
+export type ImportItem =
+  | 'sessions'
+  | 'messages'
+  | 'bookmarks'
+  | 'decks'
+  | 'cards'
+  | 'preferences'
+  | 'progress';
+
+const IMPORT_ITEM_LABELS: Record<ImportItem, string> = {
+  sessions: 'Chats',
+  messages: 'Messages',
+  bookmarks: 'Bookmark notes',
+  decks: 'Flashcard decks',
+  cards: 'Flashcards',
+  preferences: 'Settings',
+  progress: 'Progress',
+};
+
+/**
+ * What an import did to one kind of item
+ */
+export interface ImportSummaryItem {
+  item: ImportItem;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  skipped: number;
+}
+
+type Check = (value: unknown) => boolean;
+
+/**
+ * The fields of an object in the schema: required fields make the object
+ * invalid when they don't match, optional ones are dropped instead
+ */
+interface Fields {
+  required: Record<string, Check>;
+  optional: Record<string, Check>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === 'boolean';
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+const isId = (value: unknown): value is string =>
+  isString(value) && value !== '';
+const oneOf =
+  (...values: unknown[]): Check =>
+  (value) =>
+    values.includes(value);
+const arrayOf =
+  (check: Check): Check =>
+  (value) =>
+    Array.isArray(value) && value.every(check);
+const recordOf =
+  (check: Check): Check =>
+  (value) =>
+    isObject(value) && Object.values(value).every(check);
+
+/**
+ * Whether a value has every required field, and every optional field it
+ * has matches too. For nested objects, which are kept or dropped whole.
+ */
+const matches =
+  ({ required, optional }: Fields): Check =>
+  (value) =>
+    isObject(value) &&
+    Object.entries(required).every(([key, check]) => check(value[key])) &&
+    Object.entries(optional).every(
+      ([key, check]) => value[key] === undefined || check(value[key])
+    );
+
+const hasRequired =
+  <T>({ required }: Fields) =>
+  (value: unknown): value is T =>
+    isObject(value) &&
+    Object.entries(required).every(([key, check]) => check(value[key]));
+
+/**
+ * A copy of an object without the optional fields that don't match
+ */
+function dropInvalidFields<T>(value: T, { optional }: Fields): T {
+  const repaired = { ...value } as Record<string, unknown>;
+  for (const [key, check] of Object.entries(optional)) {
+    if (repaired[key] !== undefined && !check(repaired[key])) {
+      delete repaired[key];
+    }
+  }
+  return repaired as T;
+}
+
+// The checks below follow the definitions in the JSON Schema; keep them in
+// step when either changes
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'];
+
+const USAGE_FIELDS: Fields = {
+  required: { promptTokens: isNumber, completionTokens: isNumber },
+  optional: { cost: isNumber, estimated: isBoolean },
+};
+
+const USAGE_TOTALS_FIELDS: Fields = {
+  required: {
+    promptTokens: isNumber,
+    completionTokens: isNumber,
+    cost: isNumber,
+    replies: isNumber,
+  },
+  optional: {},
+};
+
+const VARIANT_FIELDS: Fields = {
+  required: {
+    id: isId,
+    kind: oneOf('analogy', 'simpler', 'example', 'steps'),
+    content: isString,
+    timestamp: isNumber,
+  },
+  optional: {
+    promptVersion: isString,
+    usage: matches(USAGE_FIELDS),
+    answerWithheld: isBoolean,
+    automatic: isBoolean,
+  },
+};
+
+const MESSAGE_FIELDS: Fields = {
+  required: {
+    id: isId,
+    role: oneOf('user', 'assistant'),
+    content: isString,
+    timestamp: isNumber,
+  },
+  optional: {
+    isBookmarked: isBoolean,
+    isError: isBoolean,
+    answerWithheld: isBoolean,
+    promptVersion: isString,
+    errorCode: isString,
+    usage: matches(USAGE_FIELDS),
+    variants: Array.isArray,
+    activeVariantId: isString,
+  },
+};
+
+const SESSION_FIELDS: Fields = {
+  required: {
+    id: isId,
+    title: isString,
+    messages: Array.isArray,
+    createdAt: isNumber,
+    updatedAt: isNumber,
+  },
+  optional: {
+    subject: isString,
+    difficulty: oneOf(...DIFFICULTIES),
+    summary: matches({
+      required: {
+        content: isString,
+        throughMessageId: isString,
+        updatedAt: isNumber,
+      },
+      optional: {},
+    }),
+    settings: matches({
+      required: {},
+      optional: {
+        model: isString,
+        temperature: isNumber,
+        length: oneOf('short', 'medium', 'long'),
+        style: oneOf('balanced', 'concise', 'step_by_step', 'detailed'),
+      },
+    }),
+    tutoringMode: oneOf('explain', 'socratic', 'hints'),
+    studyNotes: matches({
+      required: {
+        keyConcepts: isStringArray,
+        definitions: arrayOf(
+          matches({
+            required: { term: isString, meaning: isString },
+            optional: {},
+          })
+        ),
+        openQuestions: isStringArray,
+        nextSteps: isStringArray,
+        createdAt: isNumber,
+      },
+      optional: { throughMessageId: isString },
+    }),
+    folder: isString,
+    tags: isStringArray,
+    pinned: isBoolean,
+    archived: isBoolean,
+  },
+};
+
+const BOOKMARK_NOTE_FIELDS: Fields = {
+  required: {
+    messageId: isString,
+    sessionId: isString,
+    note: isString,
+    tags: isStringArray,
+    updatedAt: isNumber,
+  },
+  optional: {},
+};
+
+const PROGRESS_FIELDS: Fields = {
+  required: {
+    totalSessions: isNumber,
+    totalMessages: isNumber,
+    timeSpent: isNumber,
+    topicsExplored: isStringArray,
+    favoriteSubjects: isStringArray,
+    streakDays: isNumber,
+    lastActiveDate: isString,
+  },
+  optional: {
+    quizzes: matches({
+      required: {
+        taken: isNumber,
+        questionsAnswered: isNumber,
+        correctAnswers: isNumber,
+        recent: arrayOf(
+          matches({
+            required: {
+              quizId: isString,
+              sessionId: isString,
+              correct: isNumber,
+              total: isNumber,
+              completedAt: isNumber,
+            },
+            optional: { subject: isString },
+          })
+        ),
+      },
+      optional: {},
+    }),
+    usage: matches({
+      required: {
+        total: matches(USAGE_TOTALS_FIELDS),
+        byDay: recordOf(matches(USAGE_TOTALS_FIELDS)),
+        bySession: recordOf(matches(USAGE_TOTALS_FIELDS)),
+      },
+      optional: {},
+    }),
+  },
+};
+
+const DECK_FIELDS: Fields = {
+  required: { id: isString, name: isString, createdAt: isNumber },
+  optional: { subject: isString },
+};
+
+const CARD_FIELDS: Fields = {
+  required: {
+    id: isString,
+    deckId: isString,
+    front: isString,
+    back: isString,
+    createdAt: isNumber,
+    easeFactor: isNumber,
+    interval: isNumber,
+    repetitions: isNumber,
+    lapses: isNumber,
+    dueAt: isNumber,
+  },
+  optional: {
+    source: matches({
+      required: { sessionId: isString, messageId: isString },
+      optional: {},
+    }),
+    lastReviewedAt: isNumber,
+  },
+};
+
+// Every preference is optional; settings a backup doesn't have, or has in
+// a form this version doesn't understand, keep their defaults
+const PREFERENCE_FIELDS: Fields = {
+  required: {},
+  optional: {
+    fontSize: oneOf('small', 'medium', 'large', 'xl'),
+    highContrast: isBoolean,
+    speechRate: isNumber,
+    voiceIndex: isNumber,
+    enableSpeechToText: isBoolean,
+    enableTextToSpeech: isBoolean,
+    defaultSubject: isString,
+    defaultDifficulty: oneOf(...DIFFICULTIES),
+    theme: oneOf('light', 'dark'),
+    reducedMotion: isBoolean,
+    announceMessages: isBoolean,
+    keyboardShortcuts: isBoolean,
+    focusIndicators: isBoolean,
+    tutorPersona: oneOf('encouraging', 'coach', 'buddy', 'storyteller'),
+    explanationStyle: oneOf('mixed', 'examples', 'analogies', 'visual'),
+    needsMoreTime: isBoolean,
+    preferredName: isString,
+    matchReadingLevel: isBoolean,
+  },
+};
+
+/**
+ * A message without invalid fields or variants. The variant being shown is
+ * forgotten if it was dropped, so the original reply shows instead.
+ */
+function repairMessage(message: Message): Message {
+  const repaired = dropInvalidFields(message, MESSAGE_FIELDS);
+  delete repaired.isStreaming;
+
+  if (repaired.variants) {
+    repaired.variants = repaired.variants
+      .filter(hasRequired<MessageVariant>(VARIANT_FIELDS))
+      .map((variant) => {
+        const restored = dropInvalidFields(variant, VARIANT_FIELDS);
+        delete restored.isStreaming;
+        return restored;
+      });
+    if (repaired.variants.length === 0) delete repaired.variants;
+  }
+  if (
+    repaired.activeVariantId &&
+    !repaired.variants?.some(
+      (variant) => variant.id === repaired.activeVariantId
+    )
+  ) {
+    delete repaired.activeVariantId;
+  }
+
+  return repaired;
+}
+
+/**
+ * Only the preferences this version knows, each of the right type
+ */
+function repairPreferences(
+  preferences: Record<string, unknown>
+): BackupPreferences {
+  return dropInvalidFields(
+    Object.fromEntries(
+      Object.keys(PREFERENCE_FIELDS.optional)
+        .filter((key) => preferences[key] !== undefined)
+        .map((key) => [key, preferences[key]])
+    ),
+    PREFERENCE_FIELDS
+  );
+}
+
+/**
+ * A backup as the current version writes it
+ */
+export function createBackup(data: BackupData): string {
+  // A reply still streaming in when the backup was made is kept as it was
+  const sessions = data.sessions.map((session) => ({
+    ...session,
+    messages: session.messages.map((message) => {
+      const saved = { ...message };
+      delete saved.isStreaming;
+      return saved;
+    }),
+  }));
+
+  return JSON.stringify(
+    {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      ...data,
+      sessions,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Steps that bring a backup from one version to the next, keyed by the
+ * version they start from. Version 0 is the unversioned export made before
+ * there was a format: `{ sessions, preferences, progressStats, exportDate }`.
+ */
+const UPGRADES: Record<
+  number,
+  (backup: Record<string, unknown>) => Record<string, unknown>
+> = {
+  0: ({ progressStats, exportDate, ...rest }) => ({
+    ...rest,
+    format: BACKUP_FORMAT,
+    version: 1,
+    exportedAt: exportDate,
+    progress: progressStats,
+  }),
+};
+
+function getVersion(data: Record<string, unknown>): number | undefined {
+  if (data.format === BACKUP_FORMAT) {
+    return isNumber(data.version) ? data.version : undefined;
+  }
+  // Exports from before the format had no marker of their own, but always
+  // had every chat and the date they were made
+  const isLegacy =
+    !('format' in data) &&
+    !('version' in data) &&
+    Array.isArray(data.sessions) &&
+    isString(data.exportDate);
+  return isLegacy ? 0 : undefined;
+}
+
+/**
+ * Read a backup file that has already been parsed as JSON. Chats, messages,
+ * notes and flashcards missing something the schema requires are dropped
+ * and counted, and other fields that don't match it are removed; it is an
+ * error only if the file isn't a backup at all.
+ */
+export function parseBackup(
+  data: unknown
+): { backup: ParsedBackup } | { error: string } {
+  if (!isObject(data)) {
+    return { error: 'This file is not a StudyPal backup.' };
+  }
+
+  const version = getVersion(data);
+  if (version === undefined) {
+    return { error: 'This file is not a StudyPal backup.' };
+  }
+  if (version > BACKUP_VERSION) {
+    return {
+      error:
+        'This backup was made by a newer version of StudyPal. Update the app, then try again.',
+    };
+  }
+
+  let upgraded = data;
+  for (let from = version; from < BACKUP_VERSION; from++) {
+    upgraded = UPGRADES[from](upgraded);
+  }
+
+  const skipped: Record<ImportItem, number> = {
+    sessions: 0,
+    messages: 0,
+    bookmarks: 0,
+    decks: 0,
+    cards: 0,
+    preferences: 0,
+    progress: 0,
+  };
+
+  // Items missing a required field are skipped; other fields that don't
+  // match are dropped from the items that are kept
+  const keepValid = <T>(
+    value: unknown,
+    fields: Fields,
+    item: ImportItem
+  ): T[] => {
+    const items = Array.isArray(value) ? value : [];
+    const valid = items.filter(hasRequired<T>(fields));
+    skipped[item] += items.length - valid.length;
+    return valid.map((valid) => dropInvalidFields(valid, fields));
+  };
+
+  const backup: ParsedBackup = {
+    skipped,
+    ...(isString(upgraded.exportedAt) && { exportedAt: upgraded.exportedAt }),
+  };
+
+  if (Array.isArray(upgraded.sessions)) {
+    backup.sessions = keepValid<ChatSession>(
+      upgraded.sessions,
+      SESSION_FIELDS,
+      'sessions'
+    ).map((session) => ({
+      ...session,
+      messages: keepValid<Message>(
+        session.messages,
+        MESSAGE_FIELDS,
+        'messages'
+      ).map(repairMessage),
+    }));
+  }
+
+  if (Array.isArray(upgraded.bookmarks)) {
+    backup.bookmarks = keepValid(
+      upgraded.bookmarks,
+      BOOKMARK_NOTE_FIELDS,
+      'bookmarks'
+    );
+  }
+  if (isObject(upgraded.preferences)) {
+    backup.preferences = repairPreferences(upgraded.preferences);
+  } else if (upgraded.preferences !== undefined) {
+    skipped.preferences = 1;
+  }
+  if (hasRequired<ProgressStats>(PROGRESS_FIELDS)(upgraded.progress)) {
+    backup.progress = dropInvalidFields(upgraded.progress, PROGRESS_FIELDS);
+  } else if (upgraded.progress !== undefined) {
+    skipped.progress = 1;
+  }
+  if (isObject(upgraded.flashcards)) {
+    backup.flashcards = {
+      decks: keepValid(upgraded.flashcards.decks, DECK_FIELDS, 'decks'),
+      cards: keepValid(upgraded.flashcards.cards, CARD_FIELDS, 'cards'),
+    };
+  }
+
+  return { backup };
+}
+
+function emptySummary(item: ImportItem, skipped = 0): ImportSummaryItem {
+  return { item, added: 0, updated: 0, unchanged: 0, removed: 0, skipped };
+}
+
+/**
+ * Combine two lists of items with ids. Merging keeps every current item and
+ * adds the new ones; replacing keeps the incoming list. Duplicates within
+ * the incoming list are dropped either way.
+ */
+function combineById<T>(
+  current: T[],
+  incoming: T[],
+  getId: (item: T) => string,
+  mode: ImportMode,
+  summary: ImportSummaryItem
+): T[] {
+  const currentIds = new Set(current.map(getId));
+  const seen = new Set<string>();
+  const unique = incoming.filter((item) => {
+    const id = getId(item);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+
+  for (const item of unique) {
+    if (!currentIds.has(getId(item))) summary.added++;
+    else if (mode === 'replace') summary.updated++;
+    else summary.unchanged++;
+  }
+
+  if (mode === 'replace') {
+    summary.removed = current.filter((item) => !seen.has(getId(item))).length;
+    return unique;
+  }
+  return [...current, ...unique.filter((item) => !currentIds.has(getId(item)))];
+}
+
+/**
+ * Merge or replace chat sessions. When merging a session that is already
+ * here, messages it doesn't have yet are added in time order; everything
+ * else about it stays as it is.
+ */
+function combineSessions(
+  current: ChatSession[],
+  incoming: ChatSession[],
+  mode: ImportMode,
+  sessionSummary: ImportSummaryItem,
+  messageSummary: ImportSummaryItem
+): ChatSession[] {
+  // Messages repeated within one session are kept once
+  const deduped = incoming.map((session) => ({
+    ...session,
+    messages: combineById(
+      [],
+      session.messages,
+      (message) => message.id,
+      'replace',
+      emptySummary('messages')
+    ),
+  }));
+
+  const byId = new Map(current.map((session) => [session.id, session]));
+  const counted = combineById(
+    current,
+    deduped,
+    (session) => session.id,
+    mode,
+    emptySummary('sessions')
+  );
+
+  if (mode === 'replace') {
+    for (const session of counted) {
+      const existing = byId.get(session.id);
+      if (existing) sessionSummary.updated++;
+      else sessionSummary.added++;
+      messageSummary.added += session.messages.length;
+    }
+    sessionSummary.removed = current.length - sessionSummary.updated;
+    return counted;
+  }
+
+  const incomingById = new Map<string, ChatSession>();
+  for (const session of deduped) {
+    if (!incomingById.has(session.id)) incomingById.set(session.id, session);
+  }
+
+  const merged = current.map((session) => {
+    const other = incomingById.get(session.id);
+    if (!other) return session;
+
+    const known = new Set(session.messages.map((message) => message.id));
+    const added = other.messages.filter((message) => !known.has(message.id));
+    messageSummary.unchanged += other.messages.length - added.length;
+    if (added.length === 0) {
+      sessionSummary.unchanged++;
+      return session;
+    }
+
+    sessionSummary.updated++;
+    messageSummary.added += added.length;
+    return {
+      ...session,
+      messages: [...session.messages, ...added].sort(
+        (a, b) => a.timestamp - b.timestamp
+      ),
+      updatedAt: Math.max(session.updatedAt, other.updatedAt),
+    };
+  });
+
+  const newSessions = [...incomingById.values()]
+    .filter((session) => !byId.has(session.id))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  sessionSummary.added += newSessions.length;
+  messageSummary.added += newSessions.reduce(
+    (sum, session) => sum + session.messages.length,
+    0
+  );
+
+  return [...merged, ...newSessions];
+}
+
+/**
+ * Apply a backup to the data already here, returning the data to keep and
+ * what happened to each kind of item
+ */
+export function importBackup(
+  current: BackupData,
+  backup: ParsedBackup,
+  mode: ImportMode
+): { data: BackupData; summary: ImportSummaryItem[] } {
+  const summary: ImportSummaryItem[] = [];
+  const data = { ...current };
+
+  if (backup.sessions) {
+    const sessionSummary = emptySummary('sessions', backup.skipped.sessions);
+    const messageSummary = emptySummary('messages', backup.skipped.messages);
+    data.sessions = combineSessions(
+      current.sessions,
+      backup.sessions,
+      mode,
+      sessionSummary,
+      messageSummary
+    );
+    summary.push(sessionSummary, messageSummary);
+  }
+
+  if (backup.bookmarks) {
+    const item = emptySummary('bookmarks', backup.skipped.bookmarks);
+    data.bookmarks = combineById(
+      current.bookmarks,
+      backup.bookmarks,
+      (note) => `${note.sessionId}:${note.messageId}`,
+      mode,
+      item
+    );
+    summary.push(item);
+  }
+
+  if (backup.flashcards) {
+    const decks = emptySummary('decks', backup.skipped.decks);
+    const cards = emptySummary('cards', backup.skipped.cards);
+    data.flashcards = {
+      decks: combineById(
+        current.flashcards.decks,
+        backup.flashcards.decks,
+        (deck) => deck.id,
+        mode,
+        decks
+      ),
+      cards: combineById(
+        current.flashcards.cards,
+        backup.flashcards.cards,
+        (card) => card.id,
+        mode,
+        cards
+      ),
+    };
+    summary.push(decks, cards);
+  }
+
+  // Settings and progress are single items: merging keeps the ones here
+  for (const item of ['preferences', 'progress'] as const) {
+    const result = emptySummary(item, backup.skipped[item]);
+    if (backup[item] && mode === 'replace') {
+      data[item] = backup[item] as never;
+      result.updated = 1;
+    } else if (backup[item]) {
+      result.unchanged = 1;
+    }
+    if (backup[item] || result.skipped) summary.push(result);
+  }
+
+  return { data, summary };
+}
+
+/**
+ * One line of the import report, e.g. "Chats: 3 added, 1 updated"
+ */
+export function describeImportSummaryItem(item: ImportSummaryItem): string {
+  const single = item.item === 'preferences' || item.item === 'progress';
+  const parts = single
+    ? [
+        item.updated && 'restored from the backup',
+        item.unchanged && 'kept yours',
+        item.skipped && 'not valid, skipped',
+      ]
+    : [
+        item.added && `${item.added} added`,
+        item.updated && `${item.updated} updated`,
+        item.unchanged && `${item.unchanged} already here`,
+        item.removed && `${item.removed} removed`,
+        item.skipped && `${item.skipped} not valid, skipped`,
+      ];
+  const text = parts.filter(Boolean).join(', ');
+
+  return `${IMPORT_ITEM_LABELS[item.item]}: ${text || 'none in the backup'}`;
+}
+
+/**
+ * A short description of what a backup holds, to confirm before importing
+ */
+export function describeBackup(backup: ParsedBackup): string {
+  const count = (n: number, one: string, many: string) =>
+    `${n} ${n === 1 ? one : many}`;
+
+  return [
+    backup.sessions && count(backup.sessions.length, 'chat', 'chats'),
+    backup.bookmarks &&
+      count(backup.bookmarks.length, 'bookmark note', 'bookmark notes'),
+    backup.flashcards &&
+      count(backup.flashcards.cards.length, 'flashcard', 'flashcards'),
+    backup.preferences && 'settings',
+    backup.progress && 'progress',
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,152 @@
+import { BookmarkNote, ChatSession, Message } from '@/types';
+import { getSubject } from './subjects';
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+/**
+ * A bookmarked message with the session it came from and the student's notes
+ */
+export interface BookmarkEntry {
+  message: Message;
+  session: ChatSession;
+  note: string;
+  tags: string[];
+}
+
+export interface BookmarkFilter {
+  query?: string;
+  subject?: string;
+  tag?: string;
+}
+
+/**
+ * Every bookmarked message across all sessions, newest first
+ */
+export function collectBookmarks(
+  sessions: ChatSession[],
+  notes: BookmarkNote[]
+): BookmarkEntry[] {
+  const notesById = new Map(notes.map((note) => [note.messageId, note]));
+
+  return sessions
+    .flatMap((session) =>
+      (Array.isArray(session?.messages) ? session.messages : [])
+        .filter((message) => message?.isBookmarked)
+        .map((message) => ({
+          message,
+          session,
+          note: notesById.get(message.id)?.note ?? '',
+          tags: notesById.get(message.id)?.tags ?? [],
+        }))
+    )
+    .sort((a, b) => b.message.timestamp - a.message.timestamp);
+}
+
+/**
+ * Bookmarks matching a search and optional subject and tag. The search looks
+ * in the message, the note, the tags and the session title.
+ */
+export function filterBookmarks(
+  entries: BookmarkEntry[],
+  { query, subject, tag }: BookmarkFilter
+): BookmarkEntry[] {
+  const words = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  return entries.filter((entry) => {
+    if (subject && entry.session.subject !== subject) return false;
+    if (tag && !entry.tags.includes(tag)) return false;
+
+    const text = [
+      entry.message.content,
+      entry.note,
+      entry.session.title,
+      ...entry.tags,
+    ]
+      .join(' ')
+      .toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+/**
+ * Tags from comma-separated input: lower-case, de-duplicated and limited
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+/**
+ * Every tag used, sorted alphabetically
+ */
+export function getAllTags(entries: BookmarkEntry[]): string[] {
+  return Array.from(new Set(entries.flatMap((entry) => entry.tags))).sort();
+}
+
+/**
+ * Save a note and tags for a message, dropping the record once both are empty
+ */
+export function setBookmarkNote(
+  notes: BookmarkNote[],
+  { messageId, sessionId }: { messageId: string; sessionId: string },
+  changes: Partial<Pick<BookmarkNote, 'note' | 'tags'>>
+): BookmarkNote[] {
+  const existing = notes.find((note) => note.messageId === messageId);
+  const updated: BookmarkNote = {
+    messageId,
+    sessionId,
+    note: existing?.note ?? '',
+    tags: existing?.tags ?? [],
+    ...changes,
+    updatedAt: Date.now(),
+  };
+  const rest = notes.filter((note) => note.messageId !== messageId);
+
+  return updated.note.trim() || updated.tags.length > 0
+    ? [...rest, updated]
+    : rest;
+}
+
+/**
+ * Revision notes in Markdown, grouped by subject
+ */
+export function bookmarksToMarkdown(entries: BookmarkEntry[]): string {
+  const groups = new Map<string, BookmarkEntry[]>();
+  for (const entry of entries) {
+    const subject = getSubject(entry.session.subject)?.name ?? 'General';
+    groups.set(subject, [...(groups.get(subject) ?? []), entry]);
+  }
+
+  const sections = Array.from(groups, ([subject, group]) =>
+    [
+      `## ${subject}`,
+      ...group.map((entry) =>
+        [
+          `### ${entry.session.title || 'Untitled chat'} - ${new Date(
+            entry.message.timestamp
+          ).toLocaleDateString()}`,
+          entry.tags.length > 0
+            ? `Tags: ${entry.tags.map((tag) => `#${tag}`).join(' ')}`
+            : '',
+          entry.message.content.trim(),
+          entry.note.trim()
+            ? `> **My note:** ${entry.note.trim().replace(/\n/g, '\n> ')}`
+            : '',
+        ]
+          .filter(Boolean)
+          .join('\n\n')
+      ),
+    ].join('\n\n')
+  );
+
+  return [
+    '# My revision notes',
+    `Exported ${new Date().toLocaleDateString()}`,
+    ...sections,
+  ].join('\n\n');
+}
@@ -0,0 +1,125 @@
+import { ConversationSummary, Message } from '@/types';
+
+const CHARS_PER_TOKEN = 4; // Rough average for English text
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role markers and separators
+const SUMMARY_TOKEN_RESERVE = 500; // Room for the rolling summary in the prompt
+const MIN_RECENT_MESSAGES = 2; // Always send at least the latest exchange
+
+/**
+ * Once the history overflows, recent turns are trimmed to this share of the
+ * budget, so the summary is rewritten every few turns rather than every turn
+ */
+const RETAIN_RATIO = 0.6;
+
+/**
+ * Estimate how many tokens a piece of text will use
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || '').length / CHARS_PER_TOKEN);
+}
+
+function messageTokens(message: Message): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Work out how many tokens of conversation history fit in a request
+ */
+export function getHistoryBudget({
+  contextWindow,
+  maxTokens,
+  systemPrompt,
+  limit,
+}: {
+  contextWindow: number;
+  /** Tokens reserved for the reply */
+  maxTokens: number;
+  systemPrompt: string;
+  /** Optional cap, to keep prompts small even on large-context models */
+  limit?: number;
+}): number {
+  const available =
+    contextWindow -
+    maxTokens -
+    estimateTokens(systemPrompt) -
+    SUMMARY_TOKEN_RESERVE;
+
+  return Math.max(0, limit ? Math.min(available, limit) : available);
+}
+
+export interface ConversationContext {
+  /** Messages to send verbatim, oldest first */
+  messages: Message[];
+  /** Older messages that should be folded into the rolling summary */
+  toSummarize: Message[];
+  /** Id of the newest message the summary will cover once updated */
+  summarizeThroughId?: string;
+}
+
+/**
+ * Choose which messages to send to the model.
+ *
+ * Messages after the existing summary are sent verbatim while they fit in
+ * `budget`. When they don't, the most recent turns are kept and the older
+ * ones are returned in `toSummarize`. Bookmarked messages are always sent
+ * verbatim as long as they fit, wherever they are in the conversation.
+ */
+export function buildContext(
+  messages: Message[],
+  budget: number,
+  summary?: ConversationSummary
+): ConversationContext {
+  // Messages up to the summary boundary are already represented by it
+  const boundary = summary
+    ? messages.findIndex((m) => m.id === summary.throughMessageId)
+    : -1;
+  const covered = messages.slice(0, boundary + 1);
+  const pending = messages.slice(boundary + 1);
+  const coveredBookmarks = covered.filter((m) => m.isBookmarked);
+
+  const pendingTokens = [...coveredBookmarks, ...pending].reduce(
+    (total, m) => total + messageTokens(m),
+    0
+  );
+
+  if (pendingTokens <= budget) {
+    return { messages: [...coveredBookmarks, ...pending], toSummarize: [] };
+  }
+
+  // Keep the most recent turns, up to RETAIN_RATIO of the budget
+  const kept = new Set<Message>();
+  let used = 0;
+  let recentStart = pending.length;
+
+  for (let i = pending.length - 1; i >= 0; i--) {
+    const tokens = messageTokens(pending[i]);
+    const isRequired = pending.length - i <= MIN_RECENT_MESSAGES;
+
+    if (!isRequired && used + tokens > budget * RETAIN_RATIO) break;
+
+    kept.add(pending[i]);
+    used += tokens;
+    recentStart = i;
+  }
+
+  // Then bookmarked messages, newest first, as long as they fit
+  const bookmarks = [...coveredBookmarks, ...pending.slice(0, recentStart)]
+    .filter((m) => m.isBookmarked)
+    .reverse();
+
+  for (const message of bookmarks) {
+    const tokens = messageTokens(message);
+    if (used + tokens > budget) continue;
+
+    kept.add(message);
+    used += tokens;
+  }
+
+  const older = pending.slice(0, recentStart);
+
+  return {
+    messages: messages.filter((m) => kept.has(m)),
+    toSummarize: older.filter((m) => !kept.has(m)),
+    summarizeThroughId: older[older.length - 1]?.id,
+  };
+}
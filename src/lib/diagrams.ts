@@ -0,0 +1,274 @@
+import { ChartPoint, ChartSpec, ChartType } from '@/types';
+
+/**
+ * Diagrams in tutor replies: fenced `mermaid` blocks and `chart` blocks of
+ * JSON. Each gets a text description for screen readers and reading aloud.
+ */
+export type DiagramLanguage = 'mermaid' | 'chart';
+
+export const DIAGRAM_LANGUAGES: DiagramLanguage[] = ['mermaid', 'chart'];
+
+const CHART_TYPES: ChartType[] = ['bar', 'line', 'pie'];
+const MAX_CHART_POINTS = 24;
+const MAX_LABEL_LENGTH = 40;
+// Longer flowcharts are summarized rather than read out step by step
+const MAX_DESCRIBED_STEPS = 15;
+
+export function isDiagramLanguage(value: unknown): value is DiagramLanguage {
+  return DIAGRAM_LANGUAGES.includes(value as DiagramLanguage);
+}
+
+function cleanLabel(value: unknown): string {
+  return String(value ?? '')
+    .trim()
+    .slice(0, MAX_LABEL_LENGTH);
+}
+
+/**
+ * Check the JSON in a `chart` block. Returns null if it isn't a chart we can
+ * draw; points with a missing label or a value that isn't a number are left
+ * out.
+ */
+export function parseChart(source: string): ChartSpec | null {
+  let raw;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return null;
+  }
+
+  if (!raw || !CHART_TYPES.includes(raw.type) || !Array.isArray(raw.data)) {
+    return null;
+  }
+
+  const data: ChartPoint[] = raw.data
+    .map((point: { label?: unknown; value?: unknown }) => ({
+      label: cleanLabel(point?.label),
+      value: Number(point?.value),
+    }))
+    .filter(
+      (point: ChartPoint) =>
+        point.label &&
+        Number.isFinite(point.value) &&
+        (raw.type !== 'pie' || point.value >= 0)
+    )
+    .slice(0, MAX_CHART_POINTS);
+
+  if (data.length === 0) return null;
+
+  return {
+    type: raw.type,
+    ...(raw.title && { title: cleanLabel(raw.title) }),
+    ...(raw.xLabel && { xLabel: cleanLabel(raw.xLabel) }),
+    ...(raw.yLabel && { yLabel: cleanLabel(raw.yLabel) }),
+    data,
+  };
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+// End a sentence with a full stop unless it already has punctuation
+function sentence(text: string): string {
+  return /[.!?]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * A description of a chart in words, e.g. "Bar chart: Pets in our class.
+ * Cats 4, Dogs 7. The highest is Dogs at 7 and the lowest is Cats at 4."
+ */
+export function describeChart(chart: ChartSpec): string {
+  const name = `${
+    chart.type === 'pie' ? 'Pie' : chart.type === 'line' ? 'Line' : 'Bar'
+  } chart`;
+  const heading = sentence(chart.title ? `${name}: ${chart.title}` : name);
+  const axes =
+    chart.type !== 'pie' && chart.xLabel && chart.yLabel
+      ? ` It shows ${chart.yLabel} for each ${chart.xLabel}.`
+      : '';
+
+  if (chart.data.length === 0) return heading;
+
+  if (chart.type === 'pie') {
+    const total = chart.data.reduce((sum, point) => sum + point.value, 0);
+    const slices = chart.data
+      .map(
+        (point) =>
+          `${point.label} ${
+            total > 0 ? Math.round((point.value / total) * 100) : 0
+          }%`
+      )
+      .join(', ');
+    return `${heading} ${slices}.`;
+  }
+
+  const values = chart.data
+    .map((point) => `${point.label} ${formatNumber(point.value)}`)
+    .join(', ');
+  const highest = chart.data.reduce((a, b) => (b.value > a.value ? b : a));
+  const lowest = chart.data.reduce((a, b) => (b.value < a.value ? b : a));
+  const first = chart.data[0];
+  const last = chart.data[chart.data.length - 1];
+
+  const summary =
+    chart.type === 'line' && chart.data.length > 1
+      ? ` Overall it ${
+          last.value > first.value
+            ? 'goes up'
+            : last.value < first.value
+            ? 'goes down'
+            : 'ends where it started'
+        }, from ${formatNumber(first.value)} at ${
+          first.label
+        } to ${formatNumber(last.value)} at ${last.label}.`
+      : chart.data.length > 1
+      ? ` The highest is ${highest.label} at ${formatNumber(
+          highest.value
+        )} and the lowest is ${lowest.label} at ${formatNumber(lowest.value)}.`
+      : '';
+
+  return `${heading}${axes} ${values}.${summary}`;
+}
+
+// A flowchart node: an id, optionally followed by a label in brackets
+const FLOWCHART_NODE = /^([\w-]+)\s*(?:[[({>]+\s*"?(.*?)"?\s*[\])}]+)?$/;
+
+// Arrows between nodes, with an optional label written `-- text -->` or
+// `-->|text|`
+const FLOWCHART_ARROW =
+  /\s*(?:--\s+([^|]+?)\s+-->|<?-->|<?==>|-\.->|---|-\.-)\s*(?:\|([^|]*)\|)?\s*/;
+
+// Mermaid lines that don't add anything to a description
+const MERMAID_SKIP =
+  /^(%%|subgraph\b|end\b|classDef\b|class\b|style\b|click\b|linkStyle\b|direction\b)/;
+
+function describeFlowchart(lines: string[]): string {
+  const labels = new Map<string, string>();
+  const steps: string[] = [];
+
+  const readNode = (text: string): string => {
+    const match = FLOWCHART_NODE.exec(text.trim());
+    if (!match) return text.trim();
+    const [, id, label] = match;
+    if (label) labels.set(id, label);
+    return id;
+  };
+
+  const edges: { from: string; to: string; label?: string }[] = [];
+  for (const line of lines) {
+    // Splitting on the arrow keeps its two labels: node, label, label, node...
+    const parts = line.split(new RegExp(FLOWCHART_ARROW.source));
+    let from = readNode(parts[0]);
+    for (let i = 1; i + 2 < parts.length; i += 3) {
+      const to = readNode(parts[i + 2]);
+      edges.push({ from, to, label: (parts[i] ?? parts[i + 1])?.trim() });
+      from = to;
+    }
+  }
+
+  const name = (id: string) => labels.get(id) || id;
+  for (const edge of edges.slice(0, MAX_DESCRIBED_STEPS)) {
+    steps.push(
+      `${name(edge.from)} leads to ${name(edge.to)}${
+        edge.label ? ` if ${edge.label}` : ''
+      }`
+    );
+  }
+
+  if (steps.length === 0) {
+    const nodes = Array.from(labels.values());
+    return nodes.length > 0
+      ? `Flowchart with ${nodes.join(', ')}.`
+      : 'Flowchart.';
+  }
+
+  const more = edges.length - steps.length;
+  return `Flowchart: ${steps.map(sentence).join(' ')}${
+    more > 0 ? ` And ${more} more ${more === 1 ? 'step' : 'steps'}.` : ''
+  }`;
+}
+
+function describeSequence(lines: string[]): string {
+  const messages = lines
+    .map((line) =>
+      /^([\w ]+?)\s*-[->)x]+\+?-?\s*([\w ]+?)\s*:\s*(.+)$/.exec(line)
+    )
+    .filter((match): match is RegExpExecArray => !!match)
+    .slice(0, MAX_DESCRIBED_STEPS)
+    .map(([, from, to, text]) => `${from} to ${to}: ${text}`);
+
+  return messages.length > 0
+    ? `Sequence diagram: ${messages.map(sentence).join(' ')}`
+    : 'Sequence diagram.';
+}
+
+function describePie(header: string, lines: string[]): string {
+  const title = /\btitle\s+(.+)$/.exec(header)?.[1];
+  const slices = lines
+    .map((line) => /^"([^"]+)"\s*:\s*([\d.]+)/.exec(line))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map(([, label, value]) => ({ label, value: Number(value) }));
+
+  return describeChart({
+    type: 'pie',
+    ...(title && { title }),
+    data: slices,
+  });
+}
+
+/**
+ * A description of a Mermaid diagram in words, worked out from its source.
+ * Flowcharts, sequence diagrams and pie charts are described in full; other
+ * kinds are named.
+ */
+export function describeMermaid(source: string): string {
+  const lines = source
+    .split(/\n|;/)
+    .map((line) => line.trim())
+    .filter((line) => line && !MERMAID_SKIP.test(line));
+  const header = lines.shift() ?? '';
+  const kind = header.split(/\s+/)[0];
+
+  if (kind === 'graph' || kind === 'flowchart') {
+    return describeFlowchart(lines);
+  }
+  if (kind === 'sequenceDiagram') return describeSequence(lines);
+  if (kind === 'pie') {
+    return describePie(
+      header,
+      lines.filter((line) => !line.startsWith('title'))
+    );
+  }
+
+  const readable = kind
+    .replace(/(Diagram)?(-v\d+|-beta)?$/i, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase();
+  return readable ? `A ${readable} diagram.` : 'A diagram.';
+}
+
+/**
+ * A description of a diagram block in words
+ */
+export function describeDiagram(
+  language: DiagramLanguage,
+  source: string
+): string {
+  if (language === 'mermaid') return describeMermaid(source);
+
+  const chart = parseChart(source);
+  return chart ? describeChart(chart) : 'A chart that could not be drawn.';
+}
+
+/**
+ * Replace diagram blocks in a reply with their descriptions, for reading it
+ * aloud
+ */
+export function speakDiagrams(text: string): string {
+  return text.replace(
+    /```(mermaid|chart)[^\n]*\n([\s\S]*?)```/g,
+    (_, language: DiagramLanguage, source: string) =>
+      `\n${describeDiagram(language, source)}\n`
+  );
+}
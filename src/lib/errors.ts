@@ -0,0 +1,147 @@
+import { ChatErrorCode, ChatErrorResponse } from '@/types';
+
+/**
+ * What the student can do about an error
+ */
+export type ChatErrorAction = 'retry' | 'rephrase' | 'new_chat' | 'none';
+
+export interface ChatErrorInfo {
+  title: string;
+  /** Plain-language explanation that says what to do next */
+  message: string;
+  action: ChatErrorAction;
+}
+
+/**
+ * Friendly wording for each error code, shown in the chat and read out by
+ * screen readers. Messages avoid jargon and always suggest a next step.
+ */
+export const CHAT_ERROR_INFO: Record<ChatErrorCode, ChatErrorInfo> = {
+  rate_limited: {
+    title: 'Slow down a little',
+    message:
+      "You're sending messages faster than I can keep up. Wait a moment, then try again.",
+    action: 'retry',
+  },
+  provider_busy: {
+    title: 'The tutor is busy',
+    message:
+      'Lots of people are asking questions right now. Wait a few seconds, then try again.',
+    action: 'retry',
+  },
+  provider_unavailable: {
+    title: "The tutor can't be reached",
+    message:
+      "The AI service isn't answering right now. Try again in a minute or two.",
+    action: 'retry',
+  },
+  auth: {
+    title: "The tutor isn't set up",
+    message:
+      "The AI service didn't accept this app's key. Please let your teacher or the person who runs this site know.",
+    action: 'none',
+  },
+  timeout: {
+    title: 'That took too long',
+    message:
+      'The answer took too long to arrive. Try again, or ask a shorter question.',
+    action: 'retry',
+  },
+  content_filtered: {
+    title: "I can't answer that",
+    message:
+      "The AI service's safety filter blocked this question or its answer. Try asking it a different way.",
+    action: 'rephrase',
+  },
+  context_too_long: {
+    title: 'This chat is too long',
+    message:
+      'This conversation has grown too long for me to keep track of. Start a new chat to keep going - your old one is saved.',
+    action: 'new_chat',
+  },
+  budget_exceeded: {
+    title: 'The tutor is resting',
+    message:
+      'The tutor has answered as many questions as it can for today. Your chats are saved - come back tomorrow to keep going.',
+    action: 'none',
+  },
+  offline: {
+    title: "You're offline",
+    message:
+      'Check your internet connection, then try sending your message again.',
+    action: 'retry',
+  },
+  invalid_request: {
+    title: "Your message didn't go through",
+    message: 'Something went wrong sending your message. Please try again.',
+    action: 'retry',
+  },
+  invalid_response: {
+    title: "That didn't work out",
+    message:
+      "The tutor's answer came back jumbled, so I couldn't use it. Please try again.",
+    action: 'retry',
+  },
+  stream_interrupted: {
+    title: 'The answer was cut off',
+    message:
+      'The answer stopped part way through. Try again to get the whole answer.',
+    action: 'retry',
+  },
+  unknown: {
+    title: 'Something went wrong',
+    message: 'Something went wrong on our side. Please try again.',
+    action: 'retry',
+  },
+};
+
+/**
+ * Check that a response body is a structured chat error
+ */
+export function isChatErrorResponse(
+  value: unknown
+): value is ChatErrorResponse {
+  const data = value as ChatErrorResponse;
+  return (
+    !!data &&
+    typeof data.code === 'string' &&
+    Object.hasOwn(CHAT_ERROR_INFO, data.code) &&
+    typeof data.error === 'string'
+  );
+}
+
+/**
+ * Error thrown in the browser when `/api/chat` reports a failure
+ */
+export class ChatRequestError extends Error {
+  readonly code: ChatErrorCode;
+  /** Seconds to wait before retrying */
+  readonly retryAfter?: number;
+
+  constructor(response: ChatErrorResponse) {
+    super(response.error);
+    this.name = 'ChatRequestError';
+    this.code = response.code;
+    this.retryAfter = response.retryAfter;
+  }
+}
+
+/**
+ * Work out the error code for anything thrown while sending a message
+ */
+export function getChatErrorCode(error: unknown): ChatErrorCode {
+  if (error instanceof ChatRequestError) {
+    return error.code;
+  }
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return 'offline';
+  }
+
+  // fetch() rejects with a TypeError when the server can't be reached
+  if (error instanceof TypeError) {
+    return 'offline';
+  }
+
+  return 'unknown';
+}
@@ -0,0 +1,164 @@
+import { Flashcard, FlashcardGrade, Message } from '@/types';
+import { generateId, truncateText } from './utils';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A forgotten card comes back this soon, so it is seen again in the same
+ * review
+ */
+const RELEARN_DELAY = 10 * 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+/**
+ * SM-2 answer quality (0-5) for each grade. Anything below 3 is a lapse.
+ */
+const GRADE_QUALITY: Record<FlashcardGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const FLASHCARD_GRADES: Record<
+  FlashcardGrade,
+  { label: string; description: string }
+> = {
+  again: { label: 'Again', description: "I didn't remember it" },
+  hard: { label: 'Hard', description: 'I remembered it with effort' },
+  good: { label: 'Good', description: 'I remembered it' },
+  easy: { label: 'Easy', description: 'I knew it straight away' },
+};
+
+export const DEFAULT_DECK_NAME = 'My flashcards';
+
+const MAX_FRONT_LENGTH = 300;
+
+/**
+ * A new card, due straight away
+ */
+export function createFlashcard(
+  {
+    deckId,
+    front,
+    back,
+    source,
+  }: Pick<Flashcard, 'deckId' | 'front' | 'back' | 'source'>,
+  now: number = Date.now()
+): Flashcard {
+  return {
+    id: generateId(),
+    deckId,
+    front: front.trim(),
+    back: back.trim(),
+    ...(source && { source }),
+    createdAt: now,
+    easeFactor: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+  };
+}
+
+/**
+ * Schedule a card's next review with SM-2: each successful review multiplies
+ * the interval by the ease factor, and the grade nudges the ease factor up or
+ * down. A forgotten card comes back after `RELEARN_DELAY` (ten minutes) and
+ * starts over, so its next successful review schedules it a day out.
+ */
+export function scheduleReview(
+  card: Flashcard,
+  grade: FlashcardGrade,
+  now: number = Date.now()
+): Flashcard {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      ...card,
+      easeFactor,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+      dueAt: now + RELEARN_DELAY,
+      lastReviewedAt: now,
+    };
+  }
+
+  const interval =
+    card.repetitions === 0
+      ? 1
+      : card.repetitions === 1
+      ? 6
+      : Math.round(card.interval * easeFactor);
+
+  return {
+    ...card,
+    easeFactor,
+    interval,
+    repetitions: card.repetitions + 1,
+    dueAt: now + interval * DAY,
+    lastReviewedAt: now,
+  };
+}
+
+/**
+ * Cards due for review, oldest first
+ */
+export function getDueCards(
+  cards: Flashcard[],
+  { deckId, now = Date.now() }: { deckId?: string; now?: number } = {}
+): Flashcard[] {
+  return cards
+    .filter((card) => card.dueAt <= now && (!deckId || card.deckId === deckId))
+    .sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/**
+ * Describe when a card is next due, e.g. "in 10 minutes" or "in 6 days"
+ */
+export function formatDueIn(dueAt: number, now: number = Date.now()): string {
+  const minutes = Math.round((dueAt - now) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+
+  const days = Math.round(hours / 24);
+  return `in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+/**
+ * Suggest the two sides of a card made from a message. The front is the
+ * question that led to the message; the back is the selected passage, or the
+ * whole message if nothing is selected.
+ */
+export function draftFromMessage(
+  message: Message,
+  messages: Message[],
+  selection?: string
+): { front: string; back: string } {
+  const index = messages.findIndex((m) => m.id === message.id);
+  const question =
+    message.role === 'assistant'
+      ? messages
+          .slice(0, Math.max(index, 0))
+          .reverse()
+          .find((m) => m.role === 'user')
+      : undefined;
+
+  return {
+    front: question
+      ? truncateText(question.content.trim(), MAX_FRONT_LENGTH)
+      : '',
+    back: (selection || message.content).trim(),
+  };
+}
@@ -0,0 +1,146 @@
+import { GenerationSettings, ResponseLength, ResponseStyle } from '@/types';
+
+/**
+ * Temperatures a session may choose. The top end is kept well below what
+ * providers accept, since higher values make explanations ramble.
+ */
+export const TEMPERATURE_RANGE = { min: 0, max: 1.2, step: 0.1 };
+
+export const DEFAULT_TEMPERATURE = 0.7;
+
+export const RESPONSE_LENGTHS: Record<
+  ResponseLength,
+  { label: string; description: string; maxTokens: number }
+> = {
+  short: {
+    label: 'Short',
+    description: 'A few sentences',
+    maxTokens: 300,
+  },
+  medium: {
+    label: 'Medium',
+    description: 'A full explanation',
+    maxTokens: 800,
+  },
+  long: {
+    label: 'Long',
+    description: 'In depth, e.g. for essay help',
+    maxTokens: 1600,
+  },
+};
+
+export const DEFAULT_RESPONSE_LENGTH: ResponseLength = 'medium';
+
+export const RESPONSE_STYLES: Record<
+  ResponseStyle,
+  { label: string; description: string }
+> = {
+  balanced: {
+    label: 'Balanced',
+    description: 'Explanations with examples',
+  },
+  concise: {
+    label: 'Concise',
+    description: 'Straight to the point, good for drills',
+  },
+  step_by_step: {
+    label: 'Step by step',
+    description: 'Numbered steps, one idea at a time',
+  },
+  detailed: {
+    label: 'Detailed',
+    description: 'Thorough answers with background',
+  },
+};
+
+/**
+ * Ready-made combinations for common kinds of session
+ */
+export const GENERATION_PRESETS: {
+  id: string;
+  label: string;
+  description: string;
+  settings: GenerationSettings;
+}[] = [
+  {
+    id: 'drill',
+    label: 'Drill',
+    description: 'Short, focused answers for practice',
+    settings: { temperature: 0.2, length: 'short', style: 'concise' },
+  },
+  {
+    id: 'explain',
+    label: 'Explain',
+    description: 'The default tutor',
+    settings: {},
+  },
+  {
+    id: 'essay',
+    label: 'Essay help',
+    description: 'Longer, more varied answers',
+    settings: { temperature: 0.9, length: 'long', style: 'detailed' },
+  },
+];
+
+/**
+ * Check client-supplied settings. Returns the settings with unknown fields
+ * dropped, or an error describing the first invalid value.
+ */
+export function validateGenerationSettings(
+  value: unknown,
+  allowedModels: string[]
+): { settings: GenerationSettings } | { error: string } {
+  if (value === undefined || value === null) {
+    return { settings: {} };
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Settings must be an object' };
+  }
+
+  const { model, temperature, length, style } = value as Record<
+    string,
+    unknown
+  >;
+  const settings: GenerationSettings = {};
+
+  if (model !== undefined) {
+    if (typeof model !== 'string' || !allowedModels.includes(model)) {
+      return { error: `Model "${String(model)}" is not allowed` };
+    }
+    settings.model = model;
+  }
+
+  if (temperature !== undefined) {
+    if (
+      typeof temperature !== 'number' ||
+      !Number.isFinite(temperature) ||
+      temperature < TEMPERATURE_RANGE.min ||
+      temperature > TEMPERATURE_RANGE.max
+    ) {
+      return {
+        error: `Temperature must be between ${TEMPERATURE_RANGE.min} and ${TEMPERATURE_RANGE.max}`,
+      };
+    }
+    settings.temperature = temperature;
+  }
+
+  if (length !== undefined) {
+    if (
+      typeof length !== 'string' ||
+      !Object.hasOwn(RESPONSE_LENGTHS, length)
+    ) {
+      return { error: `Unknown response length "${String(length)}"` };
+    }
+    settings.length = length as ResponseLength;
+  }
+
+  if (style !== undefined) {
+    if (typeof style !== 'string' || !Object.hasOwn(RESPONSE_STYLES, style)) {
+      return { error: `Unknown response style "${String(style)}"` };
+    }
+    settings.style = style as ResponseStyle;
+  }
+
+  return { settings };
+}
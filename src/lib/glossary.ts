@@ -0,0 +1,380 @@
+import { ChatSession, GlossaryTerm, Message } from '@/types';
+import { getDisplayedContent } from './variants';
+
+/**
+ * Terms tutor replies introduce, found by how the reply defines them rather
+ * than how often a word appears: "**Numerator**: the top number",
+ * "A **fraction** is...", "this is called a **denominator**", "the bottom
+ * number (denominator)" or "photosynthesis means...". Nothing is sent to the
+ * model.
+ */
+
+const MAX_TERMS_PER_MESSAGE = 8;
+const MIN_TERM_LENGTH = 3;
+const MAX_TERM_LENGTH = 40;
+const MAX_DEFINITION_LENGTH = 240;
+
+// One to four words, starting with a letter
+const TERM = String.raw`[A-Za-z][\w'-]*(?: [A-Za-z][\w'-]*){0,3}`;
+
+// A term in bold or italics. A colon just inside the bold, as in
+// "**Numerator:** the top number", is kept as the second group.
+const EMPHASIZED = String.raw`(?:(?:\*\*|__)(${TERM})(:?)(?:\*\*|__)|(?<![*\w])[*_](${TERM})[*_](?![*\w]))`;
+
+// An emphasized term and what follows it: a meaning in brackets, after a
+// colon or dash, or a sentence that goes on "is...", "means..." and so on
+const EMPHASIZED_DEFINITION = new RegExp(
+  String.raw`${EMPHASIZED}\s*(?:\(([^)]{3,160})\)|[:—–-]\s+(.+)|(is|are|means|refers to|describes)\b)?`,
+  'g'
+);
+
+// "...is called a **denominator**", "known as "the numerator"" or, at the
+// end of a sentence, "this is called photosynthesis."
+const NAMED_TERM = new RegExp(
+  String.raw`\b(?:called|known as|named)\s+(?:a |an |the )?(?:${EMPHASIZED}|["“](${TERM})["”]|(${TERM})[.!?]?$)`
+);
+
+// A name in brackets after what it describes: "the bottom number
+// (denominator)" or "a ratio (also called a rate)"
+const BRACKETED_NAME =
+  /\b(?:the|a|an) [a-z]+(?: [a-z]+){0,3} \((?:also called |also known as |or )?(?:a |an |the )?([a-z][\w-]{3,}(?: [a-z][\w-]+)?)\)/i;
+
+// "Photosynthesis means...", "The word "sum" refers to..."
+const PLAIN_DEFINITION = new RegExp(
+  String.raw`^(?:(?:a|an|the) )?(?:(?:word|term) )?["“]?(${TERM})["”]?\s+(?:means|refers to)\s`,
+  'i'
+);
+
+// Words that are emphasized or "defined" in replies without being terms
+const NOT_TERMS = new Set([
+  'a',
+  'an',
+  'the',
+  'this',
+  'that',
+  'these',
+  'those',
+  'it',
+  'here',
+  'there',
+  'what',
+  'which',
+  'answer',
+  'question',
+  'example',
+  'examples',
+  'step',
+  'steps',
+  'idea',
+  'thing',
+  'problem',
+  'result',
+  'way',
+  'note',
+  'tip',
+  'hint',
+  'remember',
+  'important',
+  'key',
+  'first',
+  'second',
+  'next',
+  'then',
+  'finally',
+  'summary',
+  'yes',
+  'no',
+  'great',
+  'good',
+  'try',
+  'optional',
+  'above',
+  'below',
+  'again',
+  'maybe',
+  'roughly',
+  'approximately',
+  'and',
+  'or',
+  'of',
+  'to',
+  'in',
+  'is',
+  'you',
+  'your',
+  'we',
+  'i',
+]);
+
+// Bold labels like "**Why it works:**" or "**Your turn:**" start this way
+const LABEL_START =
+  /^(?:why|how|when|where|who|what|which|let'?s|your|my|our|you|we|it|this|that)\b/i;
+
+/**
+ * Code, math and link targets, which never hold glossary terms
+ */
+function stripNonProse(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, '\n')
+    .replace(/`[^`\n]*`/g, ' ')
+    .replace(/\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\\\([\s\S]+?\\\)/g, ' ')
+    .replace(/\$[^$\n]+\$/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1');
+}
+
+function toSentences(markdown: string): string[] {
+  return stripNonProse(markdown)
+    .split(/\n+/)
+    .map((line) => line.replace(/^\s*(?:[-*+]|\d+[.)]|#{1,6}|>)\s+/, ''))
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=[A-Z*_"“(])/))
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(?<![*\w])[*_](.+?)[*_](?![*\w])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toTerm(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const term = value.trim().replace(/^(?:a|an|the) /i, '');
+  const words = term.toLowerCase().split(' ');
+
+  if (
+    term.length < MIN_TERM_LENGTH ||
+    term.length > MAX_TERM_LENGTH ||
+    LABEL_START.test(term) ||
+    words.every((word) => NOT_TERMS.has(word) || /^\d+$/.test(word))
+  ) {
+    return undefined;
+  }
+  return term;
+}
+
+function toDefinition(value: string, term: string): string | undefined {
+  const text = plainText(value).replace(/[:;,]$/, '');
+  if (text.length <= term.length + 3) return undefined;
+
+  const definition =
+    text.length > MAX_DEFINITION_LENGTH
+      ? `${text.slice(0, MAX_DEFINITION_LENGTH - 1).trimEnd()}…`
+      : text;
+  const capitalized = definition[0].toUpperCase() + definition.slice(1);
+  return /[.!?…]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+}
+
+/**
+ * The term a sentence defines and the meaning it gives, if any
+ */
+function findDefinition(sentence: string): GlossaryTerm | undefined {
+  for (const match of sentence.matchAll(EMPHASIZED_DEFINITION)) {
+    const [whole, bold, colon, italic, bracketed, rest, verb] = match;
+    // A colon inside the bold means the rest of the sentence is the meaning
+    const meaning =
+      bracketed ??
+      rest ??
+      (colon ? sentence.slice(match.index + whole.length) : undefined) ??
+      (verb ? sentence : undefined);
+    const term = toTerm(bold ?? italic);
+    const definition = term && meaning && toDefinition(meaning, term);
+    if (term && definition) return { term, definition };
+  }
+
+  const named = NAMED_TERM.exec(sentence);
+  if (named) {
+    const [, bold, , italic, quoted, plain] = named;
+    const term = toTerm(bold ?? italic ?? quoted ?? plain);
+    const definition = term && toDefinition(sentence, term);
+    if (term && definition) return { term, definition };
+  }
+
+  const bracketed = BRACKETED_NAME.exec(plainText(sentence));
+  if (bracketed) {
+    const term = toTerm(bracketed[1]);
+    const definition = term && toDefinition(sentence, term);
+    if (term && definition) return { term, definition };
+  }
+
+  const plain = PLAIN_DEFINITION.exec(plainText(sentence));
+  if (plain) {
+    const term = toTerm(plain[1]);
+    const definition = term && toDefinition(sentence, term);
+    if (term && definition) return { term, definition };
+  }
+
+  return undefined;
+}
+
+/**
+ * Terms a tutor reply defines, in the order they appear. Each term is listed
+ * once, with the first meaning given for it.
+ */
+export function findGlossaryTerms(markdown: string): GlossaryTerm[] {
+  const found = new Map<string, GlossaryTerm>();
+
+  for (const sentence of toSentences(markdown)) {
+    const entry = findDefinition(sentence);
+    if (entry && !found.has(entry.term.toLowerCase())) {
+      found.set(entry.term.toLowerCase(), entry);
+    }
+    if (found.size >= MAX_TERMS_PER_MESSAGE) break;
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * A glossary term with the chat and reply that introduced it
+ */
+export interface GlossaryEntry extends GlossaryTerm {
+  session: ChatSession;
+  message: Message;
+}
+
+/**
+ * Every term introduced across all sessions, in alphabetical order. A term
+ * that comes up in several chats on the same subject is listed once, with
+ * the meaning from the first time it came up.
+ */
+export function collectGlossary(sessions: ChatSession[]): GlossaryEntry[] {
+  const entries = new Map<string, GlossaryEntry>();
+
+  const replies = sessions
+    .flatMap((session) =>
+      (Array.isArray(session?.messages) ? session.messages : [])
+        .filter(
+          (message) =>
+            message?.role === 'assistant' &&
+            !message.isError &&
+            !message.isStreaming
+        )
+        .map((message) => ({ session, message }))
+    )
+    .sort((a, b) => a.message.timestamp - b.message.timestamp);
+
+  for (const { session, message } of replies) {
+    for (const term of findGlossaryTerms(getDisplayedContent(message))) {
+      const key = `${session.subject ?? ''}:${term.term.toLowerCase()}`;
+      if (!entries.has(key)) entries.set(key, { ...term, session, message });
+    }
+  }
+
+  return Array.from(entries.values()).sort((a, b) =>
+    a.term.localeCompare(b.term, undefined, { sensitivity: 'base' })
+  );
+}
+
+/**
+ * Glossary entries matching a search and optional subject. The search looks
+ * in the term and its meaning.
+ */
+export function filterGlossary(
+  entries: GlossaryEntry[],
+  { query, subject }: { query?: string; subject?: string }
+): GlossaryEntry[] {
+  const words = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  return entries.filter((entry) => {
+    if (subject && entry.session.subject !== subject) return false;
+
+    const text = `${entry.term} ${entry.definition}`.toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+/**
+ * A term and its meaning as one sentence for reading aloud
+ */
+export function glossaryEntryToSpeech({ term, definition }: GlossaryTerm) {
+  return `${term}. ${definition}`;
+}
+
+/**
+ * The subset of a HAST tree the glossary plugin reads and writes
+ */
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+// Elements whose text is left alone: code, math, links and existing terms
+const SKIPPED_ELEMENTS = new Set(['code', 'pre', 'a', 'button', 'dfn', 'svg']);
+
+function isSkipped(node: HastNode): boolean {
+  if (node.tagName && SKIPPED_ELEMENTS.has(node.tagName)) return true;
+  const className = node.properties?.className;
+  return (
+    Array.isArray(className) &&
+    className.some((name) => String(name).startsWith('katex'))
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rehype plugin that wraps the first use of each glossary term in a `<dfn>`
+ * with a `data-glossary-term` attribute, so it can be rendered as a
+ * tap-to-define button
+ */
+export function rehypeGlossary({ terms }: { terms: string[] }) {
+  return (tree: HastNode) => {
+    if (terms.length === 0) return;
+
+    const remaining = new Map(terms.map((term) => [term.toLowerCase(), term]));
+    // Longer terms first, so "common denominator" wins over "denominator"
+    const pattern = new RegExp(
+      `(?<![\\w-])(${[...terms]
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join('|')})(?![\\w-])`,
+      'gi'
+    );
+
+    const visit = (node: HastNode) => {
+      if (!node.children || isSkipped(node)) return;
+
+      node.children = node.children.flatMap((child) => {
+        if (child.type !== 'text' || !child.value) {
+          visit(child);
+          return [child];
+        }
+
+        const parts: HastNode[] = [];
+        const text = child.value;
+        let last = 0;
+        for (const match of text.matchAll(pattern)) {
+          const term = remaining.get(match[0].toLowerCase());
+          if (!term) continue;
+          remaining.delete(match[0].toLowerCase());
+
+          if (match.index > last) {
+            parts.push({ type: 'text', value: text.slice(last, match.index) });
+          }
+          parts.push({
+            type: 'element',
+            tagName: 'dfn',
+            properties: { dataGlossaryTerm: term },
+            children: [{ type: 'text', value: match[0] }],
+          });
+          last = match.index + match[0].length;
+        }
+        if (last === 0) return [child];
+        if (last < text.length) {
+          parts.push({ type: 'text', value: text.slice(last) });
+        }
+        return parts;
+      });
+    };
+
+    visit(tree);
+  };
+}
@@ -0,0 +1,56 @@
+import type { ExtraProps, Options } from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeKatex from 'rehype-katex';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import {
+  DIAGRAM_LANGUAGES,
+  DiagramLanguage,
+  isDiagramLanguage,
+} from './diagrams';
+
+/**
+ * How tutor replies are turned from Markdown into HTML, shared by the chat
+ * and by exports so both show math and code the same way. Replies go
+ * through `prepareMath` first.
+ */
+export const REMARK_PLUGINS: NonNullable<Options['remarkPlugins']> = [
+  remarkGfm,
+  remarkMath,
+];
+
+export const REHYPE_PLUGINS: NonNullable<Options['rehypePlugins']> = [
+  rehypeKatex,
+  // Diagram sources are drawn rather than highlighted
+  [rehypeHighlight, { plainText: DIAGRAM_LANGUAGES }],
+];
+
+/**
+ * The same plugins for exported pages, with math as MathML only. Browsers
+ * draw MathML themselves, so the page doesn't need KaTeX's stylesheet and
+ * fonts and works offline.
+ */
+export const EXPORT_REHYPE_PLUGINS: NonNullable<Options['rehypePlugins']> = [
+  [rehypeKatex, { output: 'mathml' }],
+  ...REHYPE_PLUGINS.slice(1),
+];
+
+/**
+ * The diagram in a code block written as ```mermaid or ```chart, if any
+ */
+export function getDiagram(
+  pre?: ExtraProps['node']
+): { language: DiagramLanguage; source: string } | undefined {
+  const code = pre?.children[0];
+  if (code?.type !== 'element' || code.tagName !== 'code') return undefined;
+
+  const language = (code.properties.className as string[] | undefined)
+    ?.find((name) => name.startsWith('language-'))
+    ?.replace('language-', '');
+  if (!isDiagramLanguage(language)) return undefined;
+
+  const source = code.children
+    .map((child) => (child.type === 'text' ? child.value : ''))
+    .join('');
+  return { language, source };
+}
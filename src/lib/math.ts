@@ -0,0 +1,196 @@
+/**
+ * Math in tutor replies. Models write LaTeX between `$...$`, `$$...$$`,
+ * `\(...\)` or `\[...\]`; replies are rendered with KaTeX and read aloud as
+ * words.
+ */
+
+// Code spans and blocks, which are left alone
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/;
+
+// Display math, then inline math, then a `$` that starts neither. Inline
+// math follows Pandoc's rule - no space just inside the dollars and no digit
+// straight after the closing one - so prices like "$5 and $10" stay text.
+const DOLLAR_PATTERN =
+  /\$\$([\s\S]+?)\$\$|(?<!\\)\$(?=\S)((?:\\\$|[^$\n])+?)(?<=\S)\$(?!\d)|(?<!\\)\$/g;
+
+/**
+ * Apply `transform` to the parts of Markdown outside code
+ */
+function outsideCode(
+  markdown: string,
+  transform: (text: string) => string
+): string {
+  return markdown
+    .split(CODE_PATTERN)
+    .map((part, index) => (index % 2 === 1 ? part : transform(part)))
+    .join('');
+}
+
+/**
+ * Get Markdown ready for `remark-math`: `\(...\)` and `\[...\]` become
+ * dollar math, and dollar signs that don't start math (prices) are escaped
+ */
+export function prepareMath(markdown: string): string {
+  return outsideCode(markdown, (text) =>
+    text
+      .replace(/\\\[([\s\S]+?)\\\]/g, (_, tex: string) => `$$${tex}$$`)
+      .replace(/\\\(([\s\S]+?)\\\)/g, (_, tex: string) => `$${tex}$`)
+      .replace(DOLLAR_PATTERN, (match) => (match === '$' ? '\\$' : match))
+  );
+}
+
+const SYMBOLS: Record<string, string> = {
+  times: 'times',
+  cdot: 'times',
+  div: 'divided by',
+  pm: 'plus or minus',
+  mp: 'minus or plus',
+  neq: 'does not equal',
+  ne: 'does not equal',
+  leq: 'is less than or equal to',
+  le: 'is less than or equal to',
+  geq: 'is greater than or equal to',
+  ge: 'is greater than or equal to',
+  lt: 'is less than',
+  gt: 'is greater than',
+  approx: 'is approximately',
+  equiv: 'is equivalent to',
+  propto: 'is proportional to',
+  infty: 'infinity',
+  to: 'goes to',
+  rightarrow: 'gives',
+  Rightarrow: 'implies',
+  implies: 'implies',
+  degree: 'degrees',
+  circ: 'degrees',
+  angle: 'angle',
+  triangle: 'triangle',
+  perp: 'is perpendicular to',
+  parallel: 'is parallel to',
+  in: 'is in',
+  sum: 'the sum of',
+  prod: 'the product of',
+  int: 'the integral of',
+  lim: 'the limit of',
+  sin: 'sine',
+  cos: 'cosine',
+  tan: 'tangent',
+  log: 'log',
+  ln: 'natural log',
+  cdots: 'and so on',
+  ldots: 'and so on',
+  dots: 'and so on',
+  '%': 'percent',
+};
+
+// Tokens short enough to read without marking where a fraction starts
+const SIMPLE_TERM = /^\\?[\w.]+$/;
+
+// Innermost `{...}` group, which has no braces of its own
+const GROUP = String.raw`\{([^{}]*)\}`;
+
+function fractionToSpeech(numerator: string, denominator: string): string {
+  const [top, bottom] = [numerator.trim(), denominator.trim()];
+  return SIMPLE_TERM.test(top) && SIMPLE_TERM.test(bottom)
+    ? ` ${top} over ${bottom} `
+    : ` start fraction ${top} over ${bottom} end fraction `;
+}
+
+function powerToSpeech(exponent: string): string {
+  const power = exponent.trim();
+  if (power === '2') return ' squared ';
+  if (power === '3') return ' cubed ';
+  if (power === '\\circ') return ' degrees ';
+  return ` to the power of ${power} `;
+}
+
+function rootToSpeech(index: string | undefined, radicand: string): string {
+  const n = index?.trim();
+  if (!n || n === '2') return ` the square root of ${radicand} `;
+  if (n === '3') return ` the cube root of ${radicand} `;
+  return ` the ${n}th root of ${radicand} `;
+}
+
+/**
+ * Words for a LaTeX expression, e.g. `\frac{a}{b}` is read "a over b" and
+ * `x^2` "x squared"
+ */
+export function mathToSpeech(latex: string): string {
+  let text = latex
+    .replace(/\\(left|right|displaystyle|big|Big)\b/g, '')
+    .replace(/\\[,;:! ]/g, ' ')
+    .replace(
+      /\\(text|mathrm|mathbf|mathit|operatorname)\s*\{([^{}]*)\}/g,
+      ' $2 '
+    );
+
+  // Work outwards from the innermost groups
+  for (let i = 0; i < 20; i++) {
+    const before = text;
+    text = text
+      .replace(
+        new RegExp(String.raw`\\[dt]?frac\s*${GROUP}\s*${GROUP}`, 'g'),
+        (_, numerator: string, denominator: string) =>
+          fractionToSpeech(numerator, denominator)
+      )
+      .replace(
+        new RegExp(String.raw`\\sqrt\s*(?:\[([^\]]*)\])?\s*${GROUP}`, 'g'),
+        (_, index: string | undefined, radicand: string) =>
+          rootToSpeech(index, radicand)
+      )
+      .replace(new RegExp(String.raw`\^\s*${GROUP}`, 'g'), (_, power: string) =>
+        powerToSpeech(power)
+      )
+      .replace(new RegExp(String.raw`_\s*${GROUP}`, 'g'), ' sub $1 ');
+    // Plain groups are only unwrapped once nothing else matches, so a
+    // fraction's parts aren't mistaken for them
+    if (text === before) text = text.replace(new RegExp(GROUP, 'g'), ' $1 ');
+    if (text === before) break;
+  }
+
+  return (
+    text
+      .replace(/\^\s*(\\[a-zA-Z]+|\d+|\w)/g, (_, power: string) =>
+        powerToSpeech(power)
+      )
+      .replace(/_\s*(\\[a-zA-Z]+|\d+|\w)/g, ' sub $1 ')
+      .replace(/\\[dt]?frac\s*(\w)\s*(\w)/g, (_, numerator, denominator) =>
+        fractionToSpeech(numerator, denominator)
+      )
+      .replace(
+        /\\([a-zA-Z]+|%)/g,
+        (_, name: string) => ` ${SYMBOLS[name] ?? name} `
+      )
+      .replace(/(\d)\s*%/g, '$1 percent')
+      // A minus sign at the start or after another operator makes a number negative
+      .replace(/(^\s*|[=(<>+*/,]\s*)[-−](?=\s*\d)/g, '$1 negative ')
+      .replace(/<=|≤/g, ' is less than or equal to ')
+      .replace(/>=|≥/g, ' is greater than or equal to ')
+      .replace(/!=|≠/g, ' does not equal ')
+      .replace(/=/g, ' equals ')
+      .replace(/</g, ' is less than ')
+      .replace(/>/g, ' is greater than ')
+      .replace(/\+/g, ' plus ')
+      .replace(/-|−/g, ' minus ')
+      .replace(/[*×·]/g, ' times ')
+      .replace(/[/÷]/g, ' divided by ')
+      .replace(/[{}()[\]&\\]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+}
+
+/**
+ * Replace the math in a reply with words, for reading it aloud
+ */
+export function speakMath(text: string): string {
+  return outsideCode(text, (part) =>
+    part
+      .replace(/\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)/g, (_, display, inline) =>
+        mathToSpeech(display ?? inline)
+      )
+      .replace(DOLLAR_PATTERN, (match, display, inline) =>
+        match === '$' ? match : mathToSpeech(display ?? inline)
+      )
+  );
+}
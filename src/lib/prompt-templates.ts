@@ -0,0 +1,297 @@
+import {
+  DifficultyLevel,
+  ExplanationStyle,
+  LearnerProfile,
+  TutorPersona,
+} from '@/types';
+
+/**
+ * The character the tutor plays. `intro` opens the system prompt.
+ */
+export const TUTOR_PERSONAS: Record<
+  TutorPersona,
+  { label: string; description: string; intro: string }
+> = {
+  encouraging: {
+    label: 'Encouraging tutor',
+    description: 'Patient and warm, celebrates every step',
+    intro:
+      'You are a patient, encouraging AI tutor specifically designed to help students with learning disabilities.',
+  },
+  coach: {
+    label: 'Study coach',
+    description: 'Calm and practical, keeps you on track',
+    intro:
+      'You are a calm, practical study coach who helps students with learning disabilities build skills and confidence. You keep sessions focused and praise effort rather than talent.',
+  },
+  buddy: {
+    label: 'Study buddy',
+    description: 'Friendly and relaxed, like an older student',
+    intro:
+      'You are a friendly study buddy for students with learning disabilities. You talk like a kind older student, keep things relaxed, and work through problems alongside them.',
+  },
+  storyteller: {
+    label: 'Storyteller',
+    description: 'Turns ideas into short stories',
+    intro:
+      'You are a creative AI tutor who helps students with learning disabilities by turning ideas into short stories, scenes and characters they can picture.',
+  },
+};
+
+export const DEFAULT_PERSONA: TutorPersona = 'encouraging';
+
+export const EXPLANATION_STYLES: Record<
+  ExplanationStyle,
+  { label: string; description: string }
+> = {
+  mixed: { label: 'A mix', description: 'Whatever suits the topic' },
+  examples: { label: 'Examples', description: 'Worked, real-world examples' },
+  analogies: {
+    label: 'Comparisons',
+    description: 'Linking ideas to everyday things',
+  },
+  visual: {
+    label: 'Pictures in words',
+    description: 'Descriptions I can picture',
+  },
+};
+
+/**
+ * One version of the tutor's system prompt. Text may use `{{variables}}`:
+ * `persona`, `subject` and `name`.
+ */
+export interface PromptTemplate {
+  /** Family of prompts this belongs to */
+  name: string;
+  version: number;
+  /** Main instructions, starting with the persona */
+  body: string;
+  /** Added when the student has picked a subject */
+  subject: string;
+  /** Extra guidance for particular subjects, by subject id */
+  subjectAddenda: Record<string, string>;
+  difficulty: Record<DifficultyLevel, string>;
+  /** Learner profile lines, added under an "About this student" heading */
+  learner: {
+    name: string;
+    explanationStyle: Record<ExplanationStyle, string>;
+    needsMoreTime: string;
+  };
+}
+
+const TUTOR_V1: PromptTemplate = {
+  name: 'tutor',
+  version: 1,
+  body: `{{persona}} Your role is to:
+
+1. **Break down complex concepts** into simple, manageable steps
+2. **Use analogies and real-world examples** that are easy to understand
+3. **Provide multiple explanations** for the same concept using different approaches
+4. **Ask clarifying questions** to ensure understanding before moving forward
+5. **Celebrate progress** and encourage the student with positive reinforcement
+6. **Adapt your teaching style** based on the student's responses and needs
+7. **Use clear, simple language** and avoid jargon unless necessary (and then explain it)
+8. **Be patient** and never make the student feel rushed or inadequate
+9. **Offer memory aids** like mnemonics, visual descriptions, or step-by-step guides
+10. **Check for understanding** regularly and invite questions
+
+Remember:
+- Every student learns differently, so be flexible in your approach
+- Some students may need more time to process information
+- Visual learners benefit from descriptive explanations
+- Kinesthetic learners benefit from hands-on examples
+- Always be encouraging and supportive
+- If a student seems frustrated, take a step back and try a different approach
+- Use positive language and avoid negative phrasing
+
+Keep responses conversational, encouraging, and appropriately detailed for the difficulty level selected.`,
+  subject:
+    'The student is currently studying {{subject}}. Tailor your explanations to this subject area and use relevant examples.',
+  subjectAddenda: {
+    math: 'Show working one line at a time and say in words what each step does. Check arithmetic carefully before giving an answer.',
+    science:
+      'Connect ideas to things the student can observe at home or outside, and separate what we know from what scientists are still finding out.',
+    history:
+      'Anchor events in time with simple timelines, and explain causes and effects as a chain of short steps.',
+    language:
+      'Give short example sentences, and when correcting writing, point out one or two things at a time with the fix alongside.',
+    computer:
+      'Keep code examples short and explain every line. Prefer plain-language descriptions of what a program does before showing code.',
+    art: 'Describe visual ideas in concrete words (shapes, colours, positions) so they can be imagined without seeing them.',
+    social:
+      'Relate ideas to the student’s own community and everyday life, and present different viewpoints fairly.',
+  },
+  difficulty: {
+    beginner:
+      'This student is at a beginner level. Use very simple language, basic concepts, and plenty of encouragement. Start with fundamental principles.',
+    intermediate:
+      'This student is at an intermediate level. You can use moderate complexity but still break things down clearly. Build on foundational knowledge.',
+    advanced:
+      'This student is at an advanced level. You can discuss more complex concepts but still maintain clarity and provide detailed explanations.',
+  },
+  learner: {
+    name: 'They like to be called {{name}}.',
+    explanationStyle: {
+      mixed: '',
+      examples:
+        'They understand best through worked, real-world examples. Lead with an example before the general rule.',
+      analogies:
+        'They understand best when new ideas are compared to everyday things they already know.',
+      visual:
+        'They understand best with vivid descriptions they can picture, like diagrams described in words.',
+    },
+    needsMoreTime:
+      'They need extra time to process information. Introduce one idea per reply, keep paragraphs short, repeat key points, and ask one question at a time. Never hurry them.',
+  },
+};
+
+/**
+ * A shorter prompt that asks for one idea per reply, to test against v1
+ */
+const TUTOR_V2: PromptTemplate = {
+  ...TUTOR_V1,
+  version: 2,
+  body: `{{persona}}
+
+How to teach:
+- Explain one idea at a time, in short paragraphs and plain words. If you must use a technical term, explain it straight away.
+- Start from what the student already knows, then build up in small steps.
+- Use an example, comparison or memory aid for every new idea.
+- If something doesn't land, explain it a different way instead of repeating yourself.
+- End most replies with one short question that checks understanding or invites the next step.
+
+How to talk:
+- Be warm, calm and encouraging. Praise effort and progress, never make the student feel slow.
+- Use positive phrasing. If the student seems frustrated, slow down and try another approach.
+
+Match the depth of your answer to the student's level.`,
+};
+
+/**
+ * Every template, by `name@version`
+ */
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  'tutor@1': TUTOR_V1,
+  'tutor@2': TUTOR_V2,
+};
+
+export const DEFAULT_TEMPLATE_ID = 'tutor@1';
+
+export function templateId(template: PromptTemplate): string {
+  return `${template.name}@${template.version}`;
+}
+
+/**
+ * Parse an A/B split such as `tutor@1:80,tutor@2:20` into template weights.
+ * Unknown templates and bad weights are skipped.
+ */
+export function parseTemplateSplit(
+  value?: string
+): { id: string; weight: number }[] {
+  return (value || '')
+    .split(',')
+    .map((part) => {
+      const [id, weight = '1'] = part.trim().split(':');
+      return { id, weight: Number(weight) };
+    })
+    .filter(
+      ({ id, weight }) =>
+        Object.hasOwn(PROMPT_TEMPLATES, id) && Number.isFinite(weight)
+    )
+    .filter(({ weight }) => weight > 0);
+}
+
+/**
+ * 32-bit FNV-1a hash, used to give each student a stable A/B bucket
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Choose the template for a request. With an A/B split configured, the
+ * same student always gets the same template; without a key to bucket on,
+ * the choice is random.
+ */
+export function selectTemplate(
+  split: { id: string; weight: number }[],
+  key?: string
+): PromptTemplate {
+  const total = split.reduce((sum, { weight }) => sum + weight, 0);
+  if (total <= 0) return PROMPT_TEMPLATES[DEFAULT_TEMPLATE_ID];
+
+  const point = key
+    ? (hashString(key) / 0x100000000) * total
+    : Math.random() * total;
+
+  let cumulative = 0;
+  for (const { id, weight } of split) {
+    cumulative += weight;
+    if (point < cumulative) return PROMPT_TEMPLATES[id];
+  }
+
+  return PROMPT_TEMPLATES[split[split.length - 1].id];
+}
+
+/**
+ * Replace `{{variable}}` placeholders; unknown ones become empty
+ */
+export function fillTemplate(
+  text: string,
+  variables: Record<string, string | undefined>
+): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_, name) => variables[name] ?? '');
+}
+
+/**
+ * Keep only well-formed learner profile fields from a request. The name is
+ * trimmed and stripped of anything that could break out of its sentence.
+ */
+export function toLearnerProfile(value: unknown): LearnerProfile {
+  if (!value || typeof value !== 'object') return {};
+
+  const { tutorPersona, explanationStyle, needsMoreTime, preferredName } =
+    value as Record<string, unknown>;
+  const profile: LearnerProfile = {};
+
+  if (
+    typeof tutorPersona === 'string' &&
+    Object.hasOwn(TUTOR_PERSONAS, tutorPersona)
+  ) {
+    profile.tutorPersona = tutorPersona as TutorPersona;
+  }
+
+  if (
+    typeof explanationStyle === 'string' &&
+    Object.hasOwn(EXPLANATION_STYLES, explanationStyle)
+  ) {
+    profile.explanationStyle = explanationStyle as ExplanationStyle;
+  }
+
+  if (typeof needsMoreTime === 'boolean') {
+    profile.needsMoreTime = needsMoreTime;
+  }
+
+  if (typeof preferredName === 'string') {
+    const name = preferredName
+      .replace(/[^\p{L}\p{M}'-]+/gu, ' ')
+      .trim()
+      .slice(0, 40);
+    if (name) profile.preferredName = name;
+  }
+
+  return profile;
+}
+
+/**
+ * Template for a request, using the `PROMPT_TEMPLATES` split if set.
+ * `key` should identify the student so they see a consistent tutor.
+ */
+export function getPromptTemplate(key?: string): PromptTemplate {
+  return selectTemplate(parseTemplateSplit(process.env.PROMPT_TEMPLATES), key);
+}
@@ -0,0 +1,364 @@
+import {
+  DifficultyLevel,
+  LearnerProfile,
+  MessageVariantKind,
+  ResponseStyle,
+  TutoringMode,
+} from '@/types';
+import {
+  DEFAULT_PERSONA,
+  PromptTemplate,
+  TUTOR_PERSONAS,
+  fillTemplate,
+} from './prompt-templates';
+import { getSubject } from './subjects';
+import { ChatMessage } from './providers/types';
+
+/**
+ * Build the system prompt from a template, filling in the subject,
+ * difficulty and what the student has told us about how they learn
+ */
+export function generateContextualPrompt(
+  template: PromptTemplate,
+  {
+    subject,
+    difficulty,
+    learner = {},
+  }: {
+    subject?: string;
+    difficulty?: string;
+    learner?: LearnerProfile;
+  } = {}
+): string {
+  const variables = {
+    persona: TUTOR_PERSONAS[learner.tutorPersona ?? DEFAULT_PERSONA].intro,
+    subject: getSubject(subject)?.name ?? subject,
+    name: learner.preferredName,
+  };
+  const sections = [template.body];
+
+  if (subject) {
+    sections.push(template.subject);
+    const addendum = template.subjectAddenda[subject];
+    if (addendum) sections.push(addendum);
+  }
+
+  if (difficulty && difficulty in template.difficulty) {
+    sections.push(template.difficulty[difficulty as DifficultyLevel]);
+  }
+
+  const about = [
+    learner.preferredName && template.learner.name,
+    learner.explanationStyle &&
+      template.learner.explanationStyle[learner.explanationStyle],
+    learner.needsMoreTime && template.learner.needsMoreTime,
+  ].filter(Boolean);
+
+  if (about.length > 0) {
+    sections.push(`About this student:\n${about.join('\n')}`);
+  }
+
+  return fillTemplate(sections.join('\n\n'), variables);
+}
+
+/**
+ * Extra instructions for each response style
+ */
+const RESPONSE_STYLE_PROMPTS: Record<ResponseStyle, string> = {
+  balanced: '',
+  concise:
+    'Keep answers short and direct: give the answer or next step in one to three sentences, without long introductions or recaps.',
+  step_by_step:
+    'Structure every explanation as a numbered list of small steps, with one idea per step. Finish by asking the student to try the next step themselves.',
+  detailed:
+    'Give thorough answers: explain the background, work through examples, and point out common mistakes. Use headings to organize longer answers.',
+};
+
+/**
+ * Add the instructions for the session's response style to a system prompt
+ */
+export function withResponseStyle(
+  systemPrompt: string,
+  style?: ResponseStyle
+): string {
+  const instructions = style ? RESPONSE_STYLE_PROMPTS[style] : '';
+  if (!instructions) return systemPrompt;
+
+  return `${systemPrompt}\n\n${instructions}`;
+}
+
+/**
+ * Formats the chat can draw, so the tutor can show as well as tell
+ */
+const VISUAL_FORMATS_PROMPT = `When a picture would help, you can include a diagram or chart. They are drawn in the chat and described in words for students who can't see them.
+- Diagrams: a fenced \`\`\`mermaid block, e.g. a flowchart (\`flowchart TD\`) for processes and decisions or a sequence diagram for steps between things. Keep them small and give every node a short, clear label.
+- Charts: a fenced \`\`\`chart block of JSON: {"type":"bar"|"line"|"pie","title":"...","xLabel":"...","yLabel":"...","data":[{"label":"...","value":number}]}
+- Write math in LaTeX between $...$, or $$...$$ for an equation on its own line.
+- Always explain a diagram or chart in the text too; never rely on it alone.`;
+
+/**
+ * Tell the tutor about the diagrams, charts and math the chat can show
+ */
+export function withVisualFormats(systemPrompt: string): string {
+  return `${systemPrompt}\n\n${VISUAL_FORMATS_PROMPT}`;
+}
+
+/**
+ * Extra instructions for each tutoring mode
+ */
+const TUTORING_MODE_PROMPTS: Record<TutoringMode, string> = {
+  explain: '',
+  socratic: `Tutoring mode: Socratic. Do not give the final answer or do the work for the student, even if they ask for it. Guide them with one or two short questions at a time that lead them to work it out, build on what they say, and let them reach the answer themselves. When they give an answer, ask how they got it before saying whether it is right.`,
+  hints: `Tutoring mode: hints only. Never give the final answer or a full worked solution, even if the student asks for it directly or says it is only to check their work. Give one hint at a time and end by asking the student to try the next step.`,
+};
+
+/**
+ * How much each hint level may give away, from a nudge to all but the last
+ * step
+ */
+const HINT_LEVEL_PROMPTS = [
+  'This is a new problem: give a gentle nudge. Point to the idea or fact that matters, or ask a question that gets the student started.',
+  'The student has asked for more help: give a stronger hint. Name the method to use and show how to start.',
+  'The student is still stuck after several hints: walk through the steps up to the last one, then ask them to finish it.',
+];
+
+function getHintLevelPrompt(hintLevel: number): string {
+  return HINT_LEVEL_PROMPTS[
+    Math.min(Math.max(hintLevel, 1), HINT_LEVEL_PROMPTS.length) - 1
+  ];
+}
+
+/**
+ * Add the instructions for the session's tutoring mode to a system prompt.
+ * `hintLevel` (1-3) says how much the next hint may give away.
+ */
+export function withTutoringMode(
+  systemPrompt: string,
+  mode: TutoringMode | undefined,
+  hintLevel: number
+): string {
+  const instructions = mode ? TUTORING_MODE_PROMPTS[mode] : '';
+  if (!instructions) return systemPrompt;
+
+  return `${systemPrompt}\n\n${instructions}\n${getHintLevelPrompt(hintLevel)}`;
+}
+
+/**
+ * Instructions for rewriting a reply that gave away the answer
+ */
+const HINT_REWRITE_PROMPT = `You edit replies from an AI tutor that is meant to guide students to answers rather than give them. The reply you are given states the final answer. Rewrite it so that it does not.
+
+- Remove the final answer and the last step that produces it
+- Keep the encouragement, the explanation of the idea and any earlier steps that are allowed
+- End with a question that asks the student to take the next step themselves
+- Keep the tutor's friendly tone and about the same length or shorter
+- Reply with the rewritten reply only`;
+
+/**
+ * Build the request that rewrites a reply as a hint
+ */
+export function buildHintRewriteMessages(
+  question: string,
+  reply: string,
+  hintLevel: number
+): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `${HINT_REWRITE_PROMPT}\n\n${getHintLevelPrompt(hintLevel)}`,
+    },
+    {
+      role: 'user',
+      content: `Student's message:\n${question}\n\nTutor's reply to rewrite:\n${reply}`,
+    },
+  ];
+}
+
+/**
+ * Used when a reply can't be rewritten without giving away the answer
+ */
+export function getWithheldAnswerReply(mode: TutoringMode): string {
+  return mode === 'hints'
+    ? "Let's not skip to the answer - you can work this one out! Have another look at the problem: what do you already know, and what is it asking you to find? Tell me your first step and I'll give you a hint from there."
+    : "Let's work through this together instead of jumping to the answer. What do you think the first step is? Tell me your idea, even if you're not sure.";
+}
+
+/**
+ * Follow-up requests for explaining the last reply another way. They are
+ * sent as the student's next message, so the tutor keeps its persona and
+ * tutoring mode.
+ */
+const VARIANT_PROMPTS: Record<MessageVariantKind, string> = {
+  analogy:
+    'Explain your last reply again using an analogy to something from everyday life. Keep the same meaning and only say what the analogy needs.',
+  simpler:
+    'Rewrite your last reply so it is easier to read: short sentences, everyday words, and one idea per sentence. Keep the same meaning.',
+  example:
+    'Explain your last reply again by working through one concrete example from start to finish.',
+  steps:
+    'Rewrite your last reply as short numbered steps, with one small action or idea in each step.',
+};
+
+export function getVariantPrompt(kind: MessageVariantKind): string {
+  return VARIANT_PROMPTS[kind];
+}
+
+/**
+ * Instructions for folding older turns into the rolling conversation summary
+ */
+const SUMMARY_PROMPT = `You keep notes on a tutoring conversation between a student and an AI tutor. Update the running summary using the new turns you are given.
+
+- Keep what the student shared about themselves, their goals, and what they find difficult
+- Keep the topics covered, key explanations, and examples the student should remember
+- Note questions the student still has open
+- Use short bullet points and stay under 250 words
+- Reply with the updated summary only`;
+
+/**
+ * Build the request that asks the model to update the rolling summary
+ */
+export function buildSummaryMessages(
+  previousSummary: string | undefined,
+  messages: { role: string; content: string }[]
+): ChatMessage[] {
+  const transcript = messages
+    .map((m) => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+    .join('\n\n');
+
+  return [
+    { role: 'system', content: SUMMARY_PROMPT },
+    {
+      role: 'user',
+      content: `Current summary:\n${
+        previousSummary || '(none yet)'
+      }\n\nNew turns:\n${transcript}`,
+    },
+  ];
+}
+
+/**
+ * Instructions for writing a quiz about a tutoring conversation. The reply
+ * is parsed and checked by `parseQuiz`.
+ */
+const QUIZ_PROMPT = `You write short quizzes that help a student with learning disabilities check what they learned in a tutoring conversation.
+
+- Only ask about ideas that were explained in the conversation
+- Use short, clear questions in plain language, one idea per question
+- Mix the question types: "multiple_choice" (3 or 4 options), "true_false" and "short_answer" (answered in a word, number or short phrase)
+- Give a one or two sentence explanation of each answer, written kindly
+- Reply with JSON only, no other text, in exactly this shape:
+
+{"questions":[
+{"type":"multiple_choice","question":"...","options":["...","...","..."],"answer":0,"explanation":"..."},
+{"type":"true_false","question":"...","answer":true,"explanation":"..."},
+{"type":"short_answer","question":"...","answer":"...","acceptedAnswers":["..."],"explanation":"..."}
+]}
+
+For multiple choice, "answer" is the index of the correct option, counting from 0.`;
+
+function toTranscript(messages: { role: string; content: string }[]): string {
+  return messages
+    .map((m) => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+    .join('\n\n');
+}
+
+function describeLevel(subject?: string, difficulty?: string): string {
+  return [getSubject(subject)?.name ?? subject, difficulty]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Build the request that asks the model for a quiz on a conversation
+ */
+export function buildQuizMessages(
+  messages: { role: string; content: string }[],
+  {
+    count,
+    subject,
+    difficulty,
+  }: { count: number; subject?: string; difficulty?: string }
+): ChatMessage[] {
+  const transcript = toTranscript(messages);
+  const level = describeLevel(subject, difficulty);
+
+  return [
+    { role: 'system', content: QUIZ_PROMPT },
+    {
+      role: 'user',
+      content: `Conversation:\n${transcript}\n\nWrite a quiz of ${count} questions about this conversation${
+        level ? ` (${level})` : ''
+      }.`,
+    },
+  ];
+}
+
+const STUDY_NOTES_PROMPT = `You write study notes that help a student with learning disabilities remember a tutoring conversation.
+
+- Only include ideas that came up in the conversation
+- Use short, plain sentences, one idea per item
+- "keyConcepts": the 3 to 6 most important ideas, each in one sentence
+- "definitions": words or terms that were explained, each with a short meaning in everyday language
+- "openQuestions": things the student was unsure about or did not finish, written as questions; leave the list empty if there were none
+- "nextSteps": 2 to 4 small, concrete things the student could do next
+- Reply with JSON only, no other text, in exactly this shape:
+
+{"keyConcepts":["..."],"definitions":[{"term":"...","meaning":"..."}],"openQuestions":["..."],"nextSteps":["..."]}`;
+
+/**
+ * Build the request that asks the model for study notes on a conversation
+ */
+export function buildStudyNotesMessages(
+  messages: { role: string; content: string }[],
+  {
+    subject,
+    difficulty,
+    summary,
+  }: { subject?: string; difficulty?: string; summary?: string }
+): ChatMessage[] {
+  const level = describeLevel(subject, difficulty);
+  const earlier = summary
+    ? `Summary of the earlier part of the conversation:\n${summary}\n\n`
+    : '';
+
+  return [
+    { role: 'system', content: STUDY_NOTES_PROMPT },
+    {
+      role: 'user',
+      content: `${earlier}Conversation:\n${toTranscript(
+        messages
+      )}\n\nWrite study notes for this conversation${
+        level ? ` (${level})` : ''
+      }.`,
+    },
+  ];
+}
+
+/**
+ * Add the rolling summary of earlier turns to a system prompt
+ */
+export function withConversationSummary(
+  systemPrompt: string,
+  summary?: string
+): string {
+  if (!summary) return systemPrompt;
+
+  return `${systemPrompt}\n\nSummary of the earlier part of this conversation, which is no longer shown in full:\n${summary}`;
+}
+
+/**
+ * Get fallback response when API is unavailable
+ */
+export function getFallbackResponse(userMessage: string): string {
+  const fallbackResponses = [
+    "I'm having trouble connecting to my learning resources right now, but I'm still here to help! Could you tell me more about what you'd like to learn?",
+    "It looks like I'm experiencing some technical difficulties, but don't worry! Let's work through this together. What specific topic are you working on?",
+    "I apologize for the technical issue I'm having. While I get that sorted out, could you share more details about what you're studying? I want to make sure I can help you as soon as possible!",
+    'There seems to be a temporary connection issue on my end. In the meantime, could you break down your question into smaller parts? Sometimes that helps us tackle problems step by step!',
+    "I'm experiencing a brief technical hiccup, but I'm committed to helping you learn! Could you rephrase your question or tell me which part is most confusing?",
+  ];
+
+  return fallbackResponses[
+    Math.floor(Math.random() * fallbackResponses.length)
+  ];
+}
@@ -0,0 +1,243 @@
+import { ChatErrorCode } from '@/types';
+import { parseRetryAfter, RetryPolicy, withRetry } from './retry';
+import { ProviderError } from './types';
+
+export const DEFAULT_TIMEOUT = 15000; // 15 seconds
+
+// Providers don't agree on error codes for these, so the message is checked
+// too. OpenAI uses `context_length_exceeded` and `content_filter`.
+const CONTEXT_TOO_LONG_PATTERN =
+  /context[_ ]length|context window|maximum context|too many tokens|prompt is too long/i;
+const CONTENT_FILTERED_PATTERN =
+  /content[_ ]filter|content management policy|flagged|moderation|safety (system|filter)/i;
+
+interface PostOptions {
+  headers?: Record<string, string>;
+  /** How long a single attempt may wait for response headers */
+  timeout?: number;
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * POST a JSON body to a provider endpoint and return the raw response once
+ * headers have arrived. Non-2xx responses are turned into friendly errors
+ * here so every provider, streaming or not, reports failures the same way.
+ * Rate limits, server errors and timeouts are retried with backoff.
+ */
+export function postJSON(
+  url: string,
+  body: unknown,
+  { headers = {}, timeout = DEFAULT_TIMEOUT, signal, retry }: PostOptions = {}
+): Promise<Response> {
+  return withRetry(
+    ({ remaining }) =>
+      attemptPost(url, body, {
+        headers,
+        // Never wait past the overall deadline
+        timeout: Math.min(timeout, remaining),
+        signal,
+      }),
+    retry,
+    signal
+  );
+}
+
+/**
+ * Make a single POST attempt
+ */
+async function attemptPost(
+  url: string,
+  body: unknown,
+  {
+    headers,
+    timeout,
+    signal,
+  }: { headers: Record<string, string>; timeout: number; signal?: AbortSignal }
+): Promise<Response> {
+  if (timeout <= 0) {
+    throw providerTimeoutError();
+  }
+
+  // Create abort controller for timeout. The fetch also follows the caller's
+  // signal so a cancelled request stops reading the response body, without
+  // adding a listener to it on every attempt.
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: signal
+        ? AbortSignal.any([signal, controller.signal])
+        : controller.signal,
+    });
+
+    if (!response.ok) {
+      throw await toProviderError(response);
+    }
+
+    return response;
+  } catch (error) {
+    // A cancelled request fails with the caller's abort reason
+    if (signal?.aborted) throw error;
+
+    // Handle network errors or timeouts
+    if (error instanceof Error && !(error instanceof ProviderError)) {
+      if (error.name === 'AbortError') {
+        throw providerTimeoutError();
+      }
+
+      if (error.message.includes('fetch')) {
+        throw new ProviderError('Network error connecting to AI service.', {
+          code: 'provider_unavailable',
+          retryable: true,
+        });
+      }
+    }
+
+    // Rethrow the error to be handled by the caller
+    throw error;
+  } finally {
+    // The timeout only covers waiting for the response headers
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Map a failed response to a user-friendly error
+ */
+async function toProviderError(response: Response): Promise<ProviderError> {
+  // Try to get detailed error message (OpenAI style or plain string)
+  let errorMessage = `Error ${response.status}: ${response.statusText}`;
+  let errorCode = '';
+  try {
+    const errorData = await response.json();
+    if (errorData?.error?.message) {
+      errorMessage = errorData.error.message;
+      errorCode = String(errorData.error.code ?? '');
+    } else if (typeof errorData?.error === 'string') {
+      errorMessage = errorData.error;
+    }
+  } catch {
+    // Ignore JSON parsing errors
+  }
+
+  return providerErrorForStatus(
+    response.status,
+    errorMessage,
+    parseRetryAfter(response.headers.get('Retry-After')),
+    errorCode
+  );
+}
+
+/**
+ * The error a provider reports for a given upstream HTTP status
+ */
+export function providerErrorForStatus(
+  statusCode: number,
+  errorMessage?: string,
+  retryAfter?: number,
+  /** Machine-readable code from the error body, if any */
+  errorCode?: string
+): ProviderError {
+  const details = `${errorCode ?? ''} ${errorMessage ?? ''}`;
+
+  // For rate limiting errors
+  if (statusCode === 429 || statusCode === 409) {
+    return new ProviderError(
+      'The AI service is currently busy. Please try again in a moment.',
+      { code: 'provider_busy', status: statusCode, retryAfter, retryable: true }
+    );
+  }
+
+  // Safety filters answer 400 or 403 depending on the provider
+  if (
+    (statusCode === 400 || statusCode === 403) &&
+    CONTENT_FILTERED_PATTERN.test(details)
+  ) {
+    return new ProviderError('The AI service declined to answer.', {
+      code: 'content_filtered',
+      status: statusCode,
+    });
+  }
+
+  // For auth errors
+  if (statusCode === 401 || statusCode === 403) {
+    return new ProviderError('Authentication error with AI service.', {
+      code: 'auth',
+      status: statusCode,
+    });
+  }
+
+  // For server errors (501 Not Implemented won't get better by retrying)
+  if (statusCode >= 500) {
+    return new ProviderError('AI service is temporarily unavailable.', {
+      code: 'provider_unavailable',
+      status: statusCode,
+      retryAfter,
+      retryable: statusCode !== 501,
+    });
+  }
+
+  if (statusCode === 408) {
+    return providerTimeoutError();
+  }
+
+  // For any other errors
+  let code: ChatErrorCode = 'invalid_request';
+  if (statusCode === 413 || CONTEXT_TOO_LONG_PATTERN.test(details)) {
+    code = 'context_too_long';
+  }
+
+  return new ProviderError(
+    errorMessage || `Error communicating with AI service (${statusCode})`,
+    { code, status: statusCode }
+  );
+}
+
+/**
+ * The error a provider reports when the model does not respond in time
+ */
+export function providerTimeoutError(): ProviderError {
+  return new ProviderError('Request timed out. Please try again.', {
+    code: 'timeout',
+    retryable: true,
+  });
+}
+
+/**
+ * Read a newline-delimited JSON stream, yielding one parsed object per line
+ */
+export async function* parseNDJSON<T>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield JSON.parse(buffer) as T;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,206 @@
+import { createMockProvider } from './mock';
+import { createOllamaProvider, OLLAMA_DEFAULT_MODEL } from './ollama';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createOpenRouterProvider } from './openrouter';
+import { RetryPolicy } from './retry';
+import { ChatMessage, ChatRequestOptions, LLMProvider } from './types';
+
+export type { ChatMessage, ChatRequestOptions, LLMProvider } from './types';
+export { ProviderError } from './types';
+
+export type ProviderName = 'openrouter' | 'openai' | 'ollama' | 'mock';
+
+/**
+ * Provider settings, read from the environment:
+ *
+ * - `LLM_PROVIDER`  `openrouter` (default), `openai`, `ollama` or `mock`
+ * - `LLM_MODEL`     model id; each provider has a sensible default
+ * - `LLM_ALLOWED_MODELS` comma-separated models sessions may switch to
+ * - `LLM_BASE_URL`  server URL for `openai` (e.g. `http://10.0.0.5:8080/v1`
+ *                   for a llama.cpp server) and `ollama`
+ * - `LLM_API_KEY`   bearer token; `OPENROUTER_API_KEY` is used for OpenRouter
+ * - `LLM_TIMEOUT_MS` how long to wait for the model to start responding
+ * - `LLM_MAX_RETRIES` retries for rate limits, server errors and timeouts
+ * - `LLM_DEADLINE_MS` total time allowed per request, across all retries
+ * - `LLM_CONTEXT_TOKENS` context window of the model, when it isn't one we
+ *                   already know (see `./models`)
+ * - `MOCK_LLM_SCRIPT` JSON rules file for the `mock` provider
+ * - `MOCK_LLM_CHUNK_DELAY_MS` delay between streamed chunks for `mock`
+ */
+export interface ProviderConfig {
+  provider: ProviderName;
+  model?: string;
+  allowedModels?: string[];
+  baseUrl?: string;
+  apiKey?: string;
+  timeout?: number;
+  contextWindow?: number;
+  retry?: Partial<RetryPolicy>;
+  mockScript?: string;
+  mockChunkDelay?: number;
+}
+
+export function getProviderConfig(
+  env: Record<string, string | undefined> = process.env
+): ProviderConfig {
+  const provider = (env.LLM_PROVIDER || 'openrouter').toLowerCase();
+  const timeout = Number(env.LLM_TIMEOUT_MS) || undefined;
+  const contextWindow = Number(env.LLM_CONTEXT_TOKENS) || undefined;
+  const allowedModels = (env.LLM_ALLOWED_MODELS || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+  const retry: Partial<RetryPolicy> = {
+    ...(env.LLM_MAX_RETRIES !== undefined && {
+      maxRetries: Number(env.LLM_MAX_RETRIES),
+    }),
+    ...(env.LLM_DEADLINE_MS !== undefined && {
+      deadline: Number(env.LLM_DEADLINE_MS),
+    }),
+  };
+
+  switch (provider) {
+    case 'openai':
+    case 'ollama':
+      return {
+        provider,
+        model: env.LLM_MODEL,
+        allowedModels,
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        timeout,
+        contextWindow,
+        retry,
+      };
+    case 'openrouter':
+      return {
+        provider,
+        model: env.LLM_MODEL,
+        allowedModels,
+        apiKey: env.OPENROUTER_API_KEY || env.LLM_API_KEY,
+        timeout,
+        contextWindow,
+        retry,
+      };
+    case 'mock':
+      return {
+        provider,
+        timeout,
+        contextWindow,
+        retry,
+        mockScript: env.MOCK_LLM_SCRIPT,
+        mockChunkDelay:
+          env.MOCK_LLM_CHUNK_DELAY_MS !== undefined
+            ? Number(env.MOCK_LLM_CHUNK_DELAY_MS)
+            : undefined,
+      };
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}"`);
+  }
+}
+
+/**
+ * Whether the configured provider has everything it needs to make requests.
+ * When it doesn't, the route answers with a fallback message instead.
+ */
+export function isProviderConfigured(
+  config: ProviderConfig = getProviderConfig()
+): boolean {
+  switch (config.provider) {
+    case 'openrouter':
+      return !!config.apiKey;
+    case 'openai':
+      // On-prem servers often need no key, but then they need a URL
+      return !!config.model && (!!config.baseUrl || !!config.apiKey);
+    case 'ollama':
+    case 'mock':
+      return true;
+  }
+}
+
+/**
+ * Build a provider from config
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openrouter':
+      return createOpenRouterProvider({
+        apiKey: config.apiKey || '',
+        model: config.model,
+        timeout: config.timeout,
+        contextWindow: config.contextWindow,
+        retry: config.retry,
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: config.baseUrl || 'https://api.openai.com/v1',
+        model: config.model || '',
+        apiKey: config.apiKey,
+        timeout: config.timeout,
+        contextWindow: config.contextWindow,
+        retry: config.retry,
+      });
+    case 'ollama':
+      return createOllamaProvider({
+        baseUrl: config.baseUrl,
+        model: config.model || OLLAMA_DEFAULT_MODEL,
+        timeout: config.timeout,
+        contextWindow: config.contextWindow,
+        retry: config.retry,
+      });
+    case 'mock':
+      return createMockProvider({
+        scriptPath: config.mockScript,
+        chunkDelay: config.mockChunkDelay,
+        timeout: config.timeout,
+        contextWindow: config.contextWindow,
+        retry: config.retry,
+      });
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * The provider selected by the environment, created once per process
+ */
+export function getProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createProvider(getProviderConfig());
+  }
+  return cachedProvider;
+}
+
+/**
+ * Models a session may choose, the provider's default first
+ */
+export function getAllowedModels(): string[] {
+  const defaultModel = getProvider().model;
+  const { allowedModels = [] } = getProviderConfig();
+
+  return [
+    defaultModel,
+    ...allowedModels.filter((model) => model !== defaultModel),
+  ];
+}
+
+/**
+ * Send a chat message to the configured provider and wait for the reply
+ */
+export function sendChatMessage(
+  messages: ChatMessage[],
+  options: ChatRequestOptions = {}
+): Promise<string> {
+  return getProvider().complete(messages, options);
+}
+
+/**
+ * Send a chat message to the configured provider and yield the reply as it
+ * is generated
+ */
+export function streamChatMessage(
+  messages: ChatMessage[],
+  options: ChatRequestOptions = {}
+): AsyncGenerator<string> {
+  return getProvider().stream(messages, options);
+}
@@ -0,0 +1,336 @@
+import { readFileSync } from 'fs';
+import {
+  DEFAULT_TIMEOUT,
+  providerErrorForStatus,
+  providerTimeoutError,
+} from './http';
+import { getContextWindow } from './models';
+import { RetryPolicy, withRetry } from './retry';
+import { ChatMessage, LLMProvider, ProviderError } from './types';
+
+/**
+ * One scripted behaviour. The first rule whose `match` fits the latest user
+ * message wins; a rule without `match` always fits.
+ */
+export interface MockRule {
+  /** Case-insensitive substring, or a regular expression written `/.../flags` */
+  match?: string;
+  /** Reply text. `{{message}}` is replaced with the latest user message */
+  reply?: string;
+  /** Fail as if the upstream API answered with this HTTP status */
+  status?: number;
+  /** Error message in the simulated error body */
+  errorMessage?: string;
+  /** Only fail this many times, then reply; simulates a transient error */
+  failTimes?: number;
+  /** Seconds sent back as `Retry-After` with a failure */
+  retryAfter?: number;
+  /** Never answer, so the request times out */
+  timeout?: boolean;
+  /** Wait this long before the first chunk */
+  delayMs?: number;
+  /** When streaming, fail after this many chunks have been sent */
+  failAfterChunks?: number;
+}
+
+/**
+ * Directives that can be typed straight into the chat, e.g. `[mock:429]`
+ */
+const DIRECTIVE_RULES: MockRule[] = [
+  { match: '/\\[mock:(429|busy)\\]/i', status: 429 },
+  { match: '/\\[mock:401\\]/i', status: 401 },
+  { match: '/\\[mock:500\\]/i', status: 500 },
+  { match: '/\\[mock:503\\]/i', status: 503 },
+  { match: '/\\[mock:timeout\\]/i', timeout: true },
+  {
+    match: '/\\[mock:filtered\\]/i',
+    status: 400,
+    errorMessage: 'The response was filtered by the content_filter policy.',
+  },
+  {
+    match: '/\\[mock:too-long\\]/i',
+    status: 400,
+    errorMessage: "This model's maximum context length is 8192 tokens.",
+  },
+  {
+    match: '/\\[mock:flaky\\]/i',
+    status: 503,
+    failTimes: 2,
+    reply: 'Got there in the end! This reply only worked on the third try.',
+  },
+  {
+    match: '/\\[mock:stream-error\\]/i',
+    reply: 'This reply will stop part of the way through because',
+    failAfterChunks: 4,
+  },
+  {
+    match: '/\\[mock:slow\\]/i',
+    reply: 'Sorry for the wait! This reply was delayed on purpose.',
+    delayMs: 3000,
+  },
+];
+
+/**
+ * Canned replies used when no script is configured
+ */
+const DEFAULT_RULES: MockRule[] = [
+  {
+    match: '/^(hi|hello|hey)\\b/i',
+    reply:
+      "Hi there! I'm the practice tutor. Ask me about any topic and I'll walk you through it step by step.",
+  },
+  {
+    // Quiz requests from `/api/quiz`
+    match: '/write a quiz of \\d+ questions/i',
+    reply: JSON.stringify({
+      questions: [
+        {
+          type: 'multiple_choice',
+          question: 'In the fraction 3/4, what does the 4 tell you?',
+          options: [
+            'How many parts we have',
+            'How many equal parts make the whole',
+            'How big each part is in centimetres',
+          ],
+          answer: 1,
+          explanation:
+            'The bottom number, the denominator, says how many equal parts the whole is split into.',
+        },
+        {
+          type: 'true_false',
+          question: 'The top number of a fraction is called the numerator.',
+          answer: true,
+          explanation:
+            'Yes! The numerator is on top and counts the parts we have.',
+        },
+        {
+          type: 'short_answer',
+          question: 'What fraction is one out of two equal parts?',
+          answer: '1/2',
+          acceptedAnswers: ['one half', 'a half', 'half', '0.5'],
+          explanation:
+            'One part out of two equal parts is one half, written 1/2.',
+        },
+      ],
+    }),
+  },
+  {
+    // Study notes requests from `/api/notes`
+    match: '/write study notes for this conversation/i',
+    reply: JSON.stringify({
+      keyConcepts: [
+        'A fraction shows part of a whole that has been split into equal parts.',
+        'The bottom number says how many equal parts make the whole.',
+        'The top number says how many of those parts we have.',
+      ],
+      definitions: [
+        { term: 'Numerator', meaning: 'The top number of a fraction.' },
+        { term: 'Denominator', meaning: 'The bottom number of a fraction.' },
+      ],
+      openQuestions: ['How do you add two fractions with different bottoms?'],
+      nextSteps: [
+        'Draw a pizza cut into 8 slices and shade 3/8 of it.',
+        'Take a quiz on fractions to check what you remember.',
+      ],
+    }),
+  },
+  {
+    // Rewrites of replies that gave away the answer in a guided mode
+    match: '/reply to rewrite/i',
+    reply:
+      'Six times seven means six groups of seven. You already know that 5 x 7 = 35 - how could you use that to find one more group of seven?',
+  },
+  {
+    // "Explain it differently" requests on a reply
+    match: '/^(explain|rewrite) your last reply/i',
+    reply:
+      'Think of it like sharing a pizza. If the pizza is cut into 4 equal slices and you eat 3, you have eaten 3 of the 4 slices - that is what 3/4 means.',
+  },
+  {
+    match: '/6 (x|times) 7/i',
+    reply:
+      'Six times seven means six groups of seven. 5 x 7 = 35, and one more group of seven makes 42. So the answer is 42!',
+  },
+  {
+    match: '/\\b(diagram|chart)\\b/i',
+    reply:
+      'Here is the water cycle as a flowchart:\n\n```mermaid\nflowchart TD\n  A[Sun heats water] --> B[Water evaporates]\n  B --> C[Vapour cools into clouds]\n  C --> D[Rain falls]\n  D --> A\n```\n\nAnd here is how much it rained each day this week:\n\n```chart\n{"type": "bar", "title": "Rainfall this week", "xLabel": "day", "yLabel": "millimetres", "data": [{"label": "Mon", "value": 4}, {"label": "Tue", "value": 12}, {"label": "Wed", "value": 0}, {"label": "Thu", "value": 7}]}\n```\n\nWhich day had the most rain?',
+  },
+  {
+    match: 'quadratic',
+    reply:
+      'The quadratic formula solves any equation of the form $ax^2 + bx + c = 0$:\n\n$$x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}$$\n\nFor $x^2 - 5x + 6 = 0$ we have $a = 1$, $b = -5$ and $c = 6$. Can you put those into the formula?',
+  },
+  {
+    match: 'fraction',
+    reply:
+      '## Fractions\n\nA fraction shows **part of a whole**.\n\n1. The bottom number (denominator) says how many equal parts there are.\n2. The top number (numerator) says how many parts we have.\n\nSo **3/4** means 3 out of 4 equal parts. Does that make sense?',
+  },
+  {
+    reply:
+      'You asked: "{{message}}". This is a mock reply, so nothing was sent to a real model. Try `[mock:429]`, `[mock:500]`, `[mock:timeout]` or `[mock:stream-error]` to see how errors look.',
+  },
+];
+
+/**
+ * Load rules from a JSON file: either an array of rules or `{ "rules": [...] }`
+ */
+function loadScript(path: string): MockRule[] {
+  const parsed = JSON.parse(readFileSync(path, 'utf8'));
+  const rules = Array.isArray(parsed) ? parsed : parsed?.rules;
+
+  if (!Array.isArray(rules)) {
+    throw new Error(`Mock script ${path} must contain an array of rules`);
+  }
+
+  return rules;
+}
+
+function ruleMatches(rule: MockRule, text: string): boolean {
+  if (!rule.match) return true;
+
+  const regex = rule.match.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(text);
+  }
+
+  return text.toLowerCase().includes(rule.match.toLowerCase());
+}
+
+/**
+ * Resolve after `ms`, or reject straight away if the request is aborted
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Split a reply into word-sized chunks, keeping the whitespace
+ */
+function toChunks(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+/**
+ * A deterministic provider for offline development and end-to-end tests.
+ * Replies come from scripted rules instead of a model, and rules can also
+ * simulate rate limits, server errors, timeouts and broken streams.
+ */
+export function createMockProvider(
+  config: {
+    /** Path to a JSON rules file; the built-in rules are used otherwise */
+    scriptPath?: string;
+    /** Delay between streamed chunks */
+    chunkDelay?: number;
+    timeout?: number;
+    contextWindow?: number;
+    retry?: Partial<RetryPolicy>;
+  } = {}
+): LLMProvider {
+  const {
+    scriptPath,
+    chunkDelay = 20,
+    timeout = DEFAULT_TIMEOUT,
+    contextWindow = getContextWindow('mock'),
+    retry,
+  } = config;
+  const rules = [
+    ...DIRECTIVE_RULES,
+    ...(scriptPath ? loadScript(scriptPath) : DEFAULT_RULES),
+  ];
+
+  // Pick the rule for this request, and fail first if the rule says so.
+  // Failures go through the same retry policy as real providers.
+  const respond = (messages: ChatMessage[], signal?: AbortSignal) =>
+    withRetry(
+      ({ attempt, remaining }) =>
+        attemptRespond(messages, attempt, remaining, signal),
+      retry,
+      signal
+    );
+
+  const attemptRespond = async (
+    messages: ChatMessage[],
+    attempt: number,
+    remaining: number,
+    signal?: AbortSignal
+  ): Promise<{ rule: MockRule; reply: string }> => {
+    // Validate input
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      throw new Error('Valid messages array is required');
+    }
+
+    const lastUserMessage =
+      [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+    const rule = rules.find((r) => ruleMatches(r, lastUserMessage)) ?? {};
+
+    if (rule.delayMs) {
+      await wait(rule.delayMs, signal);
+    }
+
+    if (rule.timeout) {
+      await wait(Math.max(0, Math.min(timeout, remaining)), signal);
+      throw providerTimeoutError();
+    }
+
+    if (rule.status && (!rule.failTimes || attempt <= rule.failTimes)) {
+      throw providerErrorForStatus(
+        rule.status,
+        rule.errorMessage,
+        rule.retryAfter
+      );
+    }
+
+    return {
+      rule,
+      reply: (rule.reply ?? '').replace(/\{\{message\}\}/g, lastUserMessage),
+    };
+  };
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    contextWindow,
+
+    async complete(messages, options = {}) {
+      const { reply } = await respond(messages, options.signal);
+      return reply;
+    },
+
+    async *stream(messages, options = {}) {
+      const { rule, reply } = await respond(messages, options.signal);
+      const chunks = toChunks(reply).slice(0, rule.failAfterChunks);
+
+      for (let i = 0; i < chunks.length; i++) {
+        if (i > 0 && chunkDelay > 0) {
+          await wait(chunkDelay, options.signal);
+        }
+
+        yield chunks[i];
+      }
+
+      // Simulate the connection dropping part way through the reply
+      if (rule.failAfterChunks !== undefined) {
+        throw new ProviderError('AI service is temporarily unavailable.', {
+          code: 'stream_interrupted',
+          retryable: true,
+        });
+      }
+    },
+  };
+}
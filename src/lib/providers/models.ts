@@ -0,0 +1,22 @@
+/**
+ * Context window sizes (in tokens) for models we know about. Anything not
+ * listed gets DEFAULT_CONTEXT_WINDOW unless `LLM_CONTEXT_TOKENS` is set.
+ */
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'deepseek/deepseek-chat-v3-0324:free': 163840,
+  'meta-llama/llama-3.1-8b-instruct:free': 131072,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'llama3.1': 8192,
+  'llama3.2': 8192,
+  mock: 4096,
+};
+
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Look up the context window for a model id
+ */
+export function getContextWindow(model: string): number {
+  return MODEL_CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW;
+}
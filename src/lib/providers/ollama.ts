@@ -0,0 +1,152 @@
+import { parseNDJSON, postJSON } from './http';
+import { getContextWindow } from './models';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from './retry';
+import {
+  ChatMessage,
+  ChatRequestOptions,
+  LLMProvider,
+  ProviderError,
+} from './types';
+
+export const OLLAMA_DEFAULT_URL = 'http://localhost:11434';
+export const OLLAMA_DEFAULT_MODEL = 'llama3.1';
+
+interface OllamaChatResponse {
+  message?: {
+    role: string;
+    content: string;
+  };
+  done: boolean;
+  error?: string;
+  /** Token counts, sent once the reply is done */
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Report the token counts from Ollama's final message
+ */
+function reportUsage(data: OllamaChatResponse, options: ChatRequestOptions) {
+  if (data.done && data.eval_count !== undefined) {
+    options.onUsage?.({
+      promptTokens: data.prompt_eval_count ?? 0,
+      completionTokens: data.eval_count,
+    });
+  }
+}
+
+/**
+ * Provider for a local Ollama server using its native `/api/chat` endpoint,
+ * which streams newline-delimited JSON rather than server-sent events
+ */
+export function createOllamaProvider(config: {
+  baseUrl?: string;
+  model: string;
+  timeout?: number;
+  contextWindow?: number;
+  retry?: Partial<RetryPolicy>;
+}): LLMProvider {
+  const {
+    baseUrl = OLLAMA_DEFAULT_URL,
+    model,
+    timeout,
+    contextWindow = getContextWindow(model),
+    retry,
+  } = config;
+  const url = `${baseUrl.replace(/\/+$/, '')}/api/chat`;
+
+  const request = (
+    messages: ChatMessage[],
+    options: ChatRequestOptions,
+    stream: boolean
+  ) => {
+    const {
+      model: requestModel = model,
+      temperature = 0.7,
+      maxTokens = 800,
+      systemPrompt,
+      signal,
+    } = options;
+
+    // Validate input
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      throw new Error('Valid messages array is required');
+    }
+
+    return postJSON(
+      url,
+      {
+        model: requestModel,
+        messages: systemPrompt
+          ? [{ role: 'system', content: systemPrompt }, ...messages]
+          : messages,
+        stream,
+        options: {
+          temperature,
+          num_predict: maxTokens,
+          // Ollama defaults to a much smaller window than most models support
+          num_ctx:
+            requestModel === model
+              ? contextWindow
+              : getContextWindow(requestModel),
+        },
+      },
+      // Local models can take a while to load on the first request, and
+      // retrying doesn't load them any faster: one attempt may use the whole
+      // retry deadline (kept under the client's timeout)
+      {
+        timeout: timeout ?? retry?.deadline ?? DEFAULT_RETRY_POLICY.deadline,
+        signal,
+        retry,
+      }
+    );
+  };
+
+  return {
+    name: 'ollama',
+    model,
+    contextWindow,
+
+    async complete(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data: OllamaChatResponse = await response.json();
+
+      if (data.error) {
+        throw new ProviderError(data.error);
+      }
+
+      if (!data.message?.content) {
+        throw new ProviderError('No response generated from the AI model');
+      }
+
+      reportUsage(data, options);
+
+      return data.message.content;
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+
+      if (!response.body) {
+        throw new ProviderError('No response generated from the AI model');
+      }
+
+      for await (const chunk of parseNDJSON<OllamaChatResponse>(
+        response.body
+      )) {
+        if (chunk.error) {
+          throw new ProviderError(chunk.error);
+        }
+
+        if (chunk.message?.content) {
+          yield chunk.message.content;
+        }
+
+        if (chunk.done) {
+          reportUsage(chunk, options);
+          return;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import { OpenRouterResponse, OpenRouterStreamChunk } from '@/types';
+import { parseSSE } from '../sse';
+import { postJSON } from './http';
+import { getContextWindow } from './models';
+import { RetryPolicy } from './retry';
+import {
+  ChatMessage,
+  ChatRequestOptions,
+  LLMProvider,
+  ProviderError,
+} from './types';
+
+export interface OpenAICompatibleConfig {
+  name?: string;
+  /** Base URL including the version segment, e.g. `https://api.openai.com/v1` */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  timeout?: number;
+  contextWindow?: number;
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * Provider for any server that speaks the OpenAI chat completions API:
+ * OpenAI itself, vLLM, LM Studio, the llama.cpp server and others.
+ */
+export function createOpenAICompatibleProvider(
+  config: OpenAICompatibleConfig
+): LLMProvider {
+  const {
+    name = 'openai',
+    baseUrl,
+    model,
+    apiKey,
+    headers,
+    timeout,
+    contextWindow = getContextWindow(model),
+    retry,
+  } = config;
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = (
+    messages: ChatMessage[],
+    options: ChatRequestOptions,
+    stream: boolean
+  ) => {
+    const {
+      model: requestModel = model,
+      temperature = 0.7,
+      maxTokens = 800,
+      systemPrompt,
+      signal,
+    } = options;
+
+    // Validate input
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      throw new Error('Valid messages array is required');
+    }
+
+    return postJSON(
+      url,
+      {
+        model: requestModel,
+        messages: systemPrompt
+          ? [{ role: 'system', content: systemPrompt }, ...messages]
+          : messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream,
+        // Ask for token counts in the final chunk of a stream
+        ...(stream && { stream_options: { include_usage: true } }),
+      },
+      {
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...headers,
+        },
+        timeout,
+        signal,
+        retry,
+      }
+    );
+  };
+
+  return {
+    name,
+    model,
+    contextWindow,
+
+    async complete(messages, options = {}) {
+      const response = await request(messages, options, false);
+      const data: OpenRouterResponse = await response.json();
+
+      if (!data.choices || data.choices.length === 0) {
+        throw new ProviderError('No response generated from the AI model');
+      }
+
+      if (data.usage) {
+        options.onUsage?.({
+          promptTokens: data.usage.prompt_tokens,
+          completionTokens: data.usage.completion_tokens,
+        });
+      }
+
+      return data.choices[0].message.content;
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+
+      if (!response.body) {
+        throw new ProviderError('No response generated from the AI model');
+      }
+
+      for await (const { data } of parseSSE(response.body)) {
+        if (data === '[DONE]') return;
+
+        let chunk: OpenRouterStreamChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          // Skip malformed chunks rather than failing the whole reply
+          continue;
+        }
+
+        if (chunk.error?.message) {
+          throw new ProviderError(chunk.error.message);
+        }
+
+        if (chunk.usage) {
+          options.onUsage?.({
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          });
+        }
+
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+
+        // The safety filter stopped the reply part way through
+        if (chunk.choices?.[0]?.finish_reason === 'content_filter') {
+          throw new ProviderError('The AI service declined to answer.', {
+            code: 'content_filtered',
+          });
+        }
+      }
+    },
+  };
+}
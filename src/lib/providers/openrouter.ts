@@ -0,0 +1,40 @@
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { RetryPolicy } from './retry';
+import { LLMProvider } from './types';
+
+const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1';
+export const OPENROUTER_DEFAULT_MODEL = 'deepseek/deepseek-chat-v3-0324:free';
+
+/**
+ * OpenRouter is OpenAI compatible; it only needs its own URL and the
+ * attribution header
+ */
+export function createOpenRouterProvider(config: {
+  apiKey: string;
+  model?: string;
+  timeout?: number;
+  contextWindow?: number;
+  retry?: Partial<RetryPolicy>;
+}): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: OPENROUTER_API_URL,
+    model: config.model || OPENROUTER_DEFAULT_MODEL,
+    apiKey: config.apiKey,
+    headers: {
+      'X-Title': 'AI Study Buddy - Learning Support Tool',
+    },
+    timeout: config.timeout,
+    contextWindow: config.contextWindow,
+    retry: config.retry,
+  });
+}
+
+/**
+ * Validate API key format
+ */
+export function validateApiKey(apiKey: string): boolean {
+  return (
+    typeof apiKey === 'string' && apiKey.length > 10 && apiKey.startsWith('sk-')
+  );
+}
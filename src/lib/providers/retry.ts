@@ -0,0 +1,131 @@
+import { ProviderError } from './types';
+
+const MAX_RETRIES = 3;
+const INITIAL_RETRY_DELAY = 1000; // 1 second
+const MAX_RETRY_DELAY = 8000; // 8 seconds
+// Stays under the 30 second client timeout so the student gets an answer
+// (or a proper error) before the browser gives up
+const DEFAULT_DEADLINE = 25000;
+
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry; doubles on each retry after that */
+  initialDelay: number;
+  /** Upper bound for a single backoff delay */
+  maxDelay: number;
+  /** Total time allowed for the request, across all attempts */
+  deadline: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: MAX_RETRIES,
+  initialDelay: INITIAL_RETRY_DELAY,
+  maxDelay: MAX_RETRY_DELAY,
+  deadline: DEFAULT_DEADLINE,
+};
+
+export interface AttemptInfo {
+  /** 1 for the first try */
+  attempt: number;
+  /** Milliseconds left before the overall deadline */
+  remaining: number;
+}
+
+/**
+ * Sleep function for implementing delays. Rejects early if the request
+ * is aborted.
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, the other half
+ * random, so clients that failed together don't retry together
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(
+    policy.initialDelay * Math.pow(2, attempt - 1),
+    policy.maxDelay
+  );
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Run `fn`, retrying retryable provider errors (rate limits, server errors,
+ * timeouts) with backoff until it succeeds, retries run out or the deadline
+ * would be passed. The error that is finally thrown records how many
+ * attempts were made.
+ */
+export async function withRetry<T>(
+  fn: (info: AttemptInfo) => Promise<T>,
+  policy: Partial<RetryPolicy> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    const remaining = resolved.deadline - (Date.now() - startedAt);
+
+    try {
+      return await fn({ attempt, remaining });
+    } catch (error) {
+      // Aborts and programming errors are never retried
+      if (!(error instanceof ProviderError)) throw error;
+
+      error.attempts = attempt;
+
+      if (
+        !error.retryable ||
+        attempt > resolved.maxRetries ||
+        signal?.aborted
+      ) {
+        throw error;
+      }
+
+      // Honour Retry-After when the upstream sends it
+      const delay =
+        error.retryAfter !== undefined
+          ? error.retryAfter * 1000
+          : backoffDelay(attempt, resolved);
+
+      if (Date.now() - startedAt + delay >= resolved.deadline) {
+        throw error;
+      }
+
+      console.warn(
+        `AI request failed (${error.message}), retrying in ${Math.round(
+          delay
+        )}ms (attempt ${attempt + 1} of ${resolved.maxRetries + 1})`
+      );
+
+      await sleep(delay, signal);
+    }
+  }
+}
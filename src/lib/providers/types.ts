@@ -0,0 +1,72 @@
+import { ChatErrorCode, TokenUsage } from '@/types';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequestOptions {
+  /** Use this model instead of the provider's default */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  signal?: AbortSignal;
+  /** Called with the token counts, if the backend reports them */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A chat model backend. Every provider takes the same messages and options,
+ * and prepends the system prompt itself.
+ */
+export interface LLMProvider {
+  /** Short identifier, e.g. `openrouter` or `ollama` */
+  readonly name: string;
+  /** Model id sent to the backend */
+  readonly model: string;
+  /** Tokens the model can attend to, prompt and reply combined */
+  readonly contextWindow: number;
+  /** Wait for the complete reply */
+  complete(
+    messages: ChatMessage[],
+    options?: ChatRequestOptions
+  ): Promise<string>;
+  /** Yield the reply one content delta at a time */
+  stream(
+    messages: ChatMessage[],
+    options?: ChatRequestOptions
+  ): AsyncGenerator<string>;
+}
+
+/**
+ * Error raised by a provider, carrying the upstream HTTP status when known
+ */
+export class ProviderError extends Error {
+  /** What went wrong, as reported to the client */
+  readonly code: ChatErrorCode;
+  readonly status?: number;
+  /** Seconds the upstream asked us to wait, from its `Retry-After` header */
+  readonly retryAfter?: number;
+  /** Whether the same request might succeed if tried again later */
+  readonly retryable: boolean;
+  /** How many attempts were made before giving up */
+  attempts = 1;
+
+  constructor(
+    message: string,
+    options: {
+      code?: ChatErrorCode;
+      status?: number;
+      retryAfter?: number;
+      retryable?: boolean;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.code = options.code ?? 'unknown';
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.retryable = options.retryable ?? false;
+  }
+}
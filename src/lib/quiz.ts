@@ -0,0 +1,194 @@
+import { ProgressStats, QuizQuestion, QuizResult } from '@/types';
+import { generateId } from './utils';
+
+export const DEFAULT_QUIZ_LENGTH = 5;
+export const MAX_QUIZ_LENGTH = 10;
+
+/**
+ * How many recent quiz results are kept in progress stats
+ */
+const RECENT_RESULTS_LIMIT = 20;
+
+const MAX_TEXT_LENGTH = 500;
+
+export const QUIZ_QUESTION_TYPES: Record<QuizQuestion['type'], string> = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True or false',
+  short_answer: 'Short answer',
+};
+
+function isText(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.trim().length > 0 &&
+    value.length <= MAX_TEXT_LENGTH
+  );
+}
+
+/**
+ * Check one question from the model, returning undefined if it is unusable
+ */
+function toQuizQuestion(value: unknown): QuizQuestion | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const { type, question, explanation, options, answer, acceptedAnswers } =
+    value as Record<string, unknown>;
+
+  if (!isText(question)) return undefined;
+
+  const base = {
+    id: generateId(),
+    question: question.trim(),
+    explanation: isText(explanation) ? explanation.trim() : '',
+  };
+
+  switch (type) {
+    case 'multiple_choice':
+      if (
+        !Array.isArray(options) ||
+        options.length < 2 ||
+        options.length > 6 ||
+        !options.every(isText) ||
+        typeof answer !== 'number' ||
+        !Number.isInteger(answer) ||
+        answer < 0 ||
+        answer >= options.length
+      ) {
+        return undefined;
+      }
+      return {
+        ...base,
+        type,
+        options: options.map((option: string) => option.trim()),
+        answer,
+      };
+
+    case 'true_false':
+      if (typeof answer !== 'boolean') return undefined;
+      return { ...base, type, answer };
+
+    case 'short_answer':
+      if (!isText(answer)) return undefined;
+      return {
+        ...base,
+        type,
+        answer: answer.trim(),
+        acceptedAnswers: Array.isArray(acceptedAnswers)
+          ? acceptedAnswers.filter(isText).map((a: string) => a.trim())
+          : [],
+      };
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse the model's quiz reply. Questions that don't fit the expected shape
+ * are dropped; it is an error only if none are left.
+ */
+export function parseQuiz(
+  text: string,
+  maxQuestions: number = MAX_QUIZ_LENGTH
+): { questions: QuizQuestion[] } | { error: string } {
+  // Models often wrap JSON in a code fence or add a sentence around it
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return { error: 'The reply did not contain JSON' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return { error: 'The reply was not valid JSON' };
+  }
+
+  const rawQuestions = (parsed as { questions?: unknown })?.questions;
+  if (!Array.isArray(rawQuestions)) {
+    return { error: 'The reply had no questions list' };
+  }
+
+  const questions = rawQuestions
+    .map(toQuizQuestion)
+    .filter((question): question is QuizQuestion => !!question)
+    .slice(0, maxQuestions);
+
+  if (questions.length === 0) {
+    return { error: 'None of the questions were usable' };
+  }
+
+  return { questions };
+}
+
+/**
+ * Lower-case and strip punctuation and leading articles, so "The Sun." and
+ * "sun" count as the same answer
+ */
+function normalizeAnswer(answer: string): string {
+  return answer
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}.\s]/gu, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/^\s*(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether a student's answer is right. Multiple choice answers are option
+ * indexes; true/false answers are booleans.
+ */
+export function isCorrectAnswer(
+  question: QuizQuestion,
+  answer: number | boolean | string
+): boolean {
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'true_false':
+      return answer === question.answer;
+    case 'short_answer': {
+      if (typeof answer !== 'string') return false;
+      const given = normalizeAnswer(answer);
+      if (!given) return false;
+
+      return [question.answer, ...question.acceptedAnswers].some((accepted) => {
+        const expected = normalizeAnswer(accepted);
+        return (
+          given === expected ||
+          (!Number.isNaN(Number(given)) && Number(given) === Number(expected))
+        );
+      });
+    }
+  }
+}
+
+/**
+ * The correct answer, written out for feedback
+ */
+export function describeAnswer(question: QuizQuestion): string {
+  switch (question.type) {
+    case 'multiple_choice':
+      return question.options[question.answer];
+    case 'true_false':
+      return question.answer ? 'True' : 'False';
+    case 'short_answer':
+      return question.answer;
+  }
+}
+
+/**
+ * Count a finished quiz into progress stats
+ */
+export function addQuizResult(
+  quizzes: ProgressStats['quizzes'],
+  result: QuizResult
+): NonNullable<ProgressStats['quizzes']> {
+  return {
+    taken: (quizzes?.taken ?? 0) + 1,
+    questionsAnswered: (quizzes?.questionsAnswered ?? 0) + result.total,
+    correctAnswers: (quizzes?.correctAnswers ?? 0) + result.correct,
+    recent: [...(quizzes?.recent ?? []), result].slice(-RECENT_RESULTS_LIMIT),
+  };
+}
@@ -0,0 +1,189 @@
+import { TokenUsage, UsageTotals } from '@/types';
+import { addToTotals, EMPTY_USAGE_TOTALS } from '../usage';
+import { createFileStore } from './file';
+import { createMemoryStore } from './memory';
+import { RateLimitStore } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FILE_PATH = '.data/usage.json';
+const ALL_STUDENTS = 'all';
+
+/**
+ * Daily counts are kept for a week so recent usage can still be reported
+ */
+const USAGE_RETENTION = 8 * DAY_MS;
+
+export type UsageRecord = UsageTotals & { updatedAt: number };
+
+/**
+ * Token budget settings, read from the environment:
+ *
+ * - `LLM_DAILY_TOKEN_BUDGET` tokens everyone together may use per day
+ *                       (UTC); unset or 0 for no limit
+ * - `LLM_STUDENT_DAILY_TOKEN_BUDGET` tokens each student may use per day
+ * - `LLM_BUDGET_FALLBACK_MODEL` model to switch to, with short replies,
+ *                       once a budget is used up; without one, requests are
+ *                       refused until the next day
+ * - `LLM_PROMPT_PRICE` / `LLM_COMPLETION_PRICE` US dollars per million
+ *                       tokens, for cost estimates
+ * - `USAGE_FILE`        where the `file` store keeps daily counts
+ *
+ * Counts live in the same kind of store as the rate limits
+ * (`RATE_LIMIT_STORE`).
+ */
+export interface BudgetConfig {
+  daily: number;
+  student: number;
+  fallbackModel?: string;
+  prices: { prompt: number; completion: number };
+  store: 'memory' | 'file';
+  filePath: string;
+}
+
+export function getBudgetConfig(
+  env: Record<string, string | undefined> = process.env
+): BudgetConfig {
+  return {
+    daily: Number(env.LLM_DAILY_TOKEN_BUDGET) || 0,
+    student: Number(env.LLM_STUDENT_DAILY_TOKEN_BUDGET) || 0,
+    fallbackModel: env.LLM_BUDGET_FALLBACK_MODEL || undefined,
+    prices: {
+      prompt: Number(env.LLM_PROMPT_PRICE) || 0,
+      completion: Number(env.LLM_COMPLETION_PRICE) || 0,
+    },
+    store: env.RATE_LIMIT_STORE?.toLowerCase() === 'file' ? 'file' : 'memory',
+    filePath: env.USAGE_FILE || DEFAULT_FILE_PATH,
+  };
+}
+
+/**
+ * The budget day a time falls in, as `YYYY-MM-DD` in UTC
+ */
+export function getUsageDay(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function usageKey(day: string, studentKey: string): string {
+  return `usage:${day}:${studentKey}`;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** Which budget ran out */
+  exceeded?: 'daily' | 'student';
+  /** Seconds until the budgets reset */
+  retryAfter: number;
+}
+
+export interface UsageReport {
+  day: string;
+  total: UsageTotals;
+  /** Usage by student (or session, for students without an id) */
+  students: Record<string, UsageTotals>;
+}
+
+export interface UsageBudget {
+  config: BudgetConfig;
+  /** Whether today's budgets still have room for another request */
+  check(studentKey?: string): Promise<BudgetCheck>;
+  /** Count a request's tokens against today's budgets */
+  record(studentKey: string | undefined, usage: TokenUsage): Promise<void>;
+  /** Who has used how much on a given day */
+  report(day?: string): Promise<UsageReport>;
+}
+
+export function createUsageBudget(
+  store: RateLimitStore<UsageRecord>,
+  config: BudgetConfig
+): UsageBudget {
+  const read = async (key: string): Promise<UsageTotals> => {
+    const entry = (await store.entries(key)).find(([k]) => k === key);
+    return entry?.[1] ?? EMPTY_USAGE_TOTALS;
+  };
+
+  const tokensUsed = (totals: UsageTotals) =>
+    totals.promptTokens + totals.completionTokens;
+
+  return {
+    config,
+
+    async check(studentKey) {
+      const now = Date.now();
+      const day = getUsageDay(now);
+      const retryAfter = Math.ceil((DAY_MS - (now % DAY_MS)) / 1000);
+
+      if (
+        config.daily > 0 &&
+        tokensUsed(await read(usageKey(day, ALL_STUDENTS))) >= config.daily
+      ) {
+        return { allowed: false, exceeded: 'daily', retryAfter };
+      }
+
+      if (
+        config.student > 0 &&
+        studentKey &&
+        tokensUsed(await read(usageKey(day, studentKey))) >= config.student
+      ) {
+        return { allowed: false, exceeded: 'student', retryAfter };
+      }
+
+      return { allowed: true, retryAfter: 0 };
+    },
+
+    async record(studentKey, usage) {
+      const now = Date.now();
+      const day = getUsageDay(now);
+      const add = (state: UsageRecord | undefined): UsageRecord => ({
+        ...addToTotals(state, usage),
+        updatedAt: now,
+      });
+
+      await store.update(usageKey(day, ALL_STUDENTS), add);
+      if (studentKey) {
+        await store.update(usageKey(day, studentKey), add);
+      }
+    },
+
+    async report(day = getUsageDay()) {
+      const prefix = usageKey(day, '');
+      const students: Record<string, UsageTotals> = {};
+      let total = EMPTY_USAGE_TOTALS;
+
+      for (const [key, totals] of await store.entries(prefix)) {
+        const studentKey = key.slice(prefix.length);
+        if (studentKey === ALL_STUDENTS) {
+          total = totals;
+        } else {
+          students[studentKey] = totals;
+        }
+      }
+
+      return { day, total, students };
+    },
+  };
+}
+
+// Kept on globalThis: each API route is bundled separately, and the usage
+// report has to see the counts kept by the chat route
+const cache = globalThis as { usageBudget?: UsageBudget };
+
+/**
+ * The usage budget for the configured store, created on first use
+ */
+export function getUsageBudget(): UsageBudget {
+  if (!cache.usageBudget) {
+    const config = getBudgetConfig();
+
+    cache.usageBudget = createUsageBudget(
+      config.store === 'file'
+        ? createFileStore<UsageRecord>({
+            path: config.filePath,
+            idleTtl: USAGE_RETENTION,
+          })
+        : createMemoryStore<UsageRecord>({ idleTtl: USAGE_RETENTION }),
+      config
+    );
+  }
+
+  return cache.usageBudget;
+}
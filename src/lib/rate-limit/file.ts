@@ -0,0 +1,87 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { BucketState, RateLimitStore, StoredState } from './types';
+
+/**
+ * Load saved buckets, starting empty if the file is missing or unreadable
+ */
+function loadBuckets<T>(path: string): Map<string, T> {
+  if (!existsSync(path)) return new Map();
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    return new Map(Object.entries(parsed?.buckets ?? {}));
+  } catch (error) {
+    console.error(`Ignoring unreadable rate limit file ${path}:`, error);
+    return new Map();
+  }
+}
+
+/**
+ * Keeps buckets in a JSON file so limits survive restarts. Buckets are held
+ * in memory and written back after each change; writes are coalesced and go
+ * through a temporary file, so a crash never leaves half a file behind.
+ *
+ * Meant for a single server process. Several processes sharing one file
+ * would overwrite each other's counts.
+ */
+export function createFileStore<T extends StoredState = BucketState>(config: {
+  path: string;
+  /** Forget buckets untouched for this long; they will have refilled */
+  idleTtl?: number;
+}): RateLimitStore<T> {
+  const { path, idleTtl = 60 * 60 * 1000 } = config;
+  const buckets = loadBuckets<T>(path);
+  let writing: Promise<void> | null = null;
+  let dirty = false;
+
+  mkdirSync(dirname(path), { recursive: true });
+
+  const save = async () => {
+    while (dirty) {
+      dirty = false;
+
+      const now = Date.now();
+      for (const [key, state] of buckets.entries()) {
+        if (now - state.updatedAt > idleTtl) {
+          buckets.delete(key);
+        }
+      }
+
+      const tempPath = `${path}.${process.pid}.tmp`;
+      try {
+        await writeFile(
+          tempPath,
+          JSON.stringify({ buckets: Object.fromEntries(buckets) })
+        );
+        await rename(tempPath, path);
+      } catch (error) {
+        // Limits still apply from memory; they just won't survive a restart
+        console.error(`Failed to save rate limits to ${path}:`, error);
+      }
+    }
+  };
+
+  return {
+    name: 'file',
+
+    async update(key, fn) {
+      const next = fn(buckets.get(key));
+      buckets.set(key, next);
+
+      dirty = true;
+      if (!writing) {
+        writing = save().finally(() => {
+          writing = null;
+        });
+      }
+
+      return next;
+    },
+
+    async entries(prefix) {
+      return [...buckets.entries()].filter(([key]) => key.startsWith(prefix));
+    },
+  };
+}
@@ -0,0 +1,270 @@
+import { createFileStore } from './file';
+import { createMemoryStore } from './memory';
+import {
+  BucketConfig,
+  BucketState,
+  RateLimitResult,
+  RateLimitStore,
+  STUDENT_ID_HEADER,
+} from './types';
+
+export type {
+  BucketConfig,
+  BucketState,
+  RateLimitResult,
+  RateLimitStore,
+  StoredState,
+} from './types';
+export { STUDENT_ID_HEADER } from './types';
+export { createFileStore } from './file';
+export { createMemoryStore } from './memory';
+export type {
+  BudgetCheck,
+  BudgetConfig,
+  UsageBudget,
+  UsageRecord,
+  UsageReport,
+} from './budget';
+export {
+  createUsageBudget,
+  getBudgetConfig,
+  getUsageBudget,
+  getUsageDay,
+} from './budget';
+
+const DEFAULT_FILE_PATH = '.data/rate-limits.json';
+const ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+/**
+ * Rate limit settings, read from the environment:
+ *
+ * - `RATE_LIMIT_STORE`  `memory` (default) or `file`
+ * - `RATE_LIMIT_FILE`   where the `file` store keeps its buckets
+ * - `RATE_LIMIT_PER_MINUTE` / `RATE_LIMIT_BURST`  per student
+ * - `RATE_LIMIT_IP_PER_MINUTE` / `RATE_LIMIT_IP_BURST`  per IP address,
+ *                       shared by everyone behind it (e.g. a school network)
+ * - `RATE_LIMIT_TRUSTED_PROXIES` how many proxies in front of the app append
+ *                       to `X-Forwarded-For`; 0 (default) ignores the header.
+ *                       Route handlers can't see the socket address, so
+ *                       without it everyone shares one IP allowance
+ */
+export interface RateLimitConfig {
+  store: 'memory' | 'file';
+  filePath: string;
+  student: BucketConfig;
+  ip: BucketConfig;
+  trustedProxies: number;
+}
+
+export function getRateLimitConfig(
+  env: Record<string, string | undefined> = process.env
+): RateLimitConfig {
+  const store = (env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+
+  if (store !== 'memory' && store !== 'file') {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${env.RATE_LIMIT_STORE}"`);
+  }
+
+  return {
+    store,
+    filePath: env.RATE_LIMIT_FILE || DEFAULT_FILE_PATH,
+    student: {
+      capacity: Number(env.RATE_LIMIT_BURST) || 10,
+      refillPerMinute: Number(env.RATE_LIMIT_PER_MINUTE) || 6,
+    },
+    ip: {
+      capacity: Number(env.RATE_LIMIT_IP_BURST) || 100,
+      refillPerMinute: Number(env.RATE_LIMIT_IP_PER_MINUTE) || 300,
+    },
+    trustedProxies: Number(env.RATE_LIMIT_TRUSTED_PROXIES) || 0,
+  };
+}
+
+/**
+ * Refill a bucket for the time that has passed, then try to take a token
+ */
+function takeToken(
+  state: BucketState | undefined,
+  bucket: BucketConfig,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const perSecond = bucket.refillPerMinute / 60;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const available = state
+    ? Math.min(bucket.capacity, state.tokens + elapsed * perSecond)
+    : bucket.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: bucket.capacity,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil((bucket.capacity - tokens) / perSecond),
+      retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / perSecond),
+    },
+  };
+}
+
+export interface RateLimitRule {
+  key: string;
+  bucket: BucketConfig;
+}
+
+export interface RateLimiter {
+  store: RateLimitStore;
+  /**
+   * Take a token from each rule's bucket, in order, stopping at the first
+   * bucket that is empty. Reports on the most restrictive bucket.
+   */
+  consume(rules: RateLimitRule[]): Promise<RateLimitResult>;
+}
+
+export function createRateLimiter(store: RateLimitStore): RateLimiter {
+  return {
+    store,
+
+    async consume(rules) {
+      let tightest: RateLimitResult | undefined;
+
+      for (const { key, bucket } of rules) {
+        let result!: RateLimitResult;
+
+        await store.update(key, (state) => {
+          const taken = takeToken(state, bucket, Date.now());
+          result = taken.result;
+          return taken.state;
+        });
+
+        if (!result.allowed) return result;
+
+        if (!tightest || result.remaining < tightest.remaining) {
+          tightest = result;
+        }
+      }
+
+      return (
+        tightest ?? {
+          allowed: true,
+          limit: 0,
+          remaining: 0,
+          reset: 0,
+          retryAfter: 0,
+        }
+      );
+    },
+  };
+}
+
+/**
+ * Work out the client's IP address, or undefined when it can't be known.
+ * `X-Forwarded-For` can be set by anyone, so only the entries added by our
+ * own proxies are believed.
+ */
+export function getClientIp(
+  headers: Headers,
+  trustedProxies: number
+): string | undefined {
+  if (trustedProxies > 0) {
+    const forwarded = (headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map((ip) => ip.trim())
+      .filter(Boolean);
+    const ip = forwarded[forwarded.length - trustedProxies];
+
+    if (ip) return ip;
+  }
+
+  return undefined;
+}
+
+/**
+ * Who a request is charged to: the student, or without a student id, the
+ * chat session. Undefined for anonymous callers.
+ */
+export function getStudentKey(
+  headers: Headers,
+  sessionId: unknown
+): string | undefined {
+  const studentId = headers.get(STUDENT_ID_HEADER);
+
+  if (studentId && ID_PATTERN.test(studentId)) {
+    return `student:${studentId}`;
+  }
+
+  if (typeof sessionId === 'string' && ID_PATTERN.test(sessionId)) {
+    return `session:${sessionId}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * The buckets a chat request is charged to: one for the student (or, without
+ * a student id, the chat session or IP address) and one shared by the whole
+ * IP address with a much larger allowance, so a classroom behind one NAT is
+ * not limited as if it were a single student.
+ *
+ * The student bucket goes first, so a student who is over their own limit
+ * doesn't use up the allowance of everyone else on their network. Student
+ * ids are chosen by the client, so when the IP address isn't known everyone
+ * shares one IP bucket: making up ids must not get around the limit.
+ */
+export function getRateLimitRules(
+  headers: Headers,
+  sessionId: unknown,
+  config: RateLimitConfig = getRateLimitConfig()
+): RateLimitRule[] {
+  const ip = getClientIp(headers, config.trustedProxies);
+  const studentKey = getStudentKey(headers, sessionId);
+
+  // Anonymous callers are limited like a single student per IP address, or
+  // all together when there is no address to tell them apart
+  if (!studentKey) {
+    return [{ key: ip ? `ip:${ip}` : 'anonymous', bucket: config.student }];
+  }
+
+  return [
+    { key: studentKey, bucket: config.student },
+    { key: ip ? `ip:${ip}` : 'ip:unknown', bucket: config.ip },
+  ];
+}
+
+/**
+ * Headers describing the limit, sent with every response. `Retry-After` is
+ * only added when the request was refused.
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.reset),
+    ...(!result.allowed && { 'Retry-After': String(result.retryAfter) }),
+  };
+}
+
+// Kept on globalThis: each API route is bundled separately, and they all
+// have to share the same buckets (and the same file)
+const cache = globalThis as { rateLimiter?: RateLimiter };
+
+/**
+ * The rate limiter for the configured store, created on first use
+ */
+export function getRateLimiter(): RateLimiter {
+  if (!cache.rateLimiter) {
+    const config = getRateLimitConfig();
+
+    cache.rateLimiter = createRateLimiter(
+      config.store === 'file'
+        ? createFileStore({ path: config.filePath })
+        : createMemoryStore()
+    );
+  }
+
+  return cache.rateLimiter;
+}
@@ -0,0 +1,44 @@
+import { BucketState, RateLimitStore, StoredState } from './types';
+
+const PRUNE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Keeps buckets in a Map. Fast, but every server process has its own limits
+ * and they are lost on restart.
+ */
+export function createMemoryStore<T extends StoredState = BucketState>(
+  config: {
+    /** Forget buckets untouched for this long; they will have refilled */
+    idleTtl?: number;
+  } = {}
+): RateLimitStore<T> {
+  const { idleTtl = 60 * 60 * 1000 } = config;
+  const buckets = new Map<string, T>();
+  let lastPrune = Date.now();
+
+  const prune = (now: number) => {
+    if (now - lastPrune < PRUNE_INTERVAL) return;
+    lastPrune = now;
+
+    for (const [key, state] of buckets.entries()) {
+      if (now - state.updatedAt > idleTtl) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    async update(key, fn) {
+      const next = fn(buckets.get(key));
+      buckets.set(key, next);
+      prune(next.updatedAt);
+      return next;
+    },
+
+    async entries(prefix) {
+      return [...buckets.entries()].filter(([key]) => key.startsWith(prefix));
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Header the client sends its anonymous student id in. Kept here, away from
+ * the server-only stores, so the browser can import it.
+ */
+export const STUDENT_ID_HEADER = 'X-Student-Id';
+
+/**
+ * Token bucket settings. A bucket starts full, each request takes one token,
+ * and tokens trickle back in at `refillPerMinute`.
+ */
+export interface BucketConfig {
+  /** Most requests that can be made in a burst */
+  capacity: number;
+  /** Sustained requests per minute */
+  refillPerMinute: number;
+}
+
+/**
+ * What a store keeps for each key
+ */
+export interface BucketState {
+  tokens: number;
+  /** When `tokens` was last brought up to date (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Anything a store can keep. Entries untouched for the store's idle time
+ * are forgotten.
+ */
+export interface StoredState {
+  /** When the entry last changed (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Where bucket state lives. `update` must apply `fn` atomically for a key,
+ * at least within one server process. The same stores also keep the daily
+ * usage counts for the token budget.
+ */
+export interface RateLimitStore<T extends StoredState = BucketState> {
+  name: string;
+  update(key: string, fn: (state: T | undefined) => T): Promise<T>;
+  /** Every entry whose key starts with `prefix` */
+  entries(prefix: string): Promise<[string, T][]>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Capacity of the most restrictive bucket */
+  limit: number;
+  /** Whole requests left in the most restrictive bucket */
+  remaining: number;
+  /** Seconds until that bucket is full again */
+  reset: number;
+  /** Seconds until the next request would be allowed; 0 when allowed */
+  retryAfter: number;
+}
@@ -0,0 +1,167 @@
+import { DifficultyLevel } from '@/types';
+
+/**
+ * Readability of a tutor reply, measured on its prose: code, math and
+ * diagrams are left out. Nothing is sent to the model.
+ */
+export interface ReadabilityMetrics {
+  /** Flesch-Kincaid grade level, the US school year the text suits */
+  gradeLevel: number;
+  words: number;
+  sentences: number;
+  /** Average words per sentence */
+  averageSentenceLength: number;
+  /** Share of words, 0 to 1, that are not everyday words */
+  rareWordRatio: number;
+}
+
+/**
+ * The highest grade level a reply should read at for each difficulty
+ */
+export const READING_LEVELS: Record<
+  DifficultyLevel,
+  { label: string; maxGrade: number }
+> = {
+  beginner: { label: 'Beginner', maxGrade: 6 },
+  intermediate: { label: 'Intermediate', maxGrade: 9 },
+  advanced: { label: 'Advanced', maxGrade: 12 },
+};
+
+// Short replies give unreliable scores, so they are never rewritten
+const MIN_WORDS_TO_CHECK = 40;
+
+// Leeway above the target before a reply counts as too hard
+const GRADE_TOLERANCE = 1;
+
+// Everyday words a young reader knows. Words of three letters or fewer, and
+// plurals and other simple forms of these, count as everyday too.
+const COMMON_WORDS = new Set(
+  `about above across after again against almost along already also always
+  among animal another answer any anything area around away back because
+  become been before began begin behind being believe below best better
+  between big black body book both bottom bring brought build call came can't
+  carry case change check child children city class clear close cold color
+  come common could count course cover cross dark didn't different does
+  doesn't done don't door down draw during each early earth easy either else
+  end enough even ever every example eye face fact fall family far fast father
+  feel feet few field find fine fire first fish five follow food foot form
+  four free friend from front full game gave give given going gone good great
+  green ground group grow half hand happen hard have head hear heard heart
+  help here high hold home hope horse hour house however idea important inside
+  into it's just keep kind knew know land large last late later learn least
+  leave left less let's letter life light like line list little live long look
+  lot made make many mark matter maybe mean measure might mind minute miss
+  money more morning most mother move much music must name near need never
+  next night nothing notice number often once only open order other others
+  over page paper part pass people person picture piece place plan plant play
+  point possible power pretty problem pull push put question quick quite rain
+  ran rather reach read ready real really reason red remember rest right river
+  road rock room round rule same saw school sea second seem seen sentence set
+  shape short should show side simple since size sleep slow small some
+  someone something sometimes song soon sound space speak special spell stand
+  start state step still stop story street strong study such sure table take
+  talk teacher tell than thank that that's their them then there these they
+  thing think third this those though thought three through time today
+  together told took top toward town tree true try turn two under until upon
+  used useful usually very voice walk want warm was watch water way week well
+  went were what what's when where whether which while white who whole why
+  will wind with within without woman women word work world would write
+  written wrong year yes yet young your you're`.split(/\s+/)
+);
+
+/**
+ * Reply prose only: code, math, diagrams and tables removed, and Markdown
+ * marks stripped. Each list item and heading ends a sentence.
+ */
+function toProse(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, '\n')
+    .replace(/`[^`\n]*`/g, ' ')
+    .replace(/\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\\\([\s\S]+?\\\)/g, ' ')
+    .replace(/\$[^$\n]+\$/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('|'))
+    .map((line) => line.replace(/^\s*(?:[-*+]|\d+[.)]|#{1,6}|>)\s+/, ''))
+    .map((line) => line.replace(/[*_~#>]/g, '').trim())
+    .filter(Boolean)
+    .map((line) => (/[.!?:]$/.test(line) ? line : `${line}.`))
+    .join(' ');
+}
+
+function countSentences(prose: string): number {
+  return prose.split(/[.!?:]+(?=\s|$)/).filter((part) => /[a-z]/i.test(part))
+    .length;
+}
+
+function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+
+  // A silent "e" or "-es"/"-ed" ending doesn't add a syllable
+  const trimmed = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+function isCommonWord(word: string): boolean {
+  const lower = word.toLowerCase().replace(/’/g, "'");
+  if (lower.length <= 3 || COMMON_WORDS.has(lower)) return true;
+
+  return [/'s$/, /s$/, /es$/, /ed$/, /d$/, /ing$/, /ly$/, /er$/, /est$/].some(
+    (ending) =>
+      ending.test(lower) && COMMON_WORDS.has(lower.replace(ending, ''))
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Readability metrics for a reply written in Markdown
+ */
+export function analyzeReadability(markdown: string): ReadabilityMetrics {
+  const prose = toProse(markdown);
+  const words = prose.match(/[a-z]+(?:['’-][a-z]+)*/gi) ?? [];
+  const sentences = Math.max(1, countSentences(prose));
+
+  if (words.length === 0) {
+    return {
+      gradeLevel: 0,
+      words: 0,
+      sentences: 0,
+      averageSentenceLength: 0,
+      rareWordRatio: 0,
+    };
+  }
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const rareWords = words.filter((word) => !isCommonWord(word)).length;
+  const averageSentenceLength = words.length / sentences;
+  const gradeLevel =
+    0.39 * averageSentenceLength + 11.8 * (syllables / words.length) - 15.59;
+
+  return {
+    gradeLevel: round(Math.max(0, gradeLevel)),
+    words: words.length,
+    sentences,
+    averageSentenceLength: round(averageSentenceLength),
+    rareWordRatio: Math.round((rareWords / words.length) * 1000) / 1000,
+  };
+}
+
+/**
+ * Whether a reply reads well above the grade its session is aimed at. Replies
+ * too short to score reliably never do.
+ */
+export function isAboveReadingLevel(
+  metrics: ReadabilityMetrics,
+  difficulty: DifficultyLevel
+): boolean {
+  return (
+    metrics.words >= MIN_WORDS_TO_CHECK &&
+    metrics.gradeLevel > READING_LEVELS[difficulty].maxGrade + GRADE_TOLERANCE
+  );
+}
@@ -0,0 +1,273 @@
+import { ChatSession, DifficultyLevel, Message } from '@/types';
+import { getDisplayedContent } from './variants';
+
+/**
+ * Full-text search over every message in every chat. Messages are ranked
+ * with BM25, so rare words like "mitochondria" count for more than common
+ * ones, with a boost when the chat's title matches too. The last word of
+ * the query also matches as a prefix, so results appear while typing.
+ */
+
+// BM25 tuning: how quickly repeats of a word stop adding to the score, and
+// how much long messages are penalized
+const K1 = 1.2;
+const B = 0.75;
+// Extra weight for a word that is also in the chat's title
+const TITLE_BOOST = 1.5;
+// A prefix match counts for less than the whole word
+const PREFIX_WEIGHT = 0.6;
+const SNIPPET_LENGTH = 160;
+
+export interface SearchFilters {
+  subject?: string;
+  difficulty?: DifficultyLevel;
+  /** Messages sent at or after this time */
+  from?: number;
+  /** Messages sent before this time */
+  to?: number;
+  bookmarked?: boolean;
+}
+
+export interface SearchResult {
+  session: ChatSession;
+  message: Message;
+  score: number;
+  /** Part of the message around the first match, split on the matches */
+  snippet: { text: string; match: boolean }[];
+}
+
+interface IndexedMessage {
+  text: string;
+  terms: Map<string, number>;
+  length: number;
+}
+
+export interface SearchIndex {
+  entries: { session: ChatSession; message: Message; doc: IndexedMessage }[];
+  /** How many messages each term appears in */
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+/**
+ * Markdown reduced to the words a student would remember
+ */
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n?/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`#>$|~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Fold case and accents, and drop a plural "s", so "Mitochondria's" and
+ * "mitochondria" are the same term
+ */
+function normalize(word: string): string {
+  const folded = word
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/'s$/, '');
+  return folded.length > 3 && /[^s]s$/.test(folded)
+    ? folded.slice(0, -1)
+    : folded;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu;
+
+function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? []).map(normalize);
+}
+
+// Indexed messages are kept for as long as the message is; updates replace
+// the message object, so a changed message is indexed again
+const messageCache = new WeakMap<Message, IndexedMessage>();
+
+function indexMessage(message: Message): IndexedMessage {
+  const cached = messageCache.get(message);
+  if (cached) return cached;
+
+  const text = toPlainText(getDisplayedContent(message));
+  const tokens = tokenize(text);
+  const terms = new Map<string, number>();
+  for (const token of tokens) {
+    terms.set(token, (terms.get(token) ?? 0) + 1);
+  }
+
+  const indexed = { text, terms, length: tokens.length };
+  messageCache.set(message, indexed);
+  return indexed;
+}
+
+/**
+ * Index every message that could be searched; failed replies are left out
+ */
+export function buildSearchIndex(sessions: ChatSession[]): SearchIndex {
+  const entries: SearchIndex['entries'] = [];
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+
+  for (const session of sessions) {
+    for (const message of Array.isArray(session?.messages)
+      ? session.messages
+      : []) {
+      if (!message?.content || message.isError) continue;
+
+      const doc = indexMessage(message);
+      entries.push({ session, message, doc });
+      totalLength += doc.length;
+      for (const term of doc.terms.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+  }
+
+  return {
+    entries,
+    documentFrequency,
+    averageLength: entries.length > 0 ? totalLength / entries.length : 0,
+  };
+}
+
+function matchesFilters(
+  session: ChatSession,
+  message: Message,
+  { subject, difficulty, from, to, bookmarked }: SearchFilters
+): boolean {
+  if (subject && session.subject !== subject) return false;
+  if (difficulty && session.difficulty !== difficulty) return false;
+  if (from !== undefined && message.timestamp < from) return false;
+  if (to !== undefined && message.timestamp >= to) return false;
+  if (bookmarked && !message.isBookmarked) return false;
+  return true;
+}
+
+/**
+ * Up to `SNIPPET_LENGTH` characters around the first match, cut at word
+ * boundaries and split so the matching words can be highlighted
+ */
+function makeSnippet(
+  text: string,
+  queryTerms: string[],
+  prefixTerm?: string
+): SearchResult['snippet'] {
+  const matches: [number, number][] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = normalize(match[0]);
+    if (
+      queryTerms.includes(word) ||
+      (prefixTerm && word.startsWith(prefixTerm))
+    ) {
+      matches.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  const first = matches[0]?.[0] ?? 0;
+  let start = Math.max(0, first - SNIPPET_LENGTH / 3);
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) || end;
+
+  const parts: SearchResult['snippet'] = [];
+  let position = start;
+  for (const [matchStart, matchEnd] of matches) {
+    if (matchEnd <= start || matchStart >= end) continue;
+    if (matchStart > position) {
+      parts.push({ text: text.slice(position, matchStart), match: false });
+    }
+    parts.push({ text: text.slice(matchStart, matchEnd), match: true });
+    position = matchEnd;
+  }
+  if (position < end) {
+    parts.push({ text: text.slice(position, end), match: false });
+  }
+
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+/**
+ * Messages matching every word of the query, best first. Ties go to the
+ * more recent message.
+ */
+export function searchMessages(
+  index: SearchIndex,
+  query: string,
+  filters: SearchFilters = {}
+): SearchResult[] {
+  const words = tokenize(query);
+  if (words.length === 0) return [];
+
+  // The last word is matched as a prefix unless the query ends in a space
+  const typing = !/\s$/.test(query) ? words[words.length - 1] : undefined;
+  const wholeTerms = typing ? words.slice(0, -1) : words;
+  const total = index.entries.length;
+
+  const idf = (term: string) => {
+    const frequency = index.documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+  };
+
+  const termScore = (
+    frequency: number,
+    length: number,
+    term: string
+  ): number => {
+    const norm = K1 * (1 - B + (B * length) / (index.averageLength || 1));
+    return (idf(term) * frequency * (K1 + 1)) / (frequency + norm);
+  };
+
+  const results: SearchResult[] = [];
+
+  for (const { session, message, doc } of index.entries) {
+    if (!matchesFilters(session, message, filters)) continue;
+
+    const titleTerms = new Set(tokenize(session.title ?? ''));
+    let score = 0;
+    let matchedAll = true;
+
+    for (const term of wholeTerms) {
+      const frequency = doc.terms.get(term);
+      if (!frequency) {
+        matchedAll = false;
+        break;
+      }
+      score +=
+        termScore(frequency, doc.length, term) *
+        (titleTerms.has(term) ? TITLE_BOOST : 1);
+    }
+    if (!matchedAll) continue;
+
+    if (typing) {
+      // The best-scoring word that the typed word is the start of
+      let best = 0;
+      for (const [term, frequency] of doc.terms) {
+        if (!term.startsWith(typing)) continue;
+        const weight = term === typing ? 1 : PREFIX_WEIGHT;
+        best = Math.max(
+          best,
+          termScore(frequency, doc.length, term) *
+            weight *
+            (titleTerms.has(term) ? TITLE_BOOST : 1)
+        );
+      }
+      if (best === 0) continue;
+      score += best;
+    }
+
+    results.push({
+      session,
+      message,
+      score,
+      snippet: makeSnippet(doc.text, wholeTerms, typing),
+    });
+  }
+
+  return results.sort(
+    (a, b) => b.score - a.score || b.message.timestamp - a.message.timestamp
+  );
+}
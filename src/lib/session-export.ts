@@ -0,0 +1,331 @@
+import { BookmarkNote, ChatSession, DifficultyLevel, Message } from '@/types';
+import { prepareMath } from './math';
+import { getSubject } from './subjects';
+import { escapeHtml } from './utils';
+import { getDisplayedContent } from './variants';
+
+/**
+ * Copies of chat sessions for homework folders and meetings: Markdown, a
+ * standalone web page, and the same page laid out for paper or PDF
+ */
+export type SessionExportFormat = 'markdown' | 'html' | 'print';
+
+export const SESSION_EXPORT_FORMATS: Record<
+  SessionExportFormat,
+  { label: string; description: string }
+> = {
+  markdown: {
+    label: 'Markdown',
+    description: 'Plain text with formatting marks, for notes apps and editors',
+  },
+  html: {
+    label: 'Web page',
+    description:
+      'A single file that opens in any browser and works with screen readers',
+  },
+  print: {
+    label: 'Print or PDF',
+    description:
+      'A layout for paper. Choose "Save as PDF" in the print dialog to make a PDF.',
+  },
+};
+
+/**
+ * Turns a tutor reply's Markdown into HTML. The caller supplies it so replies
+ * are rendered the way the chat renders them.
+ */
+export type RenderReply = (markdown: string) => string;
+
+const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+const speaker = (message: Message) =>
+  message.role === 'user' ? 'Student' : 'Tutor';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+/**
+ * The messages worth keeping, as the student saw them. Failed replies are
+ * left out.
+ */
+function exportedMessages(session: ChatSession): Message[] {
+  return (Array.isArray(session.messages) ? session.messages : [])
+    .filter((message) => !message.isError)
+    .map((message) => ({ ...message, content: getDisplayedContent(message) }));
+}
+
+function sessionDetails(
+  session: ChatSession
+): { label: string; value: string; timestamp?: number }[] {
+  const messages = exportedMessages(session);
+  const bookmarked = messages.filter((message) => message.isBookmarked);
+
+  return [
+    session.subject && {
+      label: 'Subject',
+      value: getSubject(session.subject)?.name ?? session.subject,
+    },
+    session.difficulty && {
+      label: 'Level',
+      value: DIFFICULTY_LABELS[session.difficulty] ?? session.difficulty,
+    },
+    session.folder && { label: 'Folder', value: session.folder },
+    session.tags?.length && { label: 'Tags', value: session.tags.join(', ') },
+    {
+      label: 'Started',
+      value: formatTime(session.createdAt),
+      timestamp: session.createdAt,
+    },
+    {
+      label: 'Last message',
+      value: formatTime(session.updatedAt),
+      timestamp: session.updatedAt,
+    },
+    { label: 'Messages', value: String(messages.length) },
+    { label: 'Bookmarks', value: String(bookmarked.length) },
+  ].filter((detail) => !!detail);
+}
+
+const documentTitle = (sessions: ChatSession[]) =>
+  sessions.length === 1 ? 'StudyPal chat' : 'StudyPal chats';
+
+const sessionTitle = (session: ChatSession) => session.title || 'Untitled chat';
+
+/**
+ * Sessions as one Markdown document. Replies keep their Markdown, with math
+ * written as `$...$` so editors that show math display it as the chat did.
+ */
+export function sessionsToMarkdown(
+  sessions: ChatSession[],
+  notes: BookmarkNote[]
+): string {
+  const notesById = new Map(notes.map((note) => [note.messageId, note]));
+
+  const sections = sessions.map((session) => {
+    const details = sessionDetails(session).map(
+      ({ label, value }) => `- **${label}:** ${value}`
+    );
+
+    const messages = exportedMessages(session).map((message) => {
+      const note = notesById.get(message.id);
+      const bookmark = message.isBookmarked
+        ? [
+            '> **Bookmarked**',
+            note?.note && `> Note: ${note.note.replace(/\n/g, '\n> ')}`,
+            note?.tags.length && `> Tags: ${note.tags.join(', ')}`,
+          ]
+            .filter(Boolean)
+            .join('\n>\n')
+        : '';
+      const content =
+        message.role === 'user'
+          ? message.content
+          : prepareMath(message.content);
+
+      return [
+        `### ${speaker(message)} · ${formatTime(message.timestamp)}`,
+        bookmark,
+        content,
+      ]
+        .filter(Boolean)
+        .join('\n\n');
+    });
+
+    return [
+      `## ${sessionTitle(session)}`,
+      details.join('\n'),
+      ...messages,
+    ].join('\n\n');
+  });
+
+  return [
+    `# ${documentTitle(sessions)}`,
+    `Exported ${formatTime(Date.now())}`,
+    ...sections,
+  ].join('\n\n');
+}
+
+/**
+ * Styles for the exported page. Reply content is spaced like the chat
+ * bubbles; printing drops the colours and starts each chat on a new page.
+ */
+const PRINT_RULES = `
+  body { font-size: 12pt; color: #000; background: #fff; }
+  main { max-width: none; padding: 0; }
+  nav { display: none; }
+  article + article { break-before: page; }
+  h2, h3 { break-after: avoid; }
+  .message { margin: 0 0 0.75rem; background: none; border-color: #888; }
+  .message, pre, figure, .katex-display { break-inside: avoid; }
+  .bookmark { background: none; border-left-color: #000; }
+  pre { white-space: pre-wrap; overflow: visible; }
+  .katex-display { overflow: visible; }
+  .content a[href^="http"]::after { content: " (" attr(href) ")"; }
+`;
+
+const STYLES = `
+  body {
+    margin: 0;
+    font-family: system-ui, -apple-system, 'Segoe UI', Roboto, Arial, sans-serif;
+    line-height: 1.6;
+    color: #1f2937;
+    background: #fff;
+  }
+  main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+  a { color: #1d4ed8; }
+  h1 { font-size: 1.75rem; margin: 0 0 0.25rem; }
+  h2 { font-size: 1.4rem; margin: 2.5rem 0 0.5rem; }
+  .exported { margin: 0; color: #4b5563; }
+  nav ol { padding-left: 1.5rem; }
+  .details { display: flex; flex-wrap: wrap; gap: 0.25rem 1.5rem; margin: 0 0 1.5rem; }
+  .details div { display: flex; gap: 0.35rem; }
+  .details dt { font-weight: 600; }
+  .details dt::after { content: ':'; }
+  .details dd { margin: 0; }
+  .message { margin: 0 0 1rem; padding: 0.75rem 1rem; border: 1px solid; border-radius: 1rem; }
+  .message.user { margin-left: 10%; background: #eff6ff; border-color: #bfdbfe; }
+  .message.assistant { margin-right: 10%; background: #f3f4f6; border-color: #e5e7eb; }
+  .message h3 { margin: 0 0 0.5rem; font-size: 0.9rem; color: #374151; }
+  .message h3 time { font-weight: normal; }
+  .bookmark { margin: 0 0 0.75rem; padding: 0.5rem 0.75rem; border-left: 4px solid #b45309; background: #fffbeb; }
+  .bookmark p { margin: 0; }
+  .user .content { white-space: pre-wrap; }
+  .content h1 { font-size: 1.25rem; margin: 1rem 0; }
+  .content h2 { font-size: 1.15rem; margin: 0.75rem 0; }
+  .content h3 { font-size: 1.05rem; margin: 0.5rem 0; }
+  .content p { margin: 0 0 0.75rem; }
+  .content ul, .content ol { padding-left: 1.5rem; margin: 0 0 1rem; }
+  .content li { margin-bottom: 0.25rem; }
+  .content code { font-family: ui-monospace, Menlo, Consolas, monospace; }
+  .content pre { margin: 0 0 1rem; padding: 0.5rem; background: rgba(0, 0, 0, 0.05); border-radius: 0.3rem; overflow: auto; }
+  .content table { border-collapse: collapse; margin: 0 0 1rem; }
+  .content th, .content td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+  .katex-display { overflow-x: auto; overflow-y: hidden; padding: 0.25rem 0; }
+  math { font-family: 'Latin Modern Math', 'STIX Two Math', 'Cambria Math', math; }
+  math[display="block"] { margin: 0.5rem 0; }
+  figure { margin: 0 0 1rem; }
+  figcaption { font-size: 0.9rem; color: #374151; }
+  @media print { ${PRINT_RULES} }
+`;
+
+/**
+ * Sessions as a standalone HTML page: headings for each chat and message,
+ * times in `<time>` elements, and bookmarks written out rather than shown
+ * only by colour. Nothing is loaded from elsewhere, so `renderReply` should
+ * write math as MathML. The print layout is the same page set for paper.
+ */
+export function sessionsToHtml(
+  sessions: ChatSession[],
+  notes: BookmarkNote[],
+  {
+    layout,
+    renderReply,
+  }: { layout: 'screen' | 'print'; renderReply: RenderReply }
+): string {
+  const notesById = new Map(notes.map((note) => [note.messageId, note]));
+  const title = documentTitle(sessions);
+
+  const articles = sessions.map((session, index) => {
+    const id = `chat-${index + 1}`;
+    const details = sessionDetails(session)
+      .map(
+        ({ label, value, timestamp }) =>
+          `<div><dt>${label}</dt><dd>${
+            timestamp
+              ? `<time datetime="${new Date(
+                  timestamp
+                ).toISOString()}">${escapeHtml(value)}</time>`
+              : escapeHtml(value)
+          }</dd></div>`
+      )
+      .join('');
+
+    const messages = exportedMessages(session).map((message, messageIndex) => {
+      const headingId = `${id}-message-${messageIndex + 1}`;
+      const note = notesById.get(message.id);
+      const bookmark = message.isBookmarked
+        ? `<aside class="bookmark" aria-label="Bookmark"><p><strong>Bookmarked</strong></p>${
+            note?.note ? `<p>Note: ${escapeHtml(note.note)}</p>` : ''
+          }${
+            note?.tags.length
+              ? `<p>Tags: ${escapeHtml(note.tags.join(', '))}</p>`
+              : ''
+          }</aside>`
+        : '';
+      const content =
+        message.role === 'user'
+          ? escapeHtml(message.content)
+          : renderReply(message.content);
+
+      return `<section class="message ${
+        message.role
+      }" aria-labelledby="${headingId}">
+<h3 id="${headingId}">${speaker(message)} <time datetime="${new Date(
+        message.timestamp
+      ).toISOString()}">${escapeHtml(formatTime(message.timestamp))}</time></h3>
+${bookmark}<div class="content">${content}</div>
+</section>`;
+    });
+
+    return `<article id="${id}" aria-labelledby="${id}-title">
+<h2 id="${id}-title">${escapeHtml(sessionTitle(session))}</h2>
+<dl class="details">${details}</dl>
+${messages.join('\n')}
+</article>`;
+  });
+
+  const contents =
+    sessions.length > 1
+      ? `<nav aria-labelledby="contents"><h2 id="contents">Chats</h2><ol>${sessions
+          .map(
+            (session, index) =>
+              `<li><a href="#chat-${index + 1}">${escapeHtml(
+                sessionTitle(session)
+              )}</a></li>`
+          )
+          .join('')}</ol></nav>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(
+    sessions.length === 1 ? sessionTitle(sessions[0]) : title
+  )}</title>
+<style>${STYLES}${layout === 'print' ? PRINT_RULES : ''}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p class="exported">Exported ${escapeHtml(formatTime(Date.now()))}</p>
+${contents}
+${articles.join('\n')}
+</main>
+</body>
+</html>`;
+}
+
+/**
+ * A file name for the export, from the chat's title when there is one chat
+ */
+export function sessionExportFilename(
+  sessions: ChatSession[],
+  format: Exclude<SessionExportFormat, 'print'>
+): string {
+  const date = new Date().toISOString().split('T')[0];
+  const name =
+    sessions.length === 1
+      ? sessionTitle(sessions[0])
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, '-')
+          .replace(/^-+|-+$/g, '')
+          .slice(0, 50) || 'chat'
+      : 'chats';
+
+  return `studypal-${name}-${date}.${format === 'markdown' ? 'md' : 'html'}`;
+}
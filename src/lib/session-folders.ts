@@ -0,0 +1,106 @@
+import { ChatSession, SessionOrganization } from '@/types';
+
+/**
+ * Filing chat sessions: folders (one per session, e.g. a class or term),
+ * tags, pinning and archiving. Folders exist only as names on sessions, so
+ * a folder is gone once nothing is filed in it.
+ */
+
+const MAX_FOLDER_NAME_LENGTH = 40;
+
+export interface SessionGroups {
+  pinned: ChatSession[];
+  folders: { name: string; sessions: ChatSession[] }[];
+  /** Sessions that aren't pinned, archived or in a folder */
+  unfiled: ChatSession[];
+  archived: ChatSession[];
+}
+
+/**
+ * A folder name from user input, with spaces tidied and a length limit
+ */
+export function parseFolderName(input: string): string {
+  return input.trim().replace(/\s+/g, ' ').slice(0, MAX_FOLDER_NAME_LENGTH);
+}
+
+/**
+ * Every folder in use, sorted alphabetically
+ */
+export function getFolders(sessions: ChatSession[]): string[] {
+  return Array.from(
+    new Set(
+      sessions
+        .map((session) => session.folder)
+        .filter((folder): folder is string => !!folder)
+    )
+  ).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Every tag used on a session, sorted alphabetically
+ */
+export function getSessionTags(sessions: ChatSession[]): string[] {
+  return Array.from(
+    new Set(sessions.flatMap((session) => session.tags ?? []))
+  ).sort();
+}
+
+/**
+ * Sessions in the sections of the session list, keeping their order.
+ * Archived sessions are only in `archived`, and pinned ones only in
+ * `pinned`, whatever folder they are in.
+ */
+export function groupSessions(
+  sessions: ChatSession[],
+  { tag }: { tag?: string } = {}
+): SessionGroups {
+  const groups: SessionGroups = {
+    pinned: [],
+    folders: getFolders(sessions).map((name) => ({ name, sessions: [] })),
+    unfiled: [],
+    archived: [],
+  };
+
+  for (const session of sessions) {
+    if (tag && !session.tags?.includes(tag)) continue;
+
+    if (session.archived) {
+      groups.archived.push(session);
+    } else if (session.pinned) {
+      groups.pinned.push(session);
+    } else if (session.folder) {
+      groups.folders
+        .find((folder) => folder.name === session.folder)
+        ?.sessions.push(session);
+    } else {
+      groups.unfiled.push(session);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Apply filing changes to some sessions. Empty values are removed rather
+ * than stored, and archiving a session unpins it. Filing isn't activity, so
+ * `updatedAt` is left alone.
+ */
+export function organizeSessions(
+  sessions: ChatSession[],
+  sessionIds: string[],
+  changes: Partial<SessionOrganization>
+): ChatSession[] {
+  const ids = new Set(sessionIds);
+
+  return sessions.map((session) => {
+    if (!ids.has(session.id)) return session;
+
+    const updated = { ...session, ...changes };
+    if (updated.archived) delete updated.pinned;
+    if (!updated.folder) delete updated.folder;
+    if (!updated.tags?.length) delete updated.tags;
+    if (!updated.pinned) delete updated.pinned;
+    if (!updated.archived) delete updated.archived;
+    return updated;
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Helpers for writing and reading server-sent events (SSE).
+ *
+ * The same parser is used on the server to read upstream model streams and in
+ * the browser to read the stream returned by `/api/chat`.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a single named event with a JSON payload
+ */
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Parse one raw event block (the text between two blank lines)
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    // Lines starting with a colon are comments (used as keep-alives)
+    if (!line || line.startsWith(':')) continue;
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Read a byte stream and yield each complete server-sent event
+ */
+export async function* parseSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const parsed = parseEventBlock(block);
+        if (parsed) yield parsed;
+      }
+    }
+
+    // Flush whatever is left once the stream closes
+    buffer += decoder.decode();
+    const parsed = parseEventBlock(buffer);
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,33 @@
+import { StorageError, StorageErrorKind, StorageKey } from './types';
+
+const listeners = new Set<(error: StorageError) => void>();
+
+export function isQuotaError(error: unknown): boolean {
+  return (
+    typeof DOMException !== 'undefined' &&
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.code === 22)
+  );
+}
+
+/**
+ * Tell listeners that a value could not be saved. It stays in memory, and
+ * the next change to it tries again.
+ */
+export function reportStorageError(keys: StorageKey[], error: unknown): void {
+  const kind: StorageErrorKind = isQuotaError(error) ? 'quota' : 'unknown';
+  console.error(`Failed to save ${keys.join(', ')}:`, error);
+  listeners.forEach((listener) => listener({ kind, keys, error }));
+}
+
+/**
+ * Be told when saving fails. Returns a function that stops listening.
+ */
+export function onStorageError(
+  listener: (error: StorageError) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,43 @@
+import { createIndexedDbRepository, openDatabase } from './indexeddb';
+import { createLocalStorageRepository } from './local';
+import { StudyRepository } from './types';
+
+export type {
+  StorageError,
+  StorageErrorKind,
+  StorageKey,
+  StudyRepository,
+} from './types';
+export { STORAGE_KEYS } from './types';
+export { onStorageError } from './errors';
+export { MIGRATIONS, SCHEMA_VERSION } from './migrations';
+export type { Migration } from './migrations';
+export { createIndexedDbRepository, openDatabase } from './indexeddb';
+export { createLocalStorageRepository } from './local';
+
+let repository: Promise<StudyRepository> | null = null;
+
+async function openRepository(): Promise<StudyRepository> {
+  try {
+    const db = await openDatabase();
+    // Ask the browser not to clear the data when space runs low. It may
+    // still say no; the data is kept either way, just not guaranteed.
+    navigator.storage?.persist?.().catch(() => {});
+    return createIndexedDbRepository(db);
+  } catch (error) {
+    console.warn('IndexedDB is unavailable, using localStorage:', error);
+    return createLocalStorageRepository();
+  }
+}
+
+/**
+ * The browser's repository, opened on first use. Only call this in the
+ * browser.
+ */
+export function getRepository(): Promise<StudyRepository> {
+  if (!repository) {
+    repository = openRepository();
+  }
+
+  return repository;
+}
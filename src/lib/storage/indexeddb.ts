@@ -0,0 +1,248 @@
+import { ChatSession, Message } from '@/types';
+import { reportStorageError } from './errors';
+import { runMigrations, SCHEMA_VERSION } from './migrations';
+import {
+  DATABASE_NAME,
+  fromRecords,
+  isStoredSession,
+  MessageRecord,
+  MESSAGES_STORE,
+  RECORDS_STORE,
+  SESSION_ORDER_KEY,
+  SessionRecord,
+  SESSIONS_STORE,
+  toMessageRecord,
+  toSessionRecord,
+} from './schema';
+import { StorageKey, StudyRepository } from './types';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Open the database, running any migrations it hasn't had yet
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, SCHEMA_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      runMigrations(
+        request.result,
+        request.transaction as IDBTransaction,
+        event.oldVersion
+      );
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Step aside when a newer version of the app opened in another tab
+      // needs to upgrade the schema
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      console.warn('Storage upgrade is waiting for other tabs to close');
+  });
+}
+
+/**
+ * What was last written for each session, to tell which sessions and
+ * messages have changed since. State updates replace what they change, so
+ * comparing object identity is enough.
+ */
+type SavedSessions = Map<
+  string,
+  { session: ChatSession; messages: Map<string, Message> }
+>;
+
+function snapshot(sessions: ChatSession[]): SavedSessions {
+  return new Map(
+    sessions.map((session) => [
+      session.id,
+      {
+        session,
+        messages: new Map(
+          session.messages.map((message) => [message.id, message])
+        ),
+      },
+    ])
+  );
+}
+
+/**
+ * Keeps data in IndexedDB. Sessions and messages have stores of their own
+ * and only the ones that changed are written, so a reply streaming in
+ * rewrites one message rather than every conversation. Everything else is
+ * one record per key.
+ */
+export function createIndexedDbRepository(db: IDBDatabase): StudyRepository {
+  let savedSessions: SavedSessions = new Map();
+  let savedOrder: string[] = [];
+
+  // Values waiting to be written; undefined removes the key
+  const pending = new Map<StorageKey, unknown>();
+  let writing: Promise<void> | null = null;
+
+  // Queue the changes to sessions and messages since the last write
+  const writeSessions = (
+    transaction: IDBTransaction,
+    sessions: ChatSession[]
+  ): (() => void) => {
+    const sessionsStore = transaction.objectStore(SESSIONS_STORE);
+    const messagesStore = transaction.objectStore(MESSAGES_STORE);
+    const next = snapshot(sessions);
+
+    for (const session of sessions) {
+      const previous = savedSessions.get(session.id);
+      if (previous?.session === session) continue;
+
+      sessionsStore.put(toSessionRecord(session));
+      for (const message of session.messages) {
+        if (previous?.messages.get(message.id) !== message) {
+          messagesStore.put(toMessageRecord(session.id, message));
+        }
+      }
+      for (const id of previous?.messages.keys() ?? []) {
+        if (!next.get(session.id)?.messages.has(id)) {
+          messagesStore.delete([session.id, id]);
+        }
+      }
+    }
+
+    for (const id of savedSessions.keys()) {
+      if (next.has(id)) continue;
+      sessionsStore.delete(id);
+      // Arrays sort after strings, so this covers every [id, messageId]
+      messagesStore.delete(IDBKeyRange.bound([id], [id, []]));
+    }
+
+    const order = sessions.map((session) => session.id);
+    if (order.join('\n') !== savedOrder.join('\n')) {
+      transaction.objectStore(RECORDS_STORE).put(order, SESSION_ORDER_KEY);
+    }
+
+    return () => {
+      savedSessions = next;
+      savedOrder = order;
+    };
+  };
+
+  const write = async (values: Map<StorageKey, unknown>) => {
+    const transaction = db.transaction(
+      [SESSIONS_STORE, MESSAGES_STORE, RECORDS_STORE],
+      'readwrite'
+    );
+    const done = transactionDone(transaction);
+    let markSessionsSaved: (() => void) | undefined;
+
+    try {
+      for (const [key, value] of values) {
+        if (key === 'studypal_sessions') {
+          markSessionsSaved = writeSessions(
+            transaction,
+            Array.isArray(value) ? value : []
+          );
+        } else if (value === undefined) {
+          transaction.objectStore(RECORDS_STORE).delete(key);
+        } else {
+          transaction.objectStore(RECORDS_STORE).put(value, key);
+        }
+      }
+    } catch (error) {
+      // Don't commit half of the changes
+      transaction.abort();
+      done.catch(() => {});
+      throw error;
+    }
+
+    await done;
+    markSessionsSaved?.();
+  };
+
+  const flush = async () => {
+    while (pending.size > 0) {
+      const values = new Map(pending);
+      pending.clear();
+
+      try {
+        await write(values);
+      } catch (error) {
+        // Whatever failed is written again with the next change to it
+        reportStorageError([...values.keys()], error);
+      }
+    }
+  };
+
+  const queue = (key: StorageKey, value: unknown): Promise<void> => {
+    pending.set(key, value);
+    if (!writing) {
+      writing = flush().finally(() => {
+        writing = null;
+      });
+    }
+    return writing;
+  };
+
+  return {
+    name: 'indexeddb',
+
+    async load<T>(key: StorageKey) {
+      const transaction = db.transaction(
+        [SESSIONS_STORE, MESSAGES_STORE, RECORDS_STORE],
+        'readonly'
+      );
+      const records = transaction.objectStore(RECORDS_STORE);
+
+      if (key !== 'studypal_sessions') {
+        return (await requestResult(records.get(key))) as T | undefined;
+      }
+
+      const [sessionRecords, messageRecords, order] = await Promise.all([
+        requestResult(
+          transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<
+            SessionRecord[]
+          >
+        ),
+        requestResult(
+          transaction.objectStore(MESSAGES_STORE).getAll() as IDBRequest<
+            MessageRecord[]
+          >
+        ),
+        requestResult(
+          records.get(SESSION_ORDER_KEY) as IDBRequest<string[] | undefined>
+        ),
+      ]);
+
+      const sessions = fromRecords(
+        sessionRecords,
+        messageRecords,
+        order
+      ).filter(isStoredSession);
+      savedSessions = snapshot(sessions);
+      savedOrder = order ?? [];
+      return sessions as T;
+    },
+
+    save(key, value) {
+      return queue(key, value);
+    },
+
+    remove(key) {
+      return queue(key, key === 'studypal_sessions' ? [] : undefined);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { reportStorageError } from './errors';
+import { StudyRepository } from './types';
+
+/**
+ * Keeps each value as JSON under its key in localStorage, the way earlier
+ * versions did. Only used where IndexedDB can't be opened, such as some
+ * private browsing modes. Running out of space is reported like any other
+ * failed write; nothing is deleted to make room.
+ */
+export function createLocalStorageRepository(): StudyRepository {
+  return {
+    name: 'localstorage',
+
+    async load<T>(key: string) {
+      try {
+        const item = window.localStorage.getItem(key);
+        return item ? (JSON.parse(item) as T) : undefined;
+      } catch (error) {
+        console.error(`Error reading localStorage key "${key}":`, error);
+        return undefined;
+      }
+    },
+
+    async save(key, value) {
+      try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+      } catch (error) {
+        reportStorageError([key], error);
+      }
+    },
+
+    async remove(key) {
+      try {
+        window.localStorage.removeItem(key);
+      } catch (error) {
+        reportStorageError([key], error);
+      }
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import {
+  isStoredSession,
+  LEGACY_IMPORT_KEY,
+  MESSAGES_STORE,
+  RECORDS_STORE,
+  SESSION_ORDER_KEY,
+  SESSIONS_STORE,
+  toMessageRecord,
+  toSessionRecord,
+} from './schema';
+import { STORAGE_KEYS } from './types';
+
+/**
+ * One step in the database's history. Steps run in order inside the upgrade
+ * transaction, so a step that throws leaves the database as it was and is
+ * tried again next time the app opens.
+ *
+ * Never edit a step that has shipped; add a new one with the next version.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(db: IDBDatabase, transaction: IDBTransaction): void;
+}
+
+/**
+ * A value earlier versions kept in localStorage, if it can be read
+ */
+function readLegacyValue(key: string): unknown {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : undefined;
+  } catch (error) {
+    console.error(`Could not read localStorage key "${key}":`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Copy sessions, preferences, progress, bookmarks and flashcards out of
+ * localStorage. The old keys are left as they are, as a backup.
+ */
+function importLegacyData(transaction: IDBTransaction): void {
+  if (typeof window === 'undefined') return;
+
+  const sessionsStore = transaction.objectStore(SESSIONS_STORE);
+  const messagesStore = transaction.objectStore(MESSAGES_STORE);
+  const recordsStore = transaction.objectStore(RECORDS_STORE);
+  let sessionCount = 0;
+
+  for (const key of STORAGE_KEYS) {
+    const value = readLegacyValue(key);
+    if (value === undefined) continue;
+
+    if (key !== 'studypal_sessions') {
+      recordsStore.put(value, key);
+      continue;
+    }
+
+    // Messages are keyed by id, so any without one can't be kept
+    const sessions = (Array.isArray(value) ? value : [])
+      .filter(isStoredSession)
+      .map((session) => ({
+        ...session,
+        messages: session.messages.filter(
+          (message) => typeof message?.id === 'string'
+        ),
+      }));
+    for (const session of sessions) {
+      sessionsStore.put(toSessionRecord(session));
+      for (const message of session.messages) {
+        messagesStore.put(toMessageRecord(session.id, message));
+      }
+    }
+    recordsStore.put(
+      sessions.map((session) => session.id),
+      SESSION_ORDER_KEY
+    );
+    sessionCount = sessions.length;
+  }
+
+  recordsStore.put(
+    { importedAt: Date.now(), sessions: sessionCount },
+    LEGACY_IMPORT_KEY
+  );
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create stores for sessions, messages and other records',
+    migrate(db) {
+      db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      // Keyed by session first, so a session's messages form one key range
+      db.createObjectStore(MESSAGES_STORE, { keyPath: ['sessionId', 'id'] });
+      db.createObjectStore(RECORDS_STORE);
+    },
+  },
+  {
+    version: 2,
+    description: 'Import data earlier versions kept in localStorage',
+    migrate(_db, transaction) {
+      importLegacyData(transaction);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a database from `fromVersion` up to date
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  fromVersion: number
+): void {
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      migration.migrate(db, transaction);
+    }
+  }
+}
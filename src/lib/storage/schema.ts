@@ -0,0 +1,86 @@
+import { ChatSession, Message } from '@/types';
+
+export const DATABASE_NAME = 'studypal';
+
+export const SESSIONS_STORE = 'sessions';
+export const MESSAGES_STORE = 'messages';
+/** Everything else, one value per storage key */
+export const RECORDS_STORE = 'records';
+
+/** Kept in the records store: the order sessions are listed in */
+export const SESSION_ORDER_KEY = 'session_order';
+/** Kept in the records store: when localStorage data was brought across */
+export const LEGACY_IMPORT_KEY = 'legacy_import';
+
+/**
+ * A session without its messages, which are stored one by one so a change to
+ * one message doesn't rewrite the whole conversation
+ */
+export type SessionRecord = Omit<ChatSession, 'messages'> & {
+  messageIds: string[];
+};
+
+export type MessageRecord = Message & { sessionId: string };
+
+/**
+ * Whether a value has what every session needs. Anything else is skipped
+ * when loading or importing rather than breaking the app.
+ */
+export function isStoredSession(value: unknown): value is ChatSession {
+  const session = value as ChatSession;
+  return (
+    !!session &&
+    typeof session === 'object' &&
+    typeof session.id === 'string' &&
+    Array.isArray(session.messages)
+  );
+}
+
+export function toSessionRecord(session: ChatSession): SessionRecord {
+  const { messages, ...rest } = session;
+  return { ...rest, messageIds: messages.map((message) => message.id) };
+}
+
+export function toMessageRecord(
+  sessionId: string,
+  message: Message
+): MessageRecord {
+  return { ...message, sessionId };
+}
+
+/**
+ * Put sessions back together from their records, in the order they were
+ * listed. Sessions missing from the order come last, newest first.
+ */
+export function fromRecords(
+  sessions: SessionRecord[],
+  messages: MessageRecord[],
+  order: string[] = []
+): ChatSession[] {
+  const messagesBySession = new Map<string, Map<string, Message>>();
+  for (const record of messages) {
+    const { sessionId, ...message } = record;
+    if (!messagesBySession.has(sessionId)) {
+      messagesBySession.set(sessionId, new Map());
+    }
+    messagesBySession.get(sessionId)?.set(message.id, message);
+  }
+
+  const position = new Map(order.map((id, index) => [id, index]));
+
+  return sessions
+    .map(({ messageIds, ...session }) => {
+      const stored = messagesBySession.get(session.id);
+      return {
+        ...session,
+        messages: messageIds
+          .map((id) => stored?.get(id))
+          .filter((message): message is Message => !!message),
+      };
+    })
+    .sort(
+      (a, b) =>
+        (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity) ||
+        b.updatedAt - a.updatedAt
+    );
+}
@@ -0,0 +1,40 @@
+/**
+ * Everything the app keeps in the browser. The names are the localStorage
+ * keys earlier versions used, so old data maps straight across.
+ */
+export const STORAGE_KEYS = [
+  'studypal_sessions',
+  'studypal_preferences',
+  'studypal_progress',
+  'studypal_bookmarks',
+  'studypal_flashcards',
+] as const;
+
+export type StorageKey = (typeof STORAGE_KEYS)[number];
+
+/**
+ * Where the app's data lives. Writes for a key are coalesced, so only the
+ * latest value is written when several arrive while one is in flight. A
+ * write that fails is reported through `onStorageError` and nothing already
+ * stored is deleted to make room.
+ */
+export interface StudyRepository {
+  name: string;
+  /** The stored value, or undefined if nothing has been saved yet */
+  load<T>(key: StorageKey): Promise<T | undefined>;
+  save<T>(key: StorageKey, value: T): Promise<void>;
+  remove(key: StorageKey): Promise<void>;
+}
+
+/**
+ * Why saving failed: the browser is out of space for the site, or anything
+ * else that went wrong
+ */
+export type StorageErrorKind = 'quota' | 'unknown';
+
+export interface StorageError {
+  kind: StorageErrorKind;
+  /** What was being saved */
+  keys: StorageKey[];
+  error: unknown;
+}
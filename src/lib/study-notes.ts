@@ -0,0 +1,199 @@
+import { ChatSession, StudyNotes } from '@/types';
+import { getSubject } from './subjects';
+import { escapeHtml } from './utils';
+
+const MAX_ITEMS = 8;
+const MAX_TEXT_LENGTH = 300;
+
+export const STUDY_NOTES_SECTIONS: {
+  key: 'keyConcepts' | 'definitions' | 'openQuestions' | 'nextSteps';
+  title: string;
+}[] = [
+  { key: 'keyConcepts', title: 'Key ideas' },
+  { key: 'definitions', title: 'Words to know' },
+  { key: 'openQuestions', title: 'Questions to come back to' },
+  { key: 'nextSteps', title: 'Next steps' },
+];
+
+function toText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  return text && text.length <= MAX_TEXT_LENGTH ? text : undefined;
+}
+
+function toList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(toText)
+    .filter((item): item is string => !!item)
+    .slice(0, MAX_ITEMS);
+}
+
+function toDefinitions(value: unknown): StudyNotes['definitions'] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => ({
+      term: toText(item?.term),
+      meaning: toText(item?.meaning),
+    }))
+    .filter(
+      (item): item is StudyNotes['definitions'][number] =>
+        !!item.term && !!item.meaning
+    )
+    .slice(0, MAX_ITEMS);
+}
+
+/**
+ * Parse the model's study notes reply. Items that don't fit the expected
+ * shape are dropped; it is an error only if there are no key ideas left.
+ */
+export function parseStudyNotes(
+  text: string
+):
+  | { notes: Omit<StudyNotes, 'createdAt' | 'throughMessageId'> }
+  | { error: string } {
+  // Models often wrap JSON in a code fence or add a sentence around it
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return { error: 'The reply did not contain JSON' };
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return { error: 'The reply was not valid JSON' };
+  }
+
+  const notes = {
+    keyConcepts: toList(parsed?.keyConcepts),
+    definitions: toDefinitions(parsed?.definitions),
+    openQuestions: toList(parsed?.openQuestions),
+    nextSteps: toList(parsed?.nextSteps),
+  };
+
+  if (notes.keyConcepts.length === 0) {
+    return { error: 'The reply had no key ideas' };
+  }
+
+  return { notes };
+}
+
+/**
+ * Whether the session has moved on since its notes were written
+ */
+export function areStudyNotesOutdated(session: ChatSession): boolean {
+  const notes = session.studyNotes;
+  if (!notes) return false;
+  const last = session.messages[session.messages.length - 1];
+  return !!last && last.id !== notes.throughMessageId;
+}
+
+function describeSession(session: ChatSession): string {
+  return [
+    getSubject(session.subject)?.name ?? session.subject,
+    session.difficulty,
+    new Date(
+      session.studyNotes?.createdAt ?? session.updatedAt
+    ).toLocaleDateString(),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Study notes in Markdown, for saving or pasting into other notes
+ */
+export function studyNotesToMarkdown(
+  notes: StudyNotes,
+  session: ChatSession
+): string {
+  const sections = STUDY_NOTES_SECTIONS.map(({ key, title }) => {
+    const items =
+      key === 'definitions'
+        ? notes.definitions.map(
+            (definition) => `- **${definition.term}**: ${definition.meaning}`
+          )
+        : notes[key].map((item) => `- ${item}`);
+
+    return items.length > 0 ? `## ${title}\n\n${items.join('\n')}` : '';
+  });
+
+  return [
+    `# Study notes: ${session.title || 'Untitled chat'}`,
+    describeSession(session),
+    ...sections,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Dyslexia-friendly print styles: a plain sans-serif font, large text with
+ * wide line and letter spacing, short left-aligned lines, no italics, and
+ * dark grey on cream rather than black on white
+ */
+const PRINT_STYLES = `
+  @page { margin: 2cm; }
+  body {
+    font-family: Verdana, Tahoma, Arial, sans-serif;
+    font-size: 14pt;
+    line-height: 1.7;
+    letter-spacing: 0.05em;
+    word-spacing: 0.15em;
+    color: #222;
+    background: #fdf8e8;
+    max-width: 65ch;
+    margin: 0 auto;
+    text-align: left;
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
+  h1 { font-size: 20pt; margin: 0 0 0.25em; }
+  h2 { font-size: 16pt; margin: 1.5em 0 0.5em; break-after: avoid; }
+  p.details { margin: 0; color: #444; }
+  ul { padding-left: 1.5em; }
+  li { margin-bottom: 0.6em; break-inside: avoid; }
+  strong { font-weight: 700; }
+  em, i { font-style: normal; }
+`;
+
+/**
+ * Study notes as a standalone HTML page, formatted for printing
+ */
+export function studyNotesToHtml(
+  notes: StudyNotes,
+  session: ChatSession
+): string {
+  const title = `Study notes: ${session.title || 'Untitled chat'}`;
+  const sections = STUDY_NOTES_SECTIONS.map(({ key, title }) => {
+    const items =
+      key === 'definitions'
+        ? notes.definitions.map(
+            (definition) =>
+              `<li><strong>${escapeHtml(
+                definition.term
+              )}</strong>: ${escapeHtml(definition.meaning)}</li>`
+          )
+        : notes[key].map((item) => `<li>${escapeHtml(item)}</li>`);
+
+    return items.length > 0
+      ? `<h2>${escapeHtml(title)}</h2><ul>${items.join('')}</ul>`
+      : '';
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="details">${escapeHtml(describeSession(session))}</p>
+${sections}
+</body>
+</html>`;
+}
@@ -0,0 +1,70 @@
+import { Subject } from '@/types';
+
+/**
+ * Subjects a student can choose to study
+ */
+export const SUBJECTS: Subject[] = [
+  {
+    id: 'math',
+    name: 'Mathematics',
+    icon: '🔢',
+    description: 'Algebra, geometry, calculus, and more',
+    color: 'blue',
+  },
+  {
+    id: 'science',
+    name: 'Science',
+    icon: '🔬',
+    description: 'Biology, chemistry, physics',
+    color: 'green',
+  },
+  {
+    id: 'history',
+    name: 'History',
+    icon: '📚',
+    description: 'World history, events, and timelines',
+    color: 'yellow',
+  },
+  {
+    id: 'language',
+    name: 'Language Arts',
+    icon: '📝',
+    description: 'Grammar, writing, literature',
+    color: 'purple',
+  },
+  {
+    id: 'computer',
+    name: 'Computer Science',
+    icon: '💻',
+    description: 'Programming, algorithms, technology',
+    color: 'indigo',
+  },
+  {
+    id: 'art',
+    name: 'Arts',
+    icon: '🎨',
+    description: 'Visual arts, music, creative subjects',
+    color: 'pink',
+  },
+  {
+    id: 'social',
+    name: 'Social Studies',
+    icon: '🌍',
+    description: 'Geography, civics, culture',
+    color: 'cyan',
+  },
+  {
+    id: 'other',
+    name: 'Other',
+    icon: '📖',
+    description: 'Any other subject',
+    color: 'gray',
+  },
+];
+
+/**
+ * Look up a subject by id
+ */
+export function getSubject(id?: string): Subject | undefined {
+  return SUBJECTS.find((subject) => subject.id === id);
+}
@@ -0,0 +1,173 @@
+import { Message, TutoringMode } from '@/types';
+
+export const TUTORING_MODES: Record<
+  TutoringMode,
+  { label: string; description: string }
+> = {
+  explain: {
+    label: 'Explain',
+    description: 'Full explanations and answers',
+  },
+  socratic: {
+    label: 'Socratic',
+    description: 'Guiding questions that lead you to the answer',
+  },
+  hints: {
+    label: 'Hints only',
+    description: 'One hint at a time, never the answer',
+  },
+};
+
+export const DEFAULT_TUTORING_MODE: TutoringMode = 'explain';
+
+/**
+ * Hints go from a gentle nudge (1) to walking through all but the last step
+ */
+export const MAX_HINT_LEVEL = 3;
+
+export function isTutoringMode(value: unknown): value is TutoringMode {
+  return typeof value === 'string' && Object.hasOwn(TUTORING_MODES, value);
+}
+
+/**
+ * Whether replies in a mode must not give away final answers
+ */
+export function withholdsAnswers(mode?: TutoringMode): boolean {
+  return mode === 'socratic' || mode === 'hints';
+}
+
+/**
+ * Student messages that ask for another hint on the same problem, or are too
+ * short to be a new one (e.g. an attempt like "is it 12?")
+ */
+const FOLLOW_UP_PATTERN =
+  /\b((another|more|next|bigger|stronger|one more) hint|hint,? please|(still|i'?m) stuck|next step|what next)\b/i;
+const FOLLOW_UP_MAX_WORDS = 6;
+
+function isFollowUp(content: string): boolean {
+  return (
+    FOLLOW_UP_PATTERN.test(content) ||
+    content.trim().split(/\s+/).length <= FOLLOW_UP_MAX_WORDS
+  );
+}
+
+/**
+ * How strong the next hint should be. Starts at 1 for a new problem and goes
+ * up by one for each follow-up the student has sent about it since.
+ */
+export function getHintLevel(
+  messages: Pick<Message, 'role' | 'content'>[]
+): number {
+  const questions = messages.filter((m) => m.role === 'user');
+  let followUps = 0;
+
+  // Count back to the question that started the problem; the first
+  // question always starts one
+  for (let i = questions.length - 1; i > 0; i--) {
+    if (!isFollowUp(questions[i].content)) break;
+    followUps++;
+  }
+
+  return Math.min(1 + followUps, MAX_HINT_LEVEL);
+}
+
+const NUMBER = String.raw`-?\d+(?:[.,/]\d+)*`;
+const OPERATOR = String.raw`[×x*·÷/+−-]`;
+const VALUE = String.raw`(${NUMBER}|(?!(?:that|to|not|because)\b)[^\s.!?,;][^\n.!?,;]{0,59})`;
+
+/**
+ * Ways a reply can state a final answer. The first group is the answer
+ * itself, so it can be compared with what the student said.
+ */
+const FINAL_ANSWER_PATTERNS = [
+  new RegExp(
+    String.raw`\b(?:the|final|correct|right)\s+answer\s+(?:is|would be|will be)\s*:?\s*${VALUE}`,
+    'i'
+  ),
+  new RegExp(String.raw`\banswer\s*\**\s*[:=]\s*\**\s*${VALUE}`, 'i'),
+  new RegExp(String.raw`\bthe\s+solution\s+is\s*:?\s*${VALUE}`, 'i'),
+  new RegExp(
+    String.raw`\b(?:so|therefore|thus|hence)\b[^.\n]{0,40}?(?:\bis\b|\bequals\b|=)\s*(${NUMBER})`,
+    'i'
+  ),
+  new RegExp(String.raw`^\s*\**\s*[a-z]\s*=\s*(${NUMBER})\s*\**\s*$`, 'im'),
+  // "Six times seven is 42." - a number ending a sentence, not a question
+  new RegExp(
+    String.raw`\b(?:is|equals|makes)\s+(${NUMBER})\s*\**\s*(?:[.!]|$)`,
+    'im'
+  ),
+];
+
+/**
+ * A worked sum such as "6 × 7 = 42": the sum, then its result
+ */
+const EQUATION_PATTERN = new RegExp(
+  String.raw`((?:${NUMBER}\s*${OPERATOR}\s*)+${NUMBER})\s*=\s*(${NUMBER})`,
+  'gi'
+);
+
+const numbersIn = (text: string): string[] =>
+  text.match(/\d+(?:[.,]\d+)*/g) ?? [];
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[*_`$]/g, '')
+    .replace(/[^\p{L}\p{N}.\-/ ]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\.$/, '');
+}
+
+/**
+ * Normalized words, without the full stops that end sentences
+ */
+const wordsIn = (text: string): string[] =>
+  normalize(text)
+    .split(' ')
+    .map((word) => word.replace(/\.+$/, ''))
+    .filter(Boolean);
+
+/**
+ * Whether an answer appears among the words of a message, as whole words:
+ * saying "is it 42?" doesn't mean the student said "4"
+ */
+function wasSaid(said: string[], answer: string): boolean {
+  const words = wordsIn(answer);
+  if (words.length === 0) return true;
+
+  return said.some((_, start) =>
+    words.every((word, i) => said[start + i] === word)
+  );
+}
+
+/**
+ * Find a final answer given away in a reply, returning the answer found or
+ * undefined. Answers the student already gave don't count, so the tutor can
+ * still say "Yes, the answer is 12!" once they have worked it out.
+ */
+export function findFinalAnswer(
+  reply: string,
+  studentMessage: string = ''
+): string | undefined {
+  const said = wordsIn(studentMessage);
+
+  for (const pattern of FINAL_ANSWER_PATTERNS) {
+    const answer = pattern.exec(reply)?.[1];
+    if (answer && !wasSaid(said, answer)) return answer.trim();
+  }
+
+  // A sum on numbers the question doesn't have is a stepping stone ("you
+  // know 5 × 7 = 35...") rather than the answer to it
+  const given = numbersIn(studentMessage);
+  for (const [, sum, answer] of reply.matchAll(EQUATION_PATTERN)) {
+    const isQuestionSum =
+      given.length === 0 ||
+      numbersIn(sum).every((number) => given.includes(number));
+    if (isQuestionSum && !wasSaid(said, answer)) {
+      return answer.trim();
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,102 @@
+import { ProgressStats, TokenUsage, UsageTotals } from '@/types';
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  replies: 0,
+};
+
+/**
+ * Add two token counts, e.g. a reply and the summary update made for it.
+ * The result is only exact if both parts were.
+ */
+export function addUsage(a: TokenUsage, b?: TokenUsage): TokenUsage {
+  if (!b) return a;
+
+  const cost =
+    a.cost !== undefined || b.cost !== undefined
+      ? (a.cost ?? 0) + (b.cost ?? 0)
+      : undefined;
+
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    ...(cost !== undefined && { cost }),
+    ...((a.estimated || b.estimated) && { estimated: true }),
+  };
+}
+
+/**
+ * Count one more reply into a running total
+ */
+export function addToTotals(
+  totals: UsageTotals | undefined,
+  usage: TokenUsage
+): UsageTotals {
+  const base = totals ?? EMPTY_USAGE_TOTALS;
+
+  return {
+    promptTokens: base.promptTokens + usage.promptTokens,
+    completionTokens: base.completionTokens + usage.completionTokens,
+    cost: base.cost + (usage.cost ?? 0),
+    replies: base.replies + 1,
+  };
+}
+
+/**
+ * Count a reply into the overall, daily and per-session totals kept in
+ * progress stats
+ */
+export function addToUsageStats(
+  stats: ProgressStats['usage'],
+  usage: TokenUsage,
+  { day, sessionId }: { day: string; sessionId: string }
+): NonNullable<ProgressStats['usage']> {
+  const byDay = stats?.byDay ?? {};
+  const bySession = stats?.bySession ?? {};
+
+  return {
+    total: addToTotals(stats?.total, usage),
+    byDay: { ...byDay, [day]: addToTotals(byDay[day], usage) },
+    bySession: {
+      ...bySession,
+      [sessionId]: addToTotals(bySession[sessionId], usage),
+    },
+  };
+}
+
+/**
+ * Work out the cost of a request from per-million-token prices. Usage is
+ * returned unchanged when no prices are set.
+ */
+export function priceUsage(
+  usage: TokenUsage,
+  prices: { prompt: number; completion: number }
+): TokenUsage {
+  if (!prices.prompt && !prices.completion) return usage;
+
+  return {
+    ...usage,
+    cost:
+      (usage.promptTokens * prices.prompt +
+        usage.completionTokens * prices.completion) /
+      1_000_000,
+  };
+}
+
+/**
+ * Format a token count for display, e.g. `12.3k`
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * Format a cost in US dollars, keeping small amounts readable
+ */
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+}
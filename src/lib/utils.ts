@@ -1,5 +1,7 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { speakDiagrams } from './diagrams';
+import { speakMath } from './math';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -12,6 +14,26 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+const STUDENT_ID_KEY = 'studypal_student_id';
+
+/**
+ * Anonymous id for this browser, so the server can rate limit each student
+ * separately even when a whole class shares one IP address
+ */
+export function getStudentId(): string {
+  try {
+    let studentId = localStorage.getItem(STUDENT_ID_KEY);
+    if (!studentId) {
+      studentId = generateId();
+      localStorage.setItem(STUDENT_ID_KEY, studentId);
+    }
+    return studentId;
+  } catch {
+    // Storage unavailable - the server falls back to the session id
+    return '';
+  }
+}
+
 /**
  * Format timestamp to readable string
  */
@@ -53,7 +75,7 @@ export function calculateReadingTime(text: string): number {
  * Sanitize text for speech synthesis
  */
 export function sanitizeForSpeech(text: string): string {
-  return text
+  return speakMath(speakDiagrams(text)) // Describe diagrams, read math as words
     .replace(/[*_~`]/g, '') // Remove markdown formatting
     .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Convert links to just text
     .replace(/#{1,6}\s/g, '') // Remove heading markers
@@ -238,3 +260,57 @@ export function prefersReducedMotion(): boolean {
   if (typeof window === 'undefined') return false;
   return window.matchMedia('(prefers-reduced-motion: reduce)').matches;
 }
+
+/**
+ * Escape text for putting into HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadFile(
+  content: string,
+  filename: string,
+  type: string = 'text/plain'
+): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Print an HTML document without leaving the page, through a hidden frame
+ */
+export function printDocument(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const printWindow = frame.contentWindow;
+    if (!printWindow) return;
+    printWindow.addEventListener('afterprint', () => frame.remove());
+    // Wait for web fonts, such as the ones math is set in
+    printWindow.document.fonts.ready.then(() => {
+      printWindow.focus();
+      printWindow.print();
+    });
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,57 @@
+import { Message, MessageVariant, MessageVariantKind } from '@/types';
+
+export const MESSAGE_VARIANTS: Record<
+  MessageVariantKind,
+  { label: string; description: string }
+> = {
+  analogy: {
+    label: 'Use an analogy',
+    description: 'Explain it again by comparing it to something familiar',
+  },
+  simpler: {
+    label: 'Simpler please',
+    description: 'Shorter sentences and easier words',
+  },
+  example: {
+    label: 'Show an example',
+    description: 'Work through an example from start to finish',
+  },
+  steps: {
+    label: 'Break into steps',
+    description: 'One small numbered step at a time',
+  },
+};
+
+export function isVariantKind(value: unknown): value is MessageVariantKind {
+  return typeof value === 'string' && Object.hasOwn(MESSAGE_VARIANTS, value);
+}
+
+/**
+ * The variant shown in place of a reply, if the student picked one
+ */
+export function getActiveVariant(message: Message): MessageVariant | undefined {
+  if (!message.activeVariantId) return undefined;
+  return message.variants?.find(
+    (variant) => variant.id === message.activeVariantId
+  );
+}
+
+/**
+ * The reply as the student is seeing it: the chosen variant or the original
+ */
+export function getDisplayedContent(message: Message): string {
+  return getActiveVariant(message)?.content ?? message.content;
+}
+
+/**
+ * Messages as the student sees them, so the tutor continues from the version
+ * of each reply that was on screen. Unused variants are left out.
+ */
+export function withActiveVariants(messages: Message[]): Message[] {
+  return messages.map((message) => {
+    const shown = { ...message, content: getDisplayedContent(message) };
+    delete shown.variants;
+    delete shown.activeVariantId;
+    return shown;
+  });
+}
@@ -5,6 +5,82 @@ export interface Message {
   timestamp: number;
   isBookmarked?: boolean;
   isError?: boolean;
+  /** Prompt template that produced this reply, e.g. `tutor@2` */
+  promptVersion?: string;
+  /** Why the reply failed, for error messages */
+  errorCode?: ChatErrorCode;
+  /** Tokens spent producing this reply */
+  usage?: TokenUsage;
+  /** The reply gave away an answer and was rewritten as a hint */
+  answerWithheld?: boolean;
+  isStreaming?: boolean;
+  /** Other versions of an assistant reply the student asked for */
+  variants?: MessageVariant[];
+  /** Variant being shown in place of the reply; unset shows the original */
+  activeVariantId?: string;
+}
+
+/**
+ * Ways a student can ask for a reply to be explained again
+ */
+export type MessageVariantKind = 'analogy' | 'simpler' | 'example' | 'steps';
+
+/**
+ * Another version of an assistant reply, shown in the same bubble
+ */
+export interface MessageVariant {
+  id: string;
+  kind: MessageVariantKind;
+  content: string;
+  timestamp: number;
+  promptVersion?: string;
+  usage?: TokenUsage;
+  answerWithheld?: boolean;
+  isStreaming?: boolean;
+  /** Written without being asked because the reply read above the session's level */
+  automatic?: boolean;
+}
+
+/**
+ * A student's own notes on a bookmarked message
+ */
+export interface BookmarkNote {
+  messageId: string;
+  sessionId: string;
+  note: string;
+  tags: string[];
+  updatedAt: number;
+}
+
+/**
+ * A term a tutor reply introduced, with the meaning it gave
+ */
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+}
+
+/**
+ * Tokens used by one request to the model
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated cost in US dollars, when the server has prices configured */
+  cost?: number;
+  /** Counted from the text because the provider didn't report usage */
+  estimated?: boolean;
+}
+
+/**
+ * Usage added up over many replies
+ */
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  /** Number of replies counted */
+  replies: number;
 }
 
 export interface ChatSession {
@@ -15,6 +91,113 @@ export interface ChatSession {
   updatedAt: number;
   subject?: string;
   difficulty?: DifficultyLevel;
+  summary?: ConversationSummary;
+  /** Overrides for how replies in this session are generated */
+  settings?: GenerationSettings;
+  tutoringMode?: TutoringMode;
+  /** Recap of the session written when the student asks for one */
+  studyNotes?: StudyNotes;
+  /** Name of the folder the session is filed in, e.g. a class or term */
+  folder?: string;
+  tags?: string[];
+  /** Shown above everything else in the session list */
+  pinned?: boolean;
+  /** Hidden from the session list unless archived chats are shown */
+  archived?: boolean;
+}
+
+/**
+ * How a session is filed in the session list
+ */
+export type SessionOrganization = Pick<
+  ChatSession,
+  'folder' | 'tags' | 'pinned' | 'archived'
+>;
+
+/**
+ * Whether the tutor explains answers or guides the student to them.
+ * In `socratic` and `hints` modes the server holds back final answers.
+ */
+export type TutoringMode = 'explain' | 'socratic' | 'hints';
+
+/**
+ * How long replies should be. The server maps each to a token limit.
+ */
+export type ResponseLength = 'short' | 'medium' | 'long';
+
+/**
+ * How replies should be written
+ */
+export type ResponseStyle =
+  | 'balanced'
+  | 'concise'
+  | 'step_by_step'
+  | 'detailed';
+
+/**
+ * Per-session generation settings. Anything left out uses the server default.
+ */
+export interface GenerationSettings {
+  /** Model id; must be on the server's allowlist */
+  model?: string;
+  /** 0 gives focused, repeatable answers; higher values vary more */
+  temperature?: number;
+  length?: ResponseLength;
+  style?: ResponseStyle;
+}
+
+/**
+ * Rolling summary of the turns that no longer fit in the model's context
+ */
+export interface ConversationSummary {
+  content: string;
+  /** Id of the last message folded into the summary */
+  throughMessageId: string;
+  updatedAt: number;
+}
+
+/**
+ * Why a chat request failed. The route sends these instead of free text so
+ * the client can explain the problem without matching on error messages.
+ */
+export type ChatErrorCode =
+  /** This student is sending messages too quickly (our own rate limit) */
+  | 'rate_limited'
+  /** The model provider is rate limiting or overloaded */
+  | 'provider_busy'
+  /** The model provider is down or unreachable */
+  | 'provider_unavailable'
+  /** The server's credentials for the model provider were rejected */
+  | 'auth'
+  | 'timeout'
+  /** The provider's safety filter blocked the question or the reply */
+  | 'content_filtered'
+  /** The conversation no longer fits in the model's context window */
+  | 'context_too_long'
+  /** The server's daily token budget has been used up */
+  | 'budget_exceeded'
+  /** The browser has no network connection (client only) */
+  | 'offline'
+  | 'invalid_request'
+  /** The model's answer wasn't in the format that was asked for */
+  | 'invalid_response'
+  /** The reply stopped part way through */
+  | 'stream_interrupted'
+  | 'unknown';
+
+/**
+ * Error body returned by `/api/chat`, also sent as the SSE `error` event
+ */
+export interface ChatErrorResponse {
+  /** Short technical description, for logs */
+  error: string;
+  code: ChatErrorCode;
+  /** Whether sending the same message again might work */
+  retryable: boolean;
+  /** Seconds to wait before retrying */
+  retryAfter?: number;
+  /** How many times the server tried the model provider */
+  attempts?: number;
 }
 
 export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
@@ -29,6 +212,139 @@ export interface UserPreferences {
   defaultSubject: string;
   defaultDifficulty: DifficultyLevel;
   theme: 'light' | 'dark';
+  /** Learner profile, used to tailor the tutor's prompt */
+  tutorPersona?: TutorPersona;
+  explanationStyle?: ExplanationStyle;
+  needsMoreTime?: boolean;
+  preferredName?: string;
+  /** Rewrite replies more simply when they read above the session's level */
+  matchReadingLevel?: boolean;
+}
+
+/**
+ * The character the tutor plays
+ */
+export type TutorPersona = 'encouraging' | 'coach' | 'buddy' | 'storyteller';
+
+/**
+ * How a student likes new ideas to be explained
+ */
+export type ExplanationStyle = 'mixed' | 'examples' | 'analogies' | 'visual';
+
+/**
+ * What the tutor is told about the student, taken from their preferences
+ */
+export type LearnerProfile = Pick<
+  UserPreferences,
+  'tutorPersona' | 'explanationStyle' | 'needsMoreTime' | 'preferredName'
+>;
+
+/**
+ * One quiz question. `answer` is the index of the right option for multiple
+ * choice questions.
+ */
+export type QuizQuestion = {
+  id: string;
+  question: string;
+  /** Why the answer is right, shown after answering */
+  explanation: string;
+} & (
+  | { type: 'multiple_choice'; options: string[]; answer: number }
+  | { type: 'true_false'; answer: boolean }
+  | {
+      type: 'short_answer';
+      answer: string;
+      /** Other wordings that count as correct */
+      acceptedAnswers: string[];
+    }
+);
+
+export type QuizQuestionType = QuizQuestion['type'];
+
+/**
+ * A simple chart the tutor can draw from a fenced `chart` block of JSON
+ */
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  /** Axis titles, for bar and line charts */
+  xLabel?: string;
+  yLabel?: string;
+  data: ChartPoint[];
+}
+
+export type ChartType = 'bar' | 'line' | 'pie';
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface Quiz {
+  id: string;
+  sessionId: string;
+  questions: QuizQuestion[];
+  createdAt: number;
+}
+
+/**
+ * A structured recap of a chat session: what was learned, the words that
+ * came up, and what to do next
+ */
+export interface StudyNotes {
+  keyConcepts: string[];
+  definitions: { term: string; meaning: string }[];
+  openQuestions: string[];
+  nextSteps: string[];
+  createdAt: number;
+  /** Id of the last message the notes cover */
+  throughMessageId?: string;
+}
+
+export interface QuizResult {
+  quizId: string;
+  sessionId: string;
+  subject?: string;
+  correct: number;
+  total: number;
+  completedAt: number;
+}
+
+/**
+ * How well a flashcard was remembered, from forgotten to effortless
+ */
+export type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface FlashcardDeck {
+  id: string;
+  name: string;
+  subject?: string;
+  createdAt: number;
+}
+
+export interface Flashcard {
+  id: string;
+  deckId: string;
+  front: string;
+  back: string;
+  /** The message the card was made from */
+  source?: { sessionId: string; messageId: string };
+  createdAt: number;
+  /** SM-2 ease factor, how fast the interval grows (at least 1.3) */
+  easeFactor: number;
+  /** Days until the next review after the last successful one */
+  interval: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  /** Times the card was forgotten after being learned */
+  lapses: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+export interface FlashcardCollection {
+  decks: FlashcardDeck[];
+  cards: Flashcard[];
 }
 
 export interface ProgressStats {
@@ -39,6 +355,19 @@ export interface ProgressStats {
   favoriteSubjects: string[];
   streakDays: number;
   lastActiveDate: string;
+  /** Quizzes taken, with the most recent results */
+  quizzes?: {
+    taken: number;
+    questionsAnswered: number;
+    correctAnswers: number;
+    recent: QuizResult[];
+  };
+  /** Token usage overall, by day (`YYYY-MM-DD`) and by session id */
+  usage?: {
+    total: UsageTotals;
+    byDay: Record<string, UsageTotals>;
+    bySession: Record<string, UsageTotals>;
+  };
 }
 
 export interface Subject {
@@ -65,6 +394,26 @@ export interface OpenRouterResponse {
   };
 }
 
+export interface OpenRouterStreamChunk {
+  id?: string;
+  /** Sent with the last chunk when `stream_options.include_usage` is set */
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+  choices?: {
+    delta?: {
+      content?: string;
+      role?: string;
+    };
+    finish_reason?: string | null;
+  }[];
+  error?: {
+    message?: string;
+  };
+}
+
 export interface SpeechSynthesisSettings {
   voice: SpeechSynthesisVoice | null;
   rate: number;